@@ -0,0 +1,16 @@
+import UsageDashboard from "@/components/usage-dashboard";
+import Link from "next/link";
+
+export default function UsagePage() {
+  return (
+    <main className="mx-auto max-w-4xl px-4 py-8 sm:py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-normal">Usage</h1>
+        <Link href="/" className="text-sm text-gray-600 hover:text-gray-900">
+          Back to dictation
+        </Link>
+      </div>
+      <UsageDashboard />
+    </main>
+  );
+}
@@ -0,0 +1,16 @@
+import UserManagement from "@/components/user-management";
+import Link from "next/link";
+
+export default function UsersPage() {
+  return (
+    <main className="mx-auto max-w-4xl px-4 py-8 sm:py-12">
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="text-2xl font-normal">Users</h1>
+        <Link href="/" className="text-sm text-gray-600 hover:text-gray-900">
+          Back to dictation
+        </Link>
+      </div>
+      <UserManagement />
+    </main>
+  );
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auditCsv } from "@/lib/audit/csv";
+import {
+  filterAuditEvents,
+  parseAuditQuery,
+  readAuditLog,
+  recordAudit,
+} from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+
+export const runtime = "nodejs";
+
+// Download the matching events, oldest first, as CSV or JSON lines. An
+// unfiltered JSON lines export is a copy of the log that can be verified
+// on its own.
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "audit:read");
+  if (!auth.ok) return auth.response;
+
+  const { searchParams } = request.nextUrl;
+  const format = searchParams.get("format") === "csv" ? "csv" : "jsonl";
+  const events = filterAuditEvents(
+    (await readAuditLog()).events,
+    parseAuditQuery(searchParams)
+  );
+
+  await recordAudit(request, {
+    actor: auth.user,
+    action: "audit.export",
+    outcome: "success",
+    detail: `${format}, ${events.length} events`,
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new NextResponse(
+    format === "csv"
+      ? auditCsv(events)
+      : events.map((event) => JSON.stringify(event)).join("\n") + "\n",
+    {
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv" : "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="audit-${date}.${format}"`,
+        "Cache-Control": "no-store",
+      },
+    }
+  );
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  parseAuditQuery,
+  queryAuditEvents,
+  readAuditLog,
+  recordAudit,
+  verifyAuditChain,
+} from "@/lib/audit/log";
+import {
+  CLIENT_AUDIT_ACTIONS,
+  type AuditQueryResponse,
+  type ClientAuditAction,
+} from "@/lib/audit/types";
+import { authorize } from "@/lib/auth/guard";
+
+export const runtime = "nodejs";
+
+// Search the audit log; the whole chain is verified on every query
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "audit:read");
+  if (!auth.ok) return auth.response;
+
+  const log = await readAuditLog();
+  const query = parseAuditQuery(request.nextUrl.searchParams);
+  await recordAudit(request, {
+    actor: auth.user,
+    action: "audit.view",
+    outcome: "success",
+  });
+
+  return NextResponse.json<AuditQueryResponse>({
+    events: queryAuditEvents(log.events, query),
+    verification: verifyAuditChain(log),
+  });
+}
+
+// Dictations are kept in the browser, which reports when one is viewed,
+// edited, exported or deleted
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  const { action, resource, detail } = (body ?? {}) as Record<string, unknown>;
+
+  if (
+    !CLIENT_AUDIT_ACTIONS.includes(action as ClientAuditAction) ||
+    (resource !== undefined &&
+      (typeof resource !== "string" ||
+        !/^Dictation\/[\w-]+$/.test(resource))) ||
+    (detail !== undefined &&
+      (typeof detail !== "string" || detail.length > 100))
+  ) {
+    return NextResponse.json({ error: "Unknown audit event" }, { status: 400 });
+  }
+
+  await recordAudit(request, {
+    actor: auth.user,
+    action: action as ClientAuditAction,
+    outcome: "success",
+    resource,
+    detail,
+  });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  createSessionToken,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/lib/auth/session";
+import type { SessionUser } from "@/lib/auth/types";
+import { verifyCredentials } from "@/lib/auth/users";
+import { logError } from "@/lib/logging";
+
+// scrypt runs in Node.js
+export const runtime = "nodejs";
+
+// Sign in with a username and password from the local credential store
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null);
+    const { username, password } = (body ?? {}) as Record<string, unknown>;
+
+    if (typeof username !== "string" || typeof password !== "string") {
+      return NextResponse.json(
+        { error: "Enter a username and password" },
+        { status: 400 }
+      );
+    }
+
+    const account = await verifyCredentials(username, password);
+    if (!account) {
+      await recordAudit(request, {
+        actor: null,
+        action: "auth.login",
+        outcome: "failure",
+        detail: username.trim().toLowerCase(),
+      });
+      return NextResponse.json(
+        { error: "The username or password is wrong" },
+        { status: 401 }
+      );
+    }
+
+    const user: SessionUser = {
+      id: account.id,
+      name: account.name,
+      role: account.role,
+    };
+    await recordAudit(request, {
+      actor: user,
+      action: "auth.login",
+      outcome: "success",
+      detail: "password",
+    });
+    const response = NextResponse.json<SessionUser>(user);
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(user),
+      sessionCookieOptions()
+    );
+    return response;
+  } catch (error) {
+    logError("Sign-in error", error);
+    return NextResponse.json(
+      { error: "Signing in failed. Please try again." },
+      { status: 500 }
+    );
+  }
+}
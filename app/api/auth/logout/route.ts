@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  readSessionToken,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/lib/auth/session";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  const session = await readSessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  if (session) {
+    const { id, name, role } = session;
+    await recordAudit(request, {
+      actor: { id, name, role },
+      action: "auth.logout",
+      outcome: "success",
+    });
+  }
+
+  const response = new NextResponse(null, { status: 204 });
+  response.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
+  return response;
+}
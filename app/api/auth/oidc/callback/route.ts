@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  finishLogin,
+  getOidcConfig,
+  OIDC_COOKIE,
+  OidcError,
+  roleFromClaims,
+  type OidcLoginState,
+} from "@/lib/auth/oidc";
+import {
+  createSessionToken,
+  getAuthSecret,
+  SESSION_COOKIE,
+  sessionCookieOptions,
+} from "@/lib/auth/session";
+import { verifyToken } from "@/lib/auth/token";
+import type { SessionUser } from "@/lib/auth/types";
+import { findOrCreateOidcUser } from "@/lib/auth/users";
+import { logError } from "@/lib/logging";
+
+export const runtime = "nodejs";
+
+// The identity provider sends the browser back here with a code
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const config = getOidcConfig();
+
+  const fail = async (message: string) => {
+    await recordAudit(request, {
+      actor: null,
+      action: "auth.login",
+      outcome: "failure",
+      detail: `oidc: ${message}`,
+    });
+    const login = new URL("/login", origin);
+    login.searchParams.set("error", message);
+    const response = NextResponse.redirect(login);
+    response.cookies.delete({ name: OIDC_COOKIE, path: "/api/auth/oidc" });
+    return response;
+  };
+
+  if (!config) return fail("Single sign-on is not configured");
+  if (searchParams.get("error")) {
+    return fail(
+      searchParams.get("error_description") ?? "Single sign-on was cancelled"
+    );
+  }
+
+  const login = await verifyToken<OidcLoginState>(
+    request.cookies.get(OIDC_COOKIE)?.value ?? "",
+    getAuthSecret(),
+    "oidc-state"
+  );
+  const code = searchParams.get("code");
+  if (
+    !login ||
+    !(login.expiresAt > Date.now()) ||
+    login.state !== searchParams.get("state") ||
+    !code
+  ) {
+    return fail("The sign-in took too long or was started elsewhere");
+  }
+
+  try {
+    const claims = await finishLogin(
+      config,
+      config.redirectUri ?? `${origin}/api/auth/oidc/callback`,
+      code,
+      login
+    );
+    const account = await findOrCreateOidcUser(`${claims.iss} ${claims.sub}`, {
+      username: claims.preferred_username ?? claims.email ?? claims.sub,
+      name: claims.name ?? claims.email ?? claims.sub,
+      role: roleFromClaims(claims, config),
+    });
+    if (account.disabled) return fail("This account has been disabled");
+
+    const user: SessionUser = {
+      id: account.id,
+      name: account.name,
+      role: account.role,
+    };
+    await recordAudit(request, {
+      actor: user,
+      action: "auth.login",
+      outcome: "success",
+      detail: "oidc",
+    });
+    const response = NextResponse.redirect(new URL(login.next, origin));
+    response.cookies.delete({ name: OIDC_COOKIE, path: "/api/auth/oidc" });
+    response.cookies.set(
+      SESSION_COOKIE,
+      await createSessionToken(user),
+      sessionCookieOptions()
+    );
+    return response;
+  } catch (error) {
+    logError("Single sign-on error", error);
+    return fail(
+      error instanceof OidcError ? error.message : "Single sign-on failed"
+    );
+  }
+}
@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  getOidcConfig,
+  OIDC_COOKIE,
+  OidcError,
+  startLogin,
+} from "@/lib/auth/oidc";
+import { getAuthSecret, safeNextPath } from "@/lib/auth/session";
+import { signToken } from "@/lib/auth/token";
+import { logError } from "@/lib/logging";
+
+export const runtime = "nodejs";
+
+// Send the browser to the identity provider to sign in
+export async function GET(request: NextRequest) {
+  const config = getOidcConfig();
+  if (!config) {
+    return NextResponse.json(
+      { error: "Single sign-on is not configured" },
+      { status: 404 }
+    );
+  }
+
+  try {
+    const { url, login } = await startLogin(
+      config,
+      config.redirectUri ?? `${request.nextUrl.origin}/api/auth/oidc/callback`,
+      safeNextPath(request.nextUrl.searchParams.get("next"))
+    );
+
+    const response = NextResponse.redirect(url);
+    response.cookies.set(
+      OIDC_COOKIE,
+      await signToken(login, getAuthSecret(), "oidc-state"),
+      {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        path: "/api/auth/oidc",
+        maxAge: 10 * 60,
+      }
+    );
+    return response;
+  } catch (error) {
+    logError("Single sign-on error", error);
+
+    const login = new URL("/login", request.nextUrl.origin);
+    login.searchParams.set(
+      "error",
+      error instanceof OidcError ? error.message : "Single sign-on failed"
+    );
+    return NextResponse.redirect(login);
+  }
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import type { SessionUser } from "@/lib/auth/types";
+
+export const runtime = "nodejs";
+
+// The signed-in user, with their current name and role
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  return NextResponse.json<SessionUser>(auth.user);
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { isStandInEnabled, readResource } from "@/lib/fhir/standin";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ type: string; id: string }>;
+}
+
+// Read back a resource stored by the development FHIR server. Unlike
+// the bundles this server posts, reads come from people and hold patient
+// documents, so they need a session.
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { type, id } = await params;
+  const resource = isStandInEnabled()
+    ? await readResource(type, id)
+    : undefined;
+
+  if (!resource) {
+    return NextResponse.json(
+      {
+        resourceType: "OperationOutcome",
+        issue: [
+          {
+            severity: "error",
+            code: "not-found",
+            diagnostics: `${type}/${id} not found`,
+          },
+        ],
+      },
+      { status: 404, headers: { "Content-Type": "application/fhir+json" } }
+    );
+  }
+
+  return NextResponse.json(resource, {
+    headers: { "Content-Type": "application/fhir+json" },
+  });
+}
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isStandInEnabled, processTransaction } from "@/lib/fhir/standin";
+
+export const runtime = "nodejs";
+
+const FHIR_JSON = { "Content-Type": "application/fhir+json" };
+
+// Development FHIR server: POST a transaction bundle to the base URL
+export async function POST(request: NextRequest) {
+  if (!isStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const result = await processTransaction(body);
+
+  return result.ok
+    ? NextResponse.json(result.response, { headers: FHIR_JSON })
+    : NextResponse.json(result.outcome, { status: 400, headers: FHIR_JSON });
+}
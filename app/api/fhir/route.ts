@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import type { AuditEntry } from "@/lib/audit/types";
+import { authorize } from "@/lib/auth/guard";
+import { can } from "@/lib/auth/roles";
+import { getUser } from "@/lib/auth/users";
+import { buildDocumentBundle } from "@/lib/fhir/bundle";
+import { FhirRequestError, parseFhirExportRequest } from "@/lib/fhir/request";
+import {
+  FhirConfigurationError,
+  FhirServerError,
+  getFhirServerConfig,
+  sendBundle,
+} from "@/lib/fhir/server";
+import type { FhirExportResponse } from "@/lib/fhir/types";
+import { FhirValidationError, validateBundle } from "@/lib/fhir/validate";
+import { logError } from "@/lib/logging";
+import { SchemaError } from "@/lib/transcription/schema";
+
+export const runtime = "nodejs";
+
+// Package a transcript (and note) as a FHIR transaction bundle, and send it
+// to FHIR_BASE_URL when `send` is set
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const audit: Omit<AuditEntry, "outcome" | "ip"> = {
+    actor: auth.user,
+    action: "export.fhir",
+  };
+
+  try {
+    const { result, note, context, send } = parseFhirExportRequest(
+      await request.json()
+    );
+    audit.resource = `Patient/${context.patientId}`;
+    audit.detail = send ? "send" : "download";
+    audit.duration = result.duration;
+
+    // Filing a document signs it off; transcriptionists can only download
+    if (send && !can(auth.user.role, "ehr:send")) {
+      await recordAudit(request, { ...audit, outcome: "denied" });
+      return NextResponse.json(
+        { error: "Only clinicians can send documents to the EHR" },
+        { status: 403 }
+      );
+    }
+
+    // The author is whoever is signed in, never what the request says
+    const practitionerId = (await getUser(auth.user.id))?.practitionerId;
+    if (!practitionerId) {
+      await recordAudit(request, { ...audit, outcome: "denied" });
+      return NextResponse.json(
+        {
+          error:
+            "Your account has no Practitioner ID to sign documents with. Ask an administrator to set one.",
+        },
+        { status: 403 }
+      );
+    }
+
+    const bundle = buildDocumentBundle(
+      result,
+      { ...context, practitionerId },
+      note
+    );
+    validateBundle(bundle);
+
+    if (!send) {
+      await recordAudit(request, { ...audit, outcome: "success" });
+      return NextResponse.json<FhirExportResponse>({ bundle, sent: false });
+    }
+
+    const response = await sendBundle(bundle, getFhirServerConfig());
+    await recordAudit(request, { ...audit, outcome: "success" });
+    return NextResponse.json<FhirExportResponse>({
+      bundle,
+      sent: true,
+      locations: response.entry
+        .map((entry) => entry.response.location)
+        .filter((location): location is string => !!location),
+    });
+  } catch (error) {
+    logError("FHIR export error", error);
+    await recordAudit(request, {
+      ...audit,
+      outcome: "failure",
+      detail: [audit.detail, error instanceof Error ? error.name : undefined]
+        .filter(Boolean)
+        .join(": "),
+    });
+
+    if (error instanceof SchemaError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "result must be a transcription result" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof FhirRequestError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+
+    if (error instanceof FhirValidationError) {
+      return NextResponse.json(
+        { error: "The FHIR bundle failed validation", issues: error.issues },
+        { status: 422 }
+      );
+    }
+
+    if (error instanceof FhirConfigurationError) {
+      return NextResponse.json(
+        { error: "EHR export is not configured on the server" },
+        { status: 500 }
+      );
+    }
+
+    if (error instanceof FhirServerError) {
+      return NextResponse.json(
+        { error: `The EHR rejected the document: ${error.message}` },
+        { status: 502 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to export the document. Please try again." },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,15 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isIdpStandInEnabled, providerMetadata } from "@/lib/auth/idp-standin";
+
+export const runtime = "nodejs";
+
+// Discovery document of the development identity provider
+export async function GET(request: NextRequest) {
+  if (!isIdpStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(
+    providerMetadata(`${request.nextUrl.origin}/api/idp-standin`)
+  );
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  isIdpStandInEnabled,
+  issueCode,
+  parseAuthorizationRequest,
+  renderSignInPage,
+} from "@/lib/auth/idp-standin";
+import { isRole } from "@/lib/auth/roles";
+
+export const runtime = "nodejs";
+
+// Show the sign-in page for an authorization request
+export async function GET(request: NextRequest) {
+  if (!isIdpStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const authorization = parseAuthorizationRequest(
+    request.nextUrl.searchParams,
+    `${request.nextUrl.origin}/api/idp-standin`
+  );
+  if (typeof authorization === "string") {
+    return NextResponse.json({ error: authorization }, { status: 400 });
+  }
+
+  return new NextResponse(
+    renderSignInPage(authorization, request.nextUrl.pathname),
+    { headers: { "Content-Type": "text/html; charset=utf-8" } }
+  );
+}
+
+// The sign-in form was submitted: send the browser back with a code
+export async function POST(request: NextRequest) {
+  if (!isIdpStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const form = await request.formData();
+  const params = new URLSearchParams({ response_type: "code" });
+  for (const [name, value] of form) {
+    if (typeof value === "string") params.set(name, value);
+  }
+
+  const authorization = parseAuthorizationRequest(
+    params,
+    `${request.nextUrl.origin}/api/idp-standin`
+  );
+  const name = params.get("name")?.trim();
+  const email = params.get("email")?.trim();
+  const role = params.get("role");
+  if (typeof authorization === "string" || !name || !email || !isRole(role)) {
+    return NextResponse.json(
+      {
+        error:
+          typeof authorization === "string"
+            ? authorization
+            : "Name, email and role are required",
+      },
+      { status: 400 }
+    );
+  }
+
+  const redirect = new URL(authorization.redirectUri);
+  redirect.searchParams.set(
+    "code",
+    issueCode(authorization, { name, email, role })
+  );
+  if (authorization.state) {
+    redirect.searchParams.set("state", authorization.state);
+  }
+  return NextResponse.redirect(redirect, 303);
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { isIdpStandInEnabled, publicKeys } from "@/lib/auth/idp-standin";
+
+export const runtime = "nodejs";
+
+export async function GET() {
+  if (!isIdpStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  return NextResponse.json(await publicKeys());
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isIdpStandInEnabled, redeemCode } from "@/lib/auth/idp-standin";
+
+export const runtime = "nodejs";
+
+// Token endpoint: exchange an authorization code for an ID token
+export async function POST(request: NextRequest) {
+  if (!isIdpStandInEnabled()) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
+
+  const form = new URLSearchParams(await request.text());
+  const result = await redeemCode(
+    form,
+    `${request.nextUrl.origin}/api/idp-standin`
+  );
+
+  return result.ok
+    ? NextResponse.json(result.tokens, {
+        headers: { "Cache-Control": "no-store" },
+      })
+    : NextResponse.json(
+        { error: result.error, error_description: result.description },
+        { status: 400 }
+      );
+}
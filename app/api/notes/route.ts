@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+import { logError } from "@/lib/logging";
+import {
+  getNoteGenerator,
+  NoteConfigurationError,
+} from "@/lib/notes/generator";
+import { sourceSegments } from "@/lib/notes/segments";
+import type { SoapNote } from "@/lib/notes/types";
+import {
+  parseTranscriptionResult,
+  SchemaError,
+} from "@/lib/transcription/schema";
+
+export const runtime = "nodejs";
+
+// Turn a finished transcript into a SOAP note linked to its segments
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  try {
+    const transcript = parseTranscriptionResult(await request.json());
+    const segments = sourceSegments(transcript);
+
+    if (segments.length === 0) {
+      return NextResponse.json(
+        { error: "The transcript has no timed segments to summarize" },
+        { status: 400 }
+      );
+    }
+
+    const note = await getNoteGenerator().generate(segments);
+    await recordAudit(request, {
+      actor: auth.user,
+      action: "notes.generate",
+      outcome: "success",
+      duration: transcript.duration,
+    });
+    return NextResponse.json<SoapNote>(note);
+  } catch (error) {
+    logError("Note generation error", error);
+    await recordAudit(request, {
+      actor: auth.user,
+      action: "notes.generate",
+      outcome: "failure",
+      detail: error instanceof Error ? error.name : undefined,
+    });
+
+    if (error instanceof SchemaError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { error: "Request body must be a transcription result" },
+        { status: 400 }
+      );
+    }
+
+    if (error instanceof NoteConfigurationError) {
+      return NextResponse.json(
+        { error: "Note generation is not configured on the server" },
+        { status: 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: "Failed to generate the note. Please try again." },
+      { status: 502 }
+    );
+  }
+}
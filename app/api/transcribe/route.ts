@@ -1,94 +1,157 @@
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { recordAudit, sha256Hex } from "@/lib/audit/log";
+import type { AuditEntry } from "@/lib/audit/types";
+import { authorize } from "@/lib/auth/guard";
+import { diarize } from "@/lib/diarization/provider";
+import { logError } from "@/lib/logging";
+import {
+  MAX_PROVIDER_FILE_SIZE,
+  transcribeInChunks,
+} from "@/lib/transcription/chunking";
+import { mapTranscriptionError } from "@/lib/transcription/error-mapping";
+import type { TranscriptionErrorResponse } from "@/lib/transcription/errors";
+import { MAX_UPLOAD_SIZE } from "@/lib/transcription/limits";
+import { resolvePipelineContext } from "@/lib/transcription/options";
+import { buildTranscriptionResult } from "@/lib/transcription/pipeline";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+import { chargeUsage, checkBudget } from "@/lib/usage/budget";
+import { releaseUsage } from "@/lib/usage/store";
 
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Chunking shells out to ffmpeg, which needs the Node.js runtime
+export const runtime = "nodejs";
 
 export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  // Filled in as the request is understood
+  const audit: Omit<AuditEntry, "outcome" | "ip"> = {
+    actor: auth.user,
+    action: "transcribe",
+  };
+
+  // Rate limit and monthly quota, per user or API key
+  const budget = await checkBudget(auth.user, {
+    uploadBytes: Number(request.headers.get("content-length")) || 0,
+  });
+  if (!budget.ok) {
+    await recordAudit(request, {
+      ...audit,
+      outcome: "failure",
+      detail: budget.code,
+    });
+    return budget.response;
+  }
+  const { headers, reservationId } = budget;
+
   try {
     const formData = await request.formData();
     const file = formData.get("audio") as File;
 
     if (!file) {
-      return NextResponse.json(
-        { error: "No audio file provided" },
-        { status: 400 }
+      await recordAudit(request, {
+        ...audit,
+        outcome: "failure",
+        detail: "no_file",
+      });
+      return NextResponse.json<TranscriptionErrorResponse>(
+        { error: "No audio file provided", code: "no_file", retryable: false },
+        { status: 400, headers }
       );
     }
 
+    audit.fileSize = file.size;
+
     // Validate file type
     if (!file.type.startsWith("audio/")) {
-      return NextResponse.json(
-        { error: "Invalid file type. Please upload an audio file." },
-        { status: 400 }
+      await recordAudit(request, {
+        ...audit,
+        outcome: "failure",
+        detail: "invalid_type",
+      });
+      return NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "Invalid file type. Please upload an audio file.",
+          code: "invalid_type",
+          retryable: false,
+        },
+        { status: 415, headers }
       );
     }
 
-    // Validate file size (25MB limit for Whisper API)
-    const maxSize = 25 * 1024 * 1024; // 25MB
-    if (file.size > maxSize) {
-      return NextResponse.json(
-        { error: "File too large. Maximum size is 25MB." },
-        { status: 400 }
+    // Validate file size
+    if (file.size > MAX_UPLOAD_SIZE) {
+      await recordAudit(request, {
+        ...audit,
+        outcome: "failure",
+        detail: "file_too_large",
+      });
+      return NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "File too large. Maximum size is 200MB.",
+          code: "file_too_large",
+          retryable: false,
+        },
+        { status: 413, headers }
       );
     }
 
-    // Convert File to format expected by OpenAI
+    const context = await resolvePipelineContext(formData, auth.user);
+
+    // Convert File to format expected by the provider SDKs
     const buffer = await file.arrayBuffer();
+    audit.fileHash = sha256Hex(buffer);
     const audioFile = new File([buffer], file.name, { type: file.type });
 
-    // Transcribe using Whisper API
-    const transcription = await openai.audio.transcriptions.create({
-      file: audioFile,
-      model: "whisper-1",
-      response_format: "verbose_json",
+    // Transcribe using the configured provider (OpenAI Whisper by default)
+    const provider = getTranscriptionProvider();
+    const options = {
       temperature: 0.2, // Lower temperature for more consistent medical transcription
-      timestamp_granularities: ["word"],
-    });
-
-    // Enhanced response with medical context
-    const response = {
-      text: transcription.text,
-      duration: transcription.duration,
-      language: transcription.language,
-      segments: transcription.segments,
-      // Add medical-specific processing hints
-      metadata: {
-        processedAt: new Date().toISOString(),
-        model: "whisper-1",
-        medicalContext: true,
-        confidence: "high", // Could be calculated from segments
-        hasWordTimestamps:
-          transcription.words && transcription.words.length > 0 ? true : false, // Check if word timestamps are available
-      },
-      words: transcription.words,
+      prompt: context.vocabulary.prompt,
     };
+    const transcription =
+      audioFile.size > MAX_PROVIDER_FILE_SIZE
+        ? await transcribeInChunks(provider, audioFile, options)
+        : await provider.transcribe(audioFile, options);
 
-    return NextResponse.json(response);
+    const diarization = context.diarize
+      ? await diarize(audioFile, transcription)
+      : undefined;
+
+    const response = buildTranscriptionResult(
+      transcription,
+      context,
+      diarization
+    );
+
+    // Billed by the audio length Whisper reports, not the upload size
+    await chargeUsage(auth.user, response.duration, headers, {
+      reservationId,
+    });
+    await recordAudit(request, {
+      ...audit,
+      outcome: "success",
+      duration: response.duration,
+    });
+    return NextResponse.json(response, { headers });
   } catch (error) {
-    console.error("Transcription error:", error);
-
-    // Handle specific OpenAI errors
-    if (error instanceof Error) {
-      if (error.message.includes("API key")) {
-        return NextResponse.json(
-          { error: "OpenAI API key not configured" },
-          { status: 500 }
-        );
-      }
-
-      if (error.message.includes("quota")) {
-        return NextResponse.json(
-          { error: "API quota exceeded. Please try again later." },
-          { status: 429 }
-        );
-      }
+    logError("Transcription error", error);
+
+    const { status, body } = mapTranscriptionError(error);
+    await recordAudit(request, {
+      ...audit,
+      outcome: "failure",
+      detail: body.code,
+    });
+    if (body.retryAfter !== undefined) {
+      headers.set("Retry-After", body.retryAfter.toString());
     }
 
-    return NextResponse.json(
-      { error: "Failed to transcribe audio. Please try again." },
-      { status: 500 }
-    );
+    return NextResponse.json<TranscriptionErrorResponse>(body, {
+      status,
+      headers,
+    });
+  } finally {
+    releaseUsage(reservationId);
   }
 }
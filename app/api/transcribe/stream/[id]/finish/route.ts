@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit, sha256Hex } from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+import { logError } from "@/lib/logging";
+import {
+  finishStreamSession,
+  getStreamSession,
+  untranscribedBytes,
+} from "@/lib/streaming/sessions";
+import { mapTranscriptionError } from "@/lib/transcription/error-mapping";
+import type { TranscriptionErrorResponse } from "@/lib/transcription/errors";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+import { chargeUsage, checkBudget } from "@/lib/usage/budget";
+import { releaseUsage } from "@/lib/usage/store";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Close a session once recording stopped and return the complete result,
+// the same body POST /api/transcribe returns for the whole recording.
+// Diarized sessions send the full recording as "audio".
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const session = getStreamSession(id, auth.user.id);
+
+  if (!session) {
+    return NextResponse.json<TranscriptionErrorResponse>(
+      {
+        error: "This live transcription has ended or expired.",
+        code: "stream_not_found",
+        retryable: false,
+      },
+      { status: 404 }
+    );
+  }
+
+  if (session.windows.size === 0) {
+    return NextResponse.json<TranscriptionErrorResponse>(
+      { error: "No audio was received", code: "no_file", retryable: false },
+      { status: 400 }
+    );
+  }
+
+  // Only diarized sessions send the whole recording to hash
+  const audit = {
+    actor: auth.user,
+    action: "transcribe.live" as const,
+    resource: `stream/${id}`,
+  };
+
+  // Windows that failed are retried, which costs provider time like any
+  // other window
+  const retryBytes = untranscribedBytes(session);
+  const budget = retryBytes
+    ? await checkBudget(auth.user, {
+        uploadBytes: retryBytes,
+        rateLimit: false,
+      })
+    : { ok: true as const, headers: new Headers(), reservationId: undefined };
+  if (!budget.ok) {
+    await recordAudit(request, {
+      ...audit,
+      outcome: "failure",
+      detail: budget.code,
+    });
+    return budget.response;
+  }
+  const { headers, reservationId } = budget;
+
+  try {
+    const formData = await request.formData().catch(() => null);
+    const recording = formData?.get("audio");
+    const file = recording instanceof File ? recording : undefined;
+
+    const { result, retriedSeconds } = await finishStreamSession(
+      session,
+      getTranscriptionProvider(),
+      file
+    );
+    // Windows were charged as they were transcribed; only the ones
+    // retried here are left
+    await chargeUsage(auth.user, retriedSeconds, headers, {
+      reservationId,
+      requests: 0,
+    });
+    await recordAudit(request, {
+      ...audit,
+      outcome: "success",
+      fileHash: file && sha256Hex(await file.arrayBuffer()),
+      fileSize: file?.size,
+      duration: result.duration,
+    });
+    return NextResponse.json(result, { headers });
+  } catch (error) {
+    logError("Streaming transcription error", error);
+
+    const { status, body } = mapTranscriptionError(error);
+    await recordAudit(request, {
+      ...audit,
+      outcome: "failure",
+      detail: body.code,
+    });
+    return NextResponse.json<TranscriptionErrorResponse>(body, { status });
+  } finally {
+    releaseUsage(reservationId);
+  }
+}
@@ -0,0 +1,180 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { logError } from "@/lib/logging";
+import {
+  addWindow,
+  deleteStreamSession,
+  getStreamSession,
+  isStreamSessionOpen,
+  subscribe,
+} from "@/lib/streaming/sessions";
+import type { StreamEvent } from "@/lib/streaming/types";
+import { MAX_PROVIDER_FILE_SIZE } from "@/lib/transcription/chunking";
+import { mapTranscriptionError } from "@/lib/transcription/error-mapping";
+import type { TranscriptionErrorResponse } from "@/lib/transcription/errors";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+import { chargeUsage, checkBudget } from "@/lib/usage/budget";
+import { releaseUsage } from "@/lib/usage/store";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Comments sent on an idle stream so proxies keep the connection open
+const HEARTBEAT_MS = 15000;
+
+const NOT_FOUND: TranscriptionErrorResponse = {
+  error: "This live transcription has ended or expired.",
+  code: "stream_not_found",
+  retryable: false,
+};
+
+// Server-sent events with the live transcript of a session
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const session = getStreamSession(id, auth.user.id);
+  if (!session) {
+    return NextResponse.json<TranscriptionErrorResponse>(NOT_FOUND, {
+      status: 404,
+    });
+  }
+
+  const encoder = new TextEncoder();
+  let stop = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (event: StreamEvent) =>
+        controller.enqueue(
+          encoder.encode(`data: ${JSON.stringify(event)}\n\n`)
+        );
+      const unsubscribe = subscribe(session, send);
+
+      // The heartbeat also notices when the session finished or expired
+      const heartbeat = setInterval(() => {
+        if (isStreamSessionOpen(session)) {
+          controller.enqueue(encoder.encode(": heartbeat\n\n"));
+        } else {
+          stop();
+          controller.close();
+        }
+      }, HEARTBEAT_MS);
+
+      stop = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+      };
+      request.signal.addEventListener("abort", () => stop());
+    },
+    cancel() {
+      stop();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+// Receive the latest audio of a window and transcribe it. Every version of
+// a window costs provider time, so each is checked against the quota and
+// charged on its own; the session was rate limited when it started.
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  const session = getStreamSession(id, auth.user.id);
+  if (!session) {
+    return NextResponse.json<TranscriptionErrorResponse>(NOT_FOUND, {
+      status: 404,
+    });
+  }
+
+  let reservationId: string | undefined;
+  try {
+    const formData = await request.formData();
+    const audio = formData.get("audio") as File | null;
+    const index = Number(formData.get("index"));
+    const offset = Number(formData.get("offset"));
+
+    if (!audio || !audio.type.startsWith("audio/")) {
+      return NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "Invalid file type. Please send audio.",
+          code: "invalid_type",
+          retryable: false,
+        },
+        { status: 415 }
+      );
+    }
+
+    // Windows are cut after a few seconds, so this only catches misuse
+    if (audio.size > MAX_PROVIDER_FILE_SIZE) {
+      return NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "Audio window too large.",
+          code: "file_too_large",
+          retryable: false,
+        },
+        { status: 413 }
+      );
+    }
+
+    if (!Number.isInteger(index) || index < 0 || !(offset >= 0)) {
+      return NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "Invalid window index or offset.",
+          code: "invalid_options",
+          retryable: false,
+        },
+        { status: 400 }
+      );
+    }
+
+    const budget = await checkBudget(auth.user, {
+      uploadBytes: audio.size,
+      rateLimit: false,
+    });
+    if (!budget.ok) return budget.response;
+    reservationId = budget.reservationId;
+
+    const transcription = await addWindow(
+      session,
+      getTranscriptionProvider(),
+      index,
+      { offset, audio, final: formData.get("final") === "true" }
+    );
+    await chargeUsage(auth.user, transcription?.duration, budget.headers, {
+      reservationId,
+      requests: 0,
+    });
+    return new Response(null, { status: 204, headers: budget.headers });
+  } catch (error) {
+    logError("Streaming transcription error", error);
+
+    const { status, body } = mapTranscriptionError(error);
+    return NextResponse.json<TranscriptionErrorResponse>(body, { status });
+  } finally {
+    releaseUsage(reservationId);
+  }
+}
+
+// Abandon a session, e.g. when the recording is discarded
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const { id } = await params;
+  deleteStreamSession(id, auth.user.id);
+  return new Response(null, { status: 204 });
+}
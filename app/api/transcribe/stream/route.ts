@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { logError } from "@/lib/logging";
+import { createStreamSession } from "@/lib/streaming/sessions";
+import type { StreamSessionResponse } from "@/lib/streaming/types";
+import { mapTranscriptionError } from "@/lib/transcription/error-mapping";
+import type { TranscriptionErrorResponse } from "@/lib/transcription/errors";
+import { resolvePipelineContext } from "@/lib/transcription/options";
+import { getTranscriptionProvider } from "@/lib/transcription/provider";
+import { chargeUsage, checkBudget } from "@/lib/usage/budget";
+import { releaseUsage } from "@/lib/usage/store";
+
+// Sessions are kept in memory by the Node.js server process
+export const runtime = "nodejs";
+
+// Start a streaming transcription. Takes the same options as
+// POST /api/transcribe, minus the audio, which is sent in windows.
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  // A live dictation counts as one request here; its windows are not rate
+  // limited on their own, but each is checked against the quota and
+  // charged as it is transcribed
+  const budget = await checkBudget(auth.user);
+  if (!budget.ok) return budget.response;
+
+  try {
+    const context = await resolvePipelineContext(
+      await request.formData(),
+      auth.user
+    );
+    // Fail now rather than on the first window if nothing is configured
+    getTranscriptionProvider();
+
+    const session = createStreamSession(context, auth.user.id);
+    await chargeUsage(auth.user, 0, budget.headers, {
+      reservationId: budget.reservationId,
+    });
+    return NextResponse.json<StreamSessionResponse>(
+      { id: session.id },
+      { status: 201, headers: budget.headers }
+    );
+  } catch (error) {
+    logError("Streaming session error", error);
+
+    const { status, body } = mapTranscriptionError(error);
+    return NextResponse.json<TranscriptionErrorResponse>(body, { status });
+  } finally {
+    releaseUsage(budget.reservationId);
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { getUsageConfig } from "@/lib/usage/config";
+import { currentMonth, listUsage } from "@/lib/usage/store";
+import type { UsageReport } from "@/lib/usage/types";
+
+export const runtime = "nodejs";
+
+// Transcription minutes per user and API key for one month, the current
+// one unless ?month=YYYY-MM is given
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "usage:read");
+  if (!auth.ok) return auth.response;
+
+  const requested = request.nextUrl.searchParams.get("month") ?? "";
+  const month = /^\d{4}-(0[1-9]|1[0-2])$/.test(requested)
+    ? requested
+    : currentMonth();
+  const { entries, months } = await listUsage(month);
+  const { quotaMinutes, costPerMinute } = getUsageConfig();
+
+  return NextResponse.json<UsageReport>({
+    month,
+    months: [...new Set([currentMonth(), month, ...months])].sort().reverse(),
+    quotaMinutes,
+    costPerMinute,
+    entries,
+  });
+}
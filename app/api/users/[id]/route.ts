@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+import type { PublicUser } from "@/lib/auth/types";
+import {
+  deleteUser,
+  parseUserUpdate,
+  toPublicUser,
+  updateUser,
+  UserInputError,
+} from "@/lib/auth/users";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+// Administrators cannot lock themselves out
+const SELF_ERROR = "You cannot disable, demote or delete your own account";
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) return auth.response;
+  const { id } = await params;
+
+  try {
+    const update = parseUserUpdate(await request.json().catch(() => null));
+    if (
+      id === auth.user.id &&
+      (update.disabled || (update.role && update.role !== "admin"))
+    ) {
+      return NextResponse.json({ error: SELF_ERROR }, { status: 400 });
+    }
+
+    const user = await updateUser(id, update);
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+    // Which fields changed, never the password itself
+    await recordAudit(request, {
+      actor: auth.user,
+      action: "user.update",
+      outcome: "success",
+      resource: `User/${id}`,
+      detail: Object.entries(update)
+        .filter(([, value]) => value !== undefined)
+        .map(([key, value]) => (key === "password" ? key : `${key}=${value}`))
+        .join(", "),
+    });
+    return NextResponse.json<PublicUser>(toPublicUser(user));
+  } catch (error) {
+    if (!(error instanceof UserInputError)) throw error;
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) return auth.response;
+  const { id } = await params;
+
+  if (id === auth.user.id) {
+    return NextResponse.json({ error: SELF_ERROR }, { status: 400 });
+  }
+  if (!(await deleteUser(id))) {
+    return NextResponse.json({ error: "User not found" }, { status: 404 });
+  }
+  await recordAudit(request, {
+    actor: auth.user,
+    action: "user.delete",
+    outcome: "success",
+    resource: `User/${id}`,
+  });
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+import type { PublicUser } from "@/lib/auth/types";
+import {
+  createUser,
+  listUsers,
+  parseUserInput,
+  toPublicUser,
+  UserInputError,
+} from "@/lib/auth/users";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) return auth.response;
+
+  const users = await listUsers();
+  return NextResponse.json<PublicUser[]>(users.map(toPublicUser));
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request, "users:manage");
+  if (!auth.ok) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+    const user = await createUser(parseUserInput(body));
+    await recordAudit(request, {
+      actor: auth.user,
+      action: "user.create",
+      outcome: "success",
+      resource: `User/${user.id}`,
+      detail: user.role,
+    });
+    return NextResponse.json<PublicUser>(toPublicUser(user), { status: 201 });
+  } catch (error) {
+    if (!(error instanceof UserInputError)) throw error;
+    return NextResponse.json({ error: error.message }, { status: 400 });
+  }
+}
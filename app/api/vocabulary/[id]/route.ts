@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import {
+  deleteTermList,
+  getTermList,
+  isTermListEditable,
+  isTermListVisible,
+  parseTermListInput,
+  saveTermList,
+  toTermListSummary,
+} from "@/lib/vocabulary/store";
+import type { TermListSummary } from "@/lib/vocabulary/types";
+
+export const runtime = "nodejs";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+const NOT_FOUND = { error: "Term list not found" };
+const FORBIDDEN = { error: "Only administrators can change clinic-wide lists" };
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { id } = await params;
+
+  const existing = await getTermList(id);
+  if (!existing || !isTermListVisible(existing, auth.user)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+  if (!isTermListEditable(existing, auth.user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 });
+  }
+
+  const body = await request.json().catch(() => null);
+  const input = parseTermListInput(body);
+
+  if (!input) {
+    return NextResponse.json(
+      { error: "A term list needs a name and an array of terms" },
+      { status: 400 }
+    );
+  }
+
+  // Sharing is decided when a list is created
+  const list = await saveTermList({
+    ...input,
+    id,
+    ownerId: existing.ownerId,
+  });
+  return NextResponse.json<TermListSummary>(toTermListSummary(list, auth.user));
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+  const { id } = await params;
+
+  const existing = await getTermList(id);
+  if (!existing || !isTermListVisible(existing, auth.user)) {
+    return NextResponse.json(NOT_FOUND, { status: 404 });
+  }
+  if (!isTermListEditable(existing, auth.user)) {
+    return NextResponse.json(FORBIDDEN, { status: 403 });
+  }
+
+  await deleteTermList(id);
+  return new NextResponse(null, { status: 204 });
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { can } from "@/lib/auth/roles";
+import { SPECIALTIES } from "@/lib/vocabulary/specialties";
+import {
+  isTermListVisible,
+  listTermLists,
+  parseTermListInput,
+  saveTermList,
+  toTermListSummary,
+} from "@/lib/vocabulary/store";
+import type {
+  TermListSummary,
+  VocabularyOptions,
+} from "@/lib/vocabulary/types";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const termLists = await listTermLists();
+
+  return NextResponse.json<VocabularyOptions>({
+    specialties: SPECIALTIES.map(({ id, label, terms }) => ({
+      id,
+      label,
+      termCount: terms.length,
+    })),
+    termLists: termLists
+      .filter((list) => isTermListVisible(list, auth.user))
+      .map((list) => toTermListSummary(list, auth.user)),
+    canShare: can(auth.user.role, "vocabulary:shared"),
+  });
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await authorize(request);
+  if (!auth.ok) return auth.response;
+
+  const body = await request.json().catch(() => null);
+  const input = parseTermListInput(body);
+
+  if (!input) {
+    return NextResponse.json(
+      { error: "A term list needs a name and an array of terms" },
+      { status: 400 }
+    );
+  }
+
+  if (input.shared && !can(auth.user.role, "vocabulary:shared")) {
+    return NextResponse.json(
+      { error: "Only administrators can create clinic-wide lists" },
+      { status: 403 }
+    );
+  }
+
+  const list = await saveTermList({
+    ...input,
+    ownerId: input.shared ? undefined : auth.user.id,
+  });
+  return NextResponse.json<TermListSummary>(
+    toTermListSummary(list, auth.user),
+    { status: 201 }
+  );
+}
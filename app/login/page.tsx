@@ -0,0 +1,24 @@
+import LoginForm from "@/components/login-form";
+import { getOidcConfig } from "@/lib/auth/oidc";
+import { safeNextPath } from "@/lib/auth/session";
+
+interface LoginPageProps {
+  searchParams: Promise<{ next?: string; error?: string }>;
+}
+
+export default async function LoginPage({ searchParams }: LoginPageProps) {
+  const { next, error } = await searchParams;
+
+  return (
+    <main className="flex min-h-screen items-center justify-center px-4">
+      <div className="w-full max-w-sm space-y-6 text-center">
+        <h1 className="text-3xl font-normal">Dictamed</h1>
+        <LoginForm
+          next={safeNextPath(next)}
+          error={error}
+          hasSingleSignOn={!!getOidcConfig()}
+        />
+      </div>
+    </main>
+  );
+}
@@ -1,14 +1,172 @@
 "use client";
 
 import AudioInput from "@/components/audio-input";
-import { useState } from "react";
+import HistorySidebar from "@/components/history-sidebar";
+import UserMenu from "@/components/user-menu";
+import { recordAuditEvent } from "@/lib/audit/client";
+import { fetchCurrentUser } from "@/lib/auth/client";
+import type { SessionUser } from "@/lib/auth/types";
+import {
+  claimDictations,
+  countUnownedDictations,
+  getDictationAudio,
+  listDictations,
+  saveDictation,
+  updateDictation,
+} from "@/lib/history/store";
+import type { DictationRecord } from "@/lib/history/types";
+import { useUploadQueue, type UploadItem } from "@/lib/hooks/use-upload-queue";
+import type {
+  TranscriptionResult,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+import { useEffect, useState } from "react";
+
+// What AudioInput is remounted with when a dictation is reopened
+interface OpenedDictation {
+  key: number;
+  result?: TranscriptionResult;
+  originalWords?: WordTimestamp[];
+}
+
+// Dictations saved before sign-in could be anyone's who used this
+// browser, so they are only added to a history the user confirms is theirs.
+// Declined ones stay hidden and are offered again at the next sign-in.
+async function offerUnownedDictations(ownerId: string) {
+  const count = await countUnownedDictations();
+  if (count === 0) return;
+
+  const saved = count === 1 ? "1 dictation was" : `${count} dictations were`;
+  if (
+    confirm(
+      `${saved} saved on this browser before sign-in was required. Add them to your history? Only do this if you made them.`
+    )
+  ) {
+    await claimDictations(ownerId);
+  }
+}
 
 export default function Home() {
   const [error, setError] = useState<string | null>(null);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [opened, setOpened] = useState<OpenedDictation>({ key: 0 });
+  const [historyVersion, setHistoryVersion] = useState(0);
+  const [user, setUser] = useState<SessionUser | null>(null);
+
+  // The middleware only lets signed-in users reach the page
+  useEffect(() => {
+    fetchCurrentUser()
+      .then(async (current) => {
+        await offerUnownedDictations(current.id).catch((error) =>
+          console.error("History claim error:", error)
+        );
+        setUser(current);
+      })
+      .catch((error) => console.error("Session error:", error));
+  }, []);
+
+  // Resolves to the saved record's id, or undefined if saving failed
+  const saveToHistory = async (result: TranscriptionResult, audio: Blob) => {
+    if (!user) return;
+
+    try {
+      const record = await saveDictation({ ownerId: user.id, result, audio });
+      setHistoryVersion((version) => version + 1);
+      return record.id;
+    } catch (error) {
+      console.error("History save error:", error);
+    }
+  };
+
+  // Uploads outlive AudioInput, which is remounted to open a dictation
+  const uploads = useUploadQueue(saveToHistory);
+
+  const handleTranscriptionComplete = async (
+    result: TranscriptionResult,
+    audio: Blob
+  ) => {
+    setError(null);
+
+    const id = await saveToHistory(result, audio);
+    if (id) setActiveId(id);
+  };
+
+  const handleTranscriptionChange = async (result: TranscriptionResult) => {
+    if (!activeId) return;
+
+    try {
+      await updateDictation(activeId, { result });
+      recordAuditEvent("dictation.edit", activeId);
+      setHistoryVersion((version) => version + 1);
+    } catch (error) {
+      console.error("History update error:", error);
+    }
+  };
+
+  const handleOpen = async (record: DictationRecord) => {
+    try {
+      const audio = record.hasAudio
+        ? await getDictationAudio(record.id)
+        : undefined;
+
+      setActiveId(record.id);
+      setError(null);
+      recordAuditEvent("dictation.view", record.id);
+      setOpened((previous) => ({
+        key: previous.key + 1,
+        result: {
+          ...record.result,
+          audioUrl: audio ? URL.createObjectURL(audio) : undefined,
+        },
+        originalWords: record.originalWords,
+      }));
+    } catch (error) {
+      console.error("History open error:", error);
+      setError("Could not open the saved dictation");
+    }
+  };
+
+  // Open the saved copy so edits made since are shown
+  const handleUploadOpen = async (item: UploadItem) => {
+    const { result, historyId } = item;
+    const records =
+      historyId && user ? await listDictations(user.id).catch(() => []) : [];
+    const record = records.find(({ id }) => id === historyId);
+    if (record) return handleOpen(record);
+    if (!result) return;
+
+    // Not saved to history: show the result as transcribed
+    setActiveId(null);
+    setError(null);
+    setOpened((previous) => ({
+      key: previous.key + 1,
+      result: {
+        ...result,
+        audioUrl: URL.createObjectURL(item.prepared?.blob ?? item.file),
+      },
+    }));
+  };
+
+  const handleDeleted = (id: string) => {
+    if (id !== activeId) return;
+    setActiveId(null);
+    setOpened((previous) => ({ key: previous.key + 1 }));
+  };
 
   return (
-    <>
-      <main className="flex min-h-screen flex-col justify-center py-8 sm:px-6 sm:py-12">
+    <div className="lg:flex">
+      <HistorySidebar
+        ownerId={user?.id}
+        activeId={activeId}
+        version={historyVersion}
+        onOpen={handleOpen}
+        onDeleted={handleDeleted}
+        className="border-b lg:sticky lg:top-0 lg:h-screen lg:w-72 lg:shrink-0 lg:border-b-0 lg:border-r"
+      />
+      <main className="flex min-h-screen flex-1 flex-col justify-center py-8 sm:px-6 sm:py-12">
+        {user && (
+          <UserMenu user={user} className="mb-6 self-end px-4 sm:px-0" />
+        )}
         <div className="mx-auto w-full space-y-6 text-center sm:max-w-2xl sm:space-y-8 lg:max-w-4xl xl:max-w-6xl">
           <h1 className="mb-3 text-3xl font-normal sm:mb-4 sm:text-4xl md:text-5xl lg:text-6xl">
             Dictamed
@@ -43,18 +201,34 @@ export default function Home() {
 
           <div className="mx-auto max-w-lg pt-4">
             <AudioInput
-              onTranscriptionComplete={(result) => {
-                console.log("Transcription completed:", result);
-                setError(null);
-              }}
-              onTranscriptionError={(errorMessage) => {
-                console.error("Transcription error:", errorMessage);
-                setError(errorMessage);
+              key={opened.key}
+              initialResult={opened.result}
+              initialOriginalWords={opened.originalWords}
+              onTranscriptionComplete={handleTranscriptionComplete}
+              onTranscriptionChange={handleTranscriptionChange}
+              onExport={(format) =>
+                recordAuditEvent(
+                  "dictation.export",
+                  activeId ?? undefined,
+                  format
+                )
+              }
+              ownerId={user?.id}
+              uploads={uploads}
+              onUploadOpen={handleUploadOpen}
+              onReset={() => setActiveId(null)}
+              onTranscriptionError={(errorMessage, details) => {
+                console.error("Transcription error:", errorMessage, details);
+                setError(
+                  details?.retryable && details.retryAfter
+                    ? `${errorMessage} You can try again in ${details.retryAfter}s.`
+                    : errorMessage
+                );
               }}
             />
           </div>
         </div>
       </main>
-    </>
+    </div>
   );
 }
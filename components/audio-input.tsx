@@ -1,115 +1,256 @@
 "use client";
 
+import {
+  preprocessAudio,
+  preprocessedFile,
+  type PreprocessedAudio,
+} from "@/lib/audio/preprocess";
+import { getPreprocessAudio, setPreprocessAudio } from "@/lib/audio/settings";
+import type { CommandGrammar } from "@/lib/commands/types";
+import type { UploadItem, UploadQueue } from "@/lib/hooks/use-upload-queue";
+import { revertCorrection } from "@/lib/medical/correction";
+import type { TermCorrection } from "@/lib/medical/types";
+import type { SoapNote } from "@/lib/notes/types";
+import type { DeidentifyMode } from "@/lib/phi/types";
+import type { MicrophoneSettings as Microphone } from "@/lib/recording/microphone";
+import { deleteRecordingSession, loadRecording } from "@/lib/recording/store";
+import type { RecordingSession } from "@/lib/recording/types";
+import type { VoiceActivitySettings as VoiceActivity } from "@/lib/recording/voice-activity";
+import {
+  openTranscriptionStream,
+  type TranscriptionStream,
+} from "@/lib/streaming/client";
+import type { AudioWindow, LiveSegment } from "@/lib/streaming/types";
+import { findTemplate } from "@/lib/templates/builtin";
+import { templateGrammar } from "@/lib/templates/fill";
+import { transcribe } from "@/lib/transcription/client";
+import {
+  TranscriptionError,
+  type TranscriptionErrorDetails,
+} from "@/lib/transcription/errors";
+import type {
+  TranscriptionResult,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+import type { SpecialtyId } from "@/lib/vocabulary/types";
 import { cn } from "@/lib/utils";
 import { useEffect, useRef, useState } from "react";
 import AudioRecorder from "./audio-recorder";
 import AudioUpload from "./audio-upload";
-
-interface WordTimestamp {
-  word: string;
-  start: number;
-  end: number;
-}
-
-interface TranscriptionSegment {
-  id: number;
-  seek: number;
-  start: number;
-  end: number;
-  text: string;
-  tokens: number[];
-  temperature: number;
-  avg_logprob: number;
-  compression_ratio: number;
-  no_speech_prob: number;
-}
-
-interface TranscriptionResult {
-  text: string;
-  duration?: number;
-  language?: string;
-  segments?: TranscriptionSegment[];
-  words?: WordTimestamp[]; // Word-level timestamps at top level
-  audioUrl?: string; // URL for audio playback
-  audioFileName?: string; // Original filename for display
-  metadata?: {
-    processedAt: string;
-    model: string;
-    medicalContext: boolean;
-    confidence: string;
-    hasWordTimestamps?: boolean;
-  };
-}
+import CorrectionList from "./correction-list";
+import ExportMenu from "./export-menu";
+import FhirExportPanel from "./fhir-export-panel";
+import MicrophoneSettings from "./microphone-settings";
+import PrivacySettings from "./privacy-settings";
+import RecordingRecovery from "./recording-recovery";
+import SoapNotePanel from "./soap-note-panel";
+import SpeakerRoles from "./speaker-roles";
+import TemplateDocument from "./template-document";
+import TemplatePicker from "./template-picker";
+import TranscriptEditor from "./transcript-editor";
+import TranscriptView from "./transcript-view";
+import VocabularySettings from "./vocabulary-settings";
+import VoiceActivitySettings from "./voice-activity-settings";
+import VoiceCommandSettings from "./voice-command-settings";
 
 interface AudioInputProps {
-  onTranscriptionComplete?: (result: TranscriptionResult) => void;
-  onTranscriptionError?: (error: string) => void;
+  initialResult?: TranscriptionResult; // Reopened dictation to show
+  initialOriginalWords?: WordTimestamp[];
+  onTranscriptionComplete?: (result: TranscriptionResult, audio: Blob) => void;
+  onTranscriptionChange?: (result: TranscriptionResult) => void; // Edits
+  onExport?: (format: string) => void;
+  ownerId?: string; // Signed-in user, whose recording backups are offered
+  uploads: UploadQueue; // Kept by the page so reopening keeps the queue
+  onUploadOpen?: (item: UploadItem) => void;
+  onReset?: () => void;
+  onTranscriptionError?: (
+    error: string,
+    details?: TranscriptionErrorDetails
+  ) => void;
   className?: string;
 }
 
 type InputMode = "upload" | "record";
 
+const formatMegabytes = (bytes: number) =>
+  `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
 export default function AudioInput({
+  initialResult,
+  initialOriginalWords,
   onTranscriptionComplete,
+  onTranscriptionChange,
+  onExport,
+  ownerId,
+  uploads,
+  onUploadOpen,
+  onReset,
   onTranscriptionError,
   className,
 }: AudioInputProps) {
   const [mode, setMode] = useState<InputMode>("upload");
   const [isTranscribing, setIsTranscribing] = useState(false);
   const [transcriptionResult, setTranscriptionResult] =
-    useState<TranscriptionResult | null>(null);
+    useState<TranscriptionResult | null>(initialResult ?? null);
   const [currentWordIndex, setCurrentWordIndex] = useState<{
     wordIndex: number;
   } | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [specialty, setSpecialty] = useState<SpecialtyId>("general");
+  const [termListId, setTermListId] = useState<string>();
+  const [deidentify, setDeidentify] = useState<DeidentifyMode>();
+  const [diarize, setDiarize] = useState(false);
+  const [commands, setCommands] = useState<CommandGrammar>();
+  // Compact the audio in the browser before uploading it
+  const [preprocess, setPreprocess] = useState(true);
+  const [prepared, setPrepared] = useState<PreprocessedAudio>();
+  // Document structure to dictate into; its headings join the grammar
+  const [templateId, setTemplateId] = useState<string>();
+  const template = templateId ? findTemplate(templateId) : undefined;
+  const grammar = template ? templateGrammar(template, commands) : commands;
+  const [isEditing, setIsEditing] = useState(false);
+  // Words as the server returned them, for the editor's diff view
+  const [note, setNote] = useState<SoapNote | null>(null);
+  const [originalWords, setOriginalWords] = useState<WordTimestamp[]>(
+    initialOriginalWords ?? initialResult?.words ?? []
+  );
   const audioRef = useRef<HTMLAudioElement>(null);
+  // Live transcription while recording, opened with the first window
+  const [isLive, setIsLive] = useState(true);
+  const [voiceActivity, setVoiceActivity] = useState<VoiceActivity>();
+  const [microphone, setMicrophone] = useState<Microphone>();
+  // Interrupted recording picked up from its backup
+  const [resumeFrom, setResumeFrom] = useState<RecordingSession>();
+  const [liveSegments, setLiveSegments] = useState<LiveSegment[]>([]);
+  const streamRef = useRef<Promise<TranscriptionStream | null> | null>(null);
+
+  const handleAudioWindow = (window: AudioWindow) => {
+    streamRef.current ??= openTranscriptionStream({
+      specialty,
+      termListId,
+      deidentify,
+      diarize,
+      commands: grammar,
+      onUpdate: setLiveSegments,
+    }).catch((error) => {
+      // The recording is still transcribed as a whole when it stops
+      console.error("Live transcription error:", error);
+      return null;
+    });
+    streamRef.current.then((stream) => stream?.send(window));
+  };
 
-  const handleRecordingComplete = async (audioBlob: Blob) => {
-    setIsTranscribing(true);
+  useEffect(() => {
+    setPreprocess(getPreprocessAudio());
+  }, []);
 
-    try {
-      // Convert blob to file for transcription
-      const audioFile = new File([audioBlob], `recording-${Date.now()}.webm`, {
-        type: audioBlob.type,
-      });
+  const handlePreprocessChange = (enabled: boolean) => {
+    setPreprocess(enabled);
+    setPreprocessAudio(enabled);
+  };
 
-      // Create audio URL for playback
-      const audioUrl = URL.createObjectURL(audioBlob);
+  // Finish the live session, or transcribe the whole recording if there was
+  // none or it failed part way. Resolves to the audio the timings refer to.
+  const transcribeRecording = async (audioFile: File) => {
+    const stream = await streamRef.current;
+    streamRef.current = null;
+    setLiveSegments([]);
+
+    if (stream && resumeFrom) {
+      // The live windows only cover the part recorded since resuming
+      stream.cancel();
+    } else if (stream) {
+      try {
+        return { result: await stream.finish(audioFile), audio: audioFile };
+      } catch (error) {
+        console.error("Live transcription error:", error);
+      }
+    }
+
+    let audio = audioFile;
+    if (preprocess) {
+      const processed = await preprocessAudio(audioFile);
+      setPrepared(processed);
+      audio = preprocessedFile(audioFile, processed);
+    }
+    const result = await transcribe(audio, {
+      specialty,
+      termListId,
+      deidentify,
+      diarize,
+      commands: grammar,
+    });
+    return { result, audio };
+  };
 
-      const formData = new FormData();
-      formData.append("audio", audioFile);
+  const handleRecordingComplete = async (
+    audioBlob: Blob,
+    backupId?: string
+  ) => {
+    setIsTranscribing(true);
 
-      const response = await fetch("/api/transcribe", {
-        method: "POST",
-        body: formData,
-      });
+    try {
+      // Convert blob to file for transcription; resumed recordings are WAV
+      const extension = audioBlob.type === "audio/wav" ? "wav" : "webm";
+      const audioFile = new File(
+        [audioBlob],
+        `recording-${Date.now()}.${extension}`,
+        { type: audioBlob.type }
+      );
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.error || "Transcription failed");
-      }
+      const { result, audio } = await transcribeRecording(audioFile);
 
-      const result: TranscriptionResult = await response.json();
+      // Create audio URL for playback
+      const audioUrl = URL.createObjectURL(audio);
 
       // Add audio URL and filename to result
       const enhancedResult = {
         ...result,
         audioUrl,
         audioFileName: audioFile.name,
+        template: templateId,
       };
 
       setTranscriptionResult(enhancedResult);
-      onTranscriptionComplete?.(enhancedResult);
+      setOriginalWords(enhancedResult.words ?? []);
+      onTranscriptionComplete?.(enhancedResult, audio);
+      setResumeFrom(undefined);
+      // Kept until now so a failed transcription can be retried later
+      if (backupId) {
+        deleteRecordingSession(backupId).catch((error) =>
+          console.error("Recording backup error:", error)
+        );
+      }
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Transcription failed";
-      onTranscriptionError?.(errorMessage);
+      onTranscriptionError?.(
+        errorMessage,
+        error instanceof TranscriptionError ? error.details : undefined
+      );
       console.error("Transcription error:", error);
     } finally {
       setIsTranscribing(false);
     }
   };
 
+  const handleTranscribeBackup = async (session: RecordingSession) => {
+    let audio: Blob;
+    try {
+      audio = await loadRecording(session.id);
+    } catch (error) {
+      console.error("Recording backup error:", error);
+      onTranscriptionError?.("The interrupted recording could not be read.");
+      return;
+    }
+    await handleRecordingComplete(audio, session.id);
+  };
+
+  const handleResumeBackup = (session: RecordingSession) => {
+    setMode("record");
+    setResumeFrom(session);
+  };
+
   // Find current word based on audio time
   const findCurrentWord = (currentTime: number) => {
     if (!transcriptionResult?.words) return null;
@@ -168,10 +309,21 @@ export default function AudioInput({
       URL.revokeObjectURL(transcriptionResult.audioUrl);
     }
     setTranscriptionResult(null);
+    setPrepared(undefined);
     setCurrentWordIndex(null);
     setIsPlaying(false);
+    setIsEditing(false);
+    setNote(null);
+    onReset?.();
   };
 
+  // Abandon a live session when leaving mid-recording
+  useEffect(() => {
+    return () => {
+      streamRef.current?.then((stream) => stream?.cancel());
+    };
+  }, []);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -181,11 +333,44 @@ export default function AudioInput({
     };
   }, [transcriptionResult?.audioUrl]);
 
-  const handleUploadTranscriptionComplete = (result: TranscriptionResult) => {
+  // The template a finished or reopened dictation was recorded with
+  const resultTemplate = transcriptionResult?.template
+    ? findTemplate(transcriptionResult.template)
+    : undefined;
+
+  // Changes made after transcription (edits, undone corrections)
+  const updateResult = (result: TranscriptionResult) => {
     setTranscriptionResult(result);
-    onTranscriptionComplete?.(result);
+    onTranscriptionChange?.(result);
+  };
+
+  // Put back what was transcribed before the medical term correction
+  const handleUndoCorrection = (correction: TermCorrection) => {
+    if (!transcriptionResult) return;
+
+    updateResult({
+      ...revertCorrection(transcriptionResult, correction),
+      corrections: transcriptionResult.corrections?.filter(
+        (item) => item !== correction
+      ),
+    });
   };
 
+  const handleSeek = (time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      audioRef.current.play();
+    }
+  };
+
+  // Files join the queue with the settings chosen now
+  const handleFilesSelect = (files: File[]) =>
+    uploads.add(
+      files,
+      { specialty, termListId, deidentify, diarize, commands: grammar },
+      { template: templateId, preprocess }
+    );
+
   return (
     <div className={cn("w-full space-y-4", className)}>
       {/* Mode Toggle */}
@@ -246,6 +431,48 @@ export default function AudioInput({
         </div>
       </div>
 
+      {/* Vocabulary used to bias the next transcription */}
+      {!isTranscribing && !transcriptionResult && (
+        <>
+          <RecordingRecovery
+            ownerId={ownerId}
+            onTranscribe={handleTranscribeBackup}
+            onResume={handleResumeBackup}
+          />
+          <TemplatePicker
+            templateId={templateId}
+            onTemplateChange={setTemplateId}
+          />
+          <VocabularySettings
+            specialty={specialty}
+            termListId={termListId}
+            onSpecialtyChange={setSpecialty}
+            onTermListChange={setTermListId}
+          />
+          <PrivacySettings mode={deidentify} onModeChange={setDeidentify} />
+          <label className="flex items-center gap-2 rounded-xl border border-gray-200 bg-white p-3 text-left text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={diarize}
+              onChange={(e) => setDiarize(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Consultation with several speakers: label who said what
+          </label>
+          <VoiceCommandSettings onGrammarChange={setCommands} />
+          <label className="flex items-center gap-2 rounded-xl border border-gray-200 bg-white p-3 text-left text-xs text-gray-500">
+            <input
+              type="checkbox"
+              checked={preprocess}
+              onChange={(e) => handlePreprocessChange(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Optimize audio before uploading: mono, 16kHz, silence trimmed,
+            loudness evened out
+          </label>
+        </>
+      )}
+
       {/* Loading Overlay for Recording Transcription */}
       {isTranscribing && (
         <div className="rounded-xl border border-gray-200 bg-white p-6">
@@ -263,14 +490,37 @@ export default function AudioInput({
         <>
           {mode === "upload" ? (
             <AudioUpload
-              onTranscriptionComplete={handleUploadTranscriptionComplete}
-              onTranscriptionError={onTranscriptionError}
+              items={uploads.items}
+              onFilesSelect={handleFilesSelect}
+              onRetry={uploads.retry}
+              onRemove={uploads.remove}
+              onOpen={(item) => onUploadOpen?.(item)}
+              onClearFinished={uploads.clearFinished}
             />
           ) : (
-            <AudioRecorder
-              onRecordingComplete={handleRecordingComplete}
-              onRecordingError={onTranscriptionError}
-            />
+            <>
+              <label className="flex items-center justify-center gap-2 text-xs text-gray-500">
+                <input
+                  type="checkbox"
+                  checked={isLive}
+                  onChange={(e) => setIsLive(e.target.checked)}
+                  className="rounded border-gray-300"
+                />
+                Show the transcript live while recording
+              </label>
+              <MicrophoneSettings onSettingsChange={setMicrophone} />
+              <VoiceActivitySettings onSettingsChange={setVoiceActivity} />
+              <AudioRecorder
+                onRecordingComplete={handleRecordingComplete}
+                onRecordingError={onTranscriptionError}
+                onAudioWindow={isLive ? handleAudioWindow : undefined}
+                liveSegments={liveSegments}
+                voiceActivity={voiceActivity}
+                resumeFrom={resumeFrom}
+                microphone={microphone}
+                ownerId={ownerId}
+              />
+            </>
           )}
         </>
       )}
@@ -284,6 +534,32 @@ export default function AudioInput({
                 Transcription Result
               </h4>
               <div className="flex items-center gap-2 text-xs text-gray-500">
+                {transcriptionResult.editedAt && (
+                  <span className="rounded-full bg-blue-50 px-2 py-1 text-blue-700">
+                    Edited
+                  </span>
+                )}
+                <ExportMenu result={transcriptionResult} onExport={onExport} />
+                {transcriptionResult.words && !isEditing && (
+                  <button
+                    onClick={() => setIsEditing(true)}
+                    className="rounded-full px-2 py-1 font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+                  >
+                    Edit
+                  </button>
+                )}
+                {prepared && prepared.size < prepared.originalSize && (
+                  <span
+                    title={`Uploaded ${formatMegabytes(
+                      prepared.size
+                    )} instead of ${formatMegabytes(prepared.originalSize)}`}
+                  >
+                    {Math.round(
+                      (1 - prepared.size / prepared.originalSize) * 100
+                    )}
+                    % smaller
+                  </span>
+                )}
                 {transcriptionResult.duration && (
                   <span>{Math.round(transcriptionResult.duration)}s</span>
                 )}
@@ -331,6 +607,7 @@ export default function AudioInput({
                     src={transcriptionResult.audioUrl}
                     type="audio/webm"
                   />
+                  <source src={transcriptionResult.audioUrl} type="audio/ogg" />
                   <source src={transcriptionResult.audioUrl} type="audio/mp4" />
                   <source src={transcriptionResult.audioUrl} type="audio/wav" />
                   Your browser does not support audio playback.
@@ -338,117 +615,61 @@ export default function AudioInput({
               </div>
             )}
 
-            <div className="rounded-lg bg-white p-3 overflow-hidden">
-              {/* Check if we have word-level timestamps */}
-              {transcriptionResult.words ? (
-                <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
-                  {/* Word-level interactive transcript */}
-                  {transcriptionResult.words.map((word, wordIndex) => {
-                    const isCurrentWord =
-                      currentWordIndex?.wordIndex === wordIndex;
-
-                    return (
-                      <>
-                        <span
-                          key={wordIndex}
-                          data-word={`${wordIndex}`}
-                          className={cn(
-                            "cursor-pointer px-0.5 transition-all duration-200",
-                            isCurrentWord && isPlaying
-                              ? "underline font-bold"
-                              : "hover:bg-blue-50 rounded"
-                          )}
-                          onClick={() => {
-                            // Jump to word timestamp
-                            if (audioRef.current) {
-                              audioRef.current.currentTime = word.start;
-                              audioRef.current.play();
-                            }
-                          }}
-                          title={`${word.start.toFixed(
-                            1
-                          )}s - ${word.end.toFixed(1)}s`}
-                        >
-                          {word.word}
-                        </span>
-                        {wordIndex <
-                          (transcriptionResult.words?.length || 0) - 1 && " "}
-                      </>
-                    );
-                  })}
-                  <div className="mt-2 text-xs text-green-600 flex items-center gap-1">
-                    <div className="h-2 w-2 rounded-full bg-green-400"></div>
-                    Word-level sync active - Current word appears bold and
-                    underlined
-                  </div>
-                </div>
-              ) : (
-                /* Fallback to segment-level or plain text */
-                <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
-                  {transcriptionResult.segments ? (
-                    /* Segment-level interactive transcript */
-                    transcriptionResult.segments.map((segment, index) => {
-                      // Find if current time is within this segment
-                      const currentTime = audioRef.current?.currentTime || 0;
-                      const isCurrentSegment =
-                        isPlaying &&
-                        currentTime >= segment.start &&
-                        currentTime <= segment.end;
-
-                      return (
-                        <span
-                          key={index}
-                          className={cn(
-                            "cursor-pointer px-1 transition-all duration-200",
-                            isCurrentSegment
-                              ? "underline font-bold text-blue-600"
-                              : "hover:bg-blue-50 rounded"
-                          )}
-                          onClick={() => {
-                            if (audioRef.current) {
-                              audioRef.current.currentTime = segment.start;
-                              audioRef.current.play();
-                            }
-                          }}
-                          title={`${segment.start.toFixed(
-                            1
-                          )}s - ${segment.end.toFixed(1)}s`}
-                        >
-                          {segment.text}
-                          {index <
-                            (transcriptionResult.segments?.length || 0) - 1 &&
-                            " "}
-                        </span>
-                      );
-                    })
-                  ) : (
-                    /* Plain text fallback */
-                    <p>{transcriptionResult.text}</p>
-                  )}
-                  {transcriptionResult.segments && (
-                    <div className="mt-2 text-xs text-blue-600 flex items-center gap-1">
-                      <div className="h-2 w-2 rounded-full bg-blue-400"></div>
-                      Segment-level sync active - Current phrase appears bold
-                      and underlined
-                    </div>
-                  )}
-                </div>
-              )}
-            </div>
-            {transcriptionResult.metadata && (
-              <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
-                <span className="flex items-center gap-1">
-                  <div className="h-2 w-2 rounded-full bg-green-400"></div>
-                  Medical Context Enabled
-                </span>
-                <span>•</span>
-                <span>
-                  Confidence: {transcriptionResult.metadata.confidence}
-                </span>
-              </div>
+            {!!transcriptionResult.speakers?.length && (
+              <SpeakerRoles
+                className="mb-3"
+                result={transcriptionResult}
+                onChange={updateResult}
+              />
+            )}
+            {isEditing ? (
+              <TranscriptEditor
+                result={transcriptionResult}
+                originalWords={originalWords}
+                audioRef={audioRef}
+                currentWordIndex={currentWordIndex?.wordIndex ?? null}
+                isPlaying={isPlaying}
+                onChange={updateResult}
+                onDone={() => setIsEditing(false)}
+              />
+            ) : (
+              <TranscriptView
+                result={transcriptionResult}
+                audioRef={audioRef}
+                currentWordIndex={currentWordIndex?.wordIndex ?? null}
+                isPlaying={isPlaying}
+              />
+            )}
+            {transcriptionResult.corrections && !isEditing && (
+              <CorrectionList
+                className="mt-3"
+                corrections={transcriptionResult.corrections}
+                onUndo={handleUndoCorrection}
+                onSeek={handleSeek}
+              />
             )}
           </div>
 
+          {/* Dictation routed into the sections of its template */}
+          {resultTemplate && (
+            <TemplateDocument
+              result={transcriptionResult}
+              template={resultTemplate}
+              onChange={updateResult}
+              onSeek={handleSeek}
+            />
+          )}
+
+          {/* Structured note generated from the transcript */}
+          <SoapNotePanel
+            result={transcriptionResult}
+            onSeek={handleSeek}
+            onNoteGenerated={setNote}
+          />
+
+          {/* Hand the transcript and note to the EHR as FHIR documents */}
+          <FhirExportPanel result={transcriptionResult} note={note} />
+
           {/* New Recording Button */}
           <div className="flex justify-center">
             <button
@@ -1,21 +1,64 @@
 "use client";
 
+import { createLevelAnalyser, readInputLevel } from "@/lib/recording/level";
+import {
+  openMicrophone,
+  type MicrophoneSettings,
+} from "@/lib/recording/microphone";
+import {
+  createRecordingSession,
+  loadRecording,
+  resumeRecordingSession,
+  saveRecordingProgress,
+} from "@/lib/recording/store";
+import type { RecordingPart, RecordingSession } from "@/lib/recording/types";
+import {
+  createPreRollStream,
+  createVoiceActivityDetector,
+  keyLabel,
+  PRE_ROLL_SECONDS,
+  type VoiceActivityDetector,
+  type VoiceActivitySettings,
+} from "@/lib/recording/voice-activity";
+import type { AudioWindow, LiveSegment } from "@/lib/streaming/types";
+import {
+  createWindowRecorder,
+  type WindowRecorder,
+} from "@/lib/streaming/window-recorder";
 import { cn } from "@/lib/utils";
 import { useCallback, useEffect, useRef, useState } from "react";
 
 interface AudioRecorderProps {
-  onRecordingComplete?: (audioBlob: Blob) => void;
+  // The id of the recording's backup, to delete once it is transcribed
+  onRecordingComplete?: (audioBlob: Blob, backupId?: string) => void;
   onRecordingError?: (error: string) => void;
+  onAudioWindow?: (window: AudioWindow) => void; // Enables live transcription
+  liveSegments?: LiveSegment[];
+  voiceActivity?: VoiceActivitySettings; // Hands-free pausing and stopping
+  resumeFrom?: RecordingSession; // Interrupted recording to continue
+  microphone?: MicrophoneSettings; // Device and processing to record with
+  ownerId?: string; // Signed-in user, who owns the backup
   className?: string;
 }
 
+// Why the recording is paused: the pause button, a silence or the
+// push-to-talk key being up
+type PauseReason = "manual" | "silence" | "key";
+
 export default function AudioRecorder({
   onRecordingComplete,
   onRecordingError,
+  onAudioWindow,
+  liveSegments,
+  voiceActivity,
+  resumeFrom,
+  microphone,
+  ownerId,
   className,
 }: AudioRecorderProps) {
   const [isRecording, setIsRecording] = useState(false);
-  const [isPaused, setIsPaused] = useState(false);
+  const [pauseReason, setPauseReason] = useState<PauseReason | null>(null);
+  const isPaused = pauseReason !== null;
   const [recordingTime, setRecordingTime] = useState(0);
   const [audioLevel, setAudioLevel] = useState(0);
   const [hasPermission, setHasPermission] = useState<boolean | null>(null);
@@ -27,6 +70,24 @@ export default function AudioRecorder({
   const chunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const animationRef = useRef<number | null>(null);
+  const windowRecorderRef = useRef<WindowRecorder | null>(null);
+  const liveTranscriptRef = useRef<HTMLDivElement>(null);
+  const detectorRef = useRef<VoiceActivityDetector | null>(null);
+  const pauseReasonRef = useRef<PauseReason | null>(null);
+  // Hands-free recording hears the microphone PRE_ROLL_SECONDS late, so
+  // pausing by hand or key and stopping wait as long to keep the last
+  // syllable
+  const recorderLagRef = useRef(0);
+  const pendingPauseRef = useRef<NodeJS.Timeout | null>(null);
+  const keyHeldRef = useRef(false);
+  const isStartingRef = useRef(false);
+  // Backup of the recording in IndexedDB, written about once a second
+  const backupRef = useRef<RecordingPart | null>(null);
+  const pendingChunksRef = useRef<Blob[]>([]);
+  const backupWritesRef = useRef<Promise<void>>(Promise.resolve());
+  const backupTimerRef = useRef<NodeJS.Timeout | null>(null);
+  const recordingTimeRef = useRef(0);
+  const pushToTalkKey = voiceActivity?.pushToTalkKey;
 
   // Request microphone permission
   const requestPermission = useCallback(async () => {
@@ -45,28 +106,17 @@ export default function AudioRecorder({
   // Initialize audio context and analyser for visualizing audio levels
   const initializeAudioContext = useCallback(async () => {
     try {
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          echoCancellation: true,
-          noiseSuppression: true,
-          autoGainControl: true,
-        },
-      });
+      const stream = await openMicrophone(microphone);
 
       streamRef.current = stream;
 
       // Create audio context for visualization
       audioContextRef.current = new (window.AudioContext ||
         (window as any).webkitAudioContext)();
-      analyserRef.current = audioContextRef.current.createAnalyser();
-      const source = audioContextRef.current.createMediaStreamSource(stream);
-      source.connect(analyserRef.current);
-
-      // Configure analyser for better sensitivity
-      analyserRef.current.fftSize = 512; // Increased for better resolution
-      analyserRef.current.smoothingTimeConstant = 0.3; // Reduce smoothing for more responsive visualization
-      analyserRef.current.minDecibels = -90;
-      analyserRef.current.maxDecibels = -10;
+      analyserRef.current = createLevelAnalyser(
+        audioContextRef.current,
+        stream
+      );
 
       // Ensure audio context is running
       if (audioContextRef.current.state === "suspended") {
@@ -80,118 +130,273 @@ export default function AudioRecorder({
       );
       throw error;
     }
-  }, [onRecordingError]);
+  }, [microphone, onRecordingError]);
 
   // Audio level visualization - removed dependencies to avoid stale closures
   const updateAudioLevel = useCallback(() => {
     if (!analyserRef.current) return;
 
-    const dataArray = new Uint8Array(analyserRef.current.frequencyBinCount);
-    analyserRef.current.getByteTimeDomainData(dataArray);
-
-    // Calculate RMS (Root Mean Square) for better audio level detection
-    let sum = 0;
-    for (let i = 0; i < dataArray.length; i++) {
-      const sample = (dataArray[i] - 128) / 128; // Convert to -1 to 1 range
-      sum += sample * sample;
-    }
-    const rms = Math.sqrt(sum / dataArray.length);
-
-    // Apply amplification for better visualization
-    const amplifiedLevel = Math.min(1, rms * 8);
+    const { level: amplifiedLevel } = readInputLevel(analyserRef.current);
     setAudioLevel(amplifiedLevel);
+    windowRecorderRef.current?.update(amplifiedLevel);
+    // Silence during a pause by hand or key is not the dictation ending
+    const reason = pauseReasonRef.current;
+    if (reason !== "manual" && reason !== "key") {
+      detectorRef.current?.update(amplifiedLevel);
+    }
 
     // Continue animation loop - will be controlled by start/stop recording
     animationRef.current = requestAnimationFrame(updateAudioLevel);
   }, []);
 
+  const startTimer = useCallback(() => {
+    timerRef.current ??= setInterval(() => {
+      setRecordingTime((prev) => prev + 1);
+    }, 1000);
+  }, []);
+
+  const stopTimer = useCallback(() => {
+    if (timerRef.current) {
+      clearInterval(timerRef.current);
+      timerRef.current = null;
+    }
+  }, []);
+
+  // Paused audio is left out of the recording and the live windows
+  const pauseRecording = useCallback(
+    (reason: PauseReason) => {
+      const recorder = mediaRecorderRef.current;
+      if (!recorder || recorder.state === "inactive") return;
+
+      if (recorder.state === "recording" && !pendingPauseRef.current) {
+        stopTimer();
+        const pause = () => {
+          pendingPauseRef.current = null;
+          if (recorder.state !== "recording") return;
+          recorder.pause();
+          windowRecorderRef.current?.pause();
+        };
+        // Silence needs no tail
+        const lag = reason === "silence" ? 0 : recorderLagRef.current;
+        if (lag > 0) pendingPauseRef.current = setTimeout(pause, lag);
+        else pause();
+      }
+      if (reason !== "silence") detectorRef.current?.reset();
+      pauseReasonRef.current = reason;
+      setPauseReason(reason);
+    },
+    [stopTimer]
+  );
+
+  const resumeRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder) return;
+
+    if (pendingPauseRef.current) {
+      // Resumed before the tail was recorded: carry on as if never paused
+      clearTimeout(pendingPauseRef.current);
+      pendingPauseRef.current = null;
+    } else if (recorder.state === "paused") {
+      recorder.resume();
+      windowRecorderRef.current?.resume();
+    } else {
+      return;
+    }
+    startTimer();
+    pauseReasonRef.current = null;
+    setPauseReason(null);
+  }, [startTimer]);
+
+  // Write the audio recorded since the last backup
+  const backUp = useCallback((mimeType: string) => {
+    const part = backupRef.current;
+    if (!part) return;
+
+    const chunks = pendingChunksRef.current;
+    pendingChunksRef.current = [];
+    const data = chunks.length
+      ? new Blob(chunks, { type: mimeType })
+      : undefined;
+    backupWritesRef.current = backupWritesRef.current
+      .then(() => saveRecordingProgress(part, recordingTimeRef.current, data))
+      .catch((error) => console.error("Recording backup error:", error));
+  }, []);
+
+  // Stop recording
+  const stopRecording = useCallback(() => {
+    const recorder = mediaRecorderRef.current;
+    if (!recorder || recorder.state === "inactive") return;
+
+    const lag = recorderLagRef.current;
+    if (lag > 0) {
+      setTimeout(() => {
+        if (recorder.state !== "inactive") recorder.stop();
+      }, lag);
+    } else {
+      recorder.stop();
+    }
+    detectorRef.current = null;
+    setIsRecording(false);
+    pauseReasonRef.current = null;
+    setPauseReason(null);
+    // Stop animation loop
+    if (animationRef.current) {
+      cancelAnimationFrame(animationRef.current);
+      animationRef.current = null;
+    }
+    // Reset audio level
+    setAudioLevel(0);
+  }, []);
+
   // Start recording
   const startRecording = useCallback(async () => {
-    try {
-      const stream = await initializeAudioContext();
+    // Already starting, e.g. from a second press of the push-to-talk key
+    if (isStartingRef.current || mediaRecorderRef.current) return;
+    isStartingRef.current = true;
 
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: MediaRecorder.isTypeSupported("audio/webm")
-          ? "audio/webm"
-          : "audio/mp4",
-      });
+    try {
+      const microphoneStream = await initializeAudioContext();
+      // Hands-free pauses are decided on the live input and applied to
+      // audio heard a moment later
+      recorderLagRef.current = voiceActivity?.enabled
+        ? PRE_ROLL_SECONDS * 1000
+        : 0;
+      const stream = voiceActivity?.enabled
+        ? createPreRollStream(audioContextRef.current!, microphoneStream)
+        : microphoneStream;
+
+      const mimeType = MediaRecorder.isTypeSupported("audio/webm")
+        ? "audio/webm"
+        : "audio/mp4";
+      const mediaRecorder = new MediaRecorder(stream, { mimeType });
 
       mediaRecorderRef.current = mediaRecorder;
       chunksRef.current = [];
+      pendingChunksRef.current = [];
+
+      // Without a backup the recording still works, it just is not
+      // recoverable after a crash. None is made before the user is known,
+      // since it could not be offered back to them.
+      backupRef.current = await (resumeFrom
+        ? resumeRecordingSession(resumeFrom.id)
+        : ownerId
+        ? createRecordingSession(mimeType, ownerId)
+        : Promise.resolve(null)
+      ).catch((error) => {
+        console.error("Recording backup error:", error);
+        return null;
+      });
 
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunksRef.current.push(event.data);
+          pendingChunksRef.current.push(event.data);
         }
       };
 
-      mediaRecorder.onstop = () => {
-        const audioBlob = new Blob(chunksRef.current, {
+      mediaRecorder.onstop = async () => {
+        // Hand over the last live window before the full recording
+        await windowRecorderRef.current?.stop();
+        windowRecorderRef.current = null;
+
+        if (backupTimerRef.current) clearInterval(backupTimerRef.current);
+        backUp(mediaRecorder.mimeType);
+        await backupWritesRef.current;
+        const backup = backupRef.current;
+        backupRef.current = null;
+
+        let audioBlob = new Blob(chunksRef.current, {
           type: mediaRecorder.mimeType,
         });
-        onRecordingComplete?.(audioBlob);
+        // Earlier parts of a resumed recording are only in the backup
+        if (backup && backup.part > 0) {
+          audioBlob = await loadRecording(backup.sessionId).catch((error) => {
+            console.error("Recording backup error:", error);
+            return audioBlob;
+          });
+        }
+        onRecordingComplete?.(audioBlob, backup?.sessionId);
         cleanup();
       };
 
       mediaRecorder.start(100); // Collect data every 100ms
+      // An unplugged microphone ends its track: keep what was recorded
+      // rather than carry on recording nothing
+      microphoneStream.getAudioTracks().forEach((track) =>
+        track.addEventListener("ended", () => {
+          onRecordingError?.(
+            "The microphone was disconnected. The recording so far is being transcribed."
+          );
+          stopRecording();
+        })
+      );
+      backupTimerRef.current = setInterval(() => backUp(mimeType), 1000);
+      if (onAudioWindow) {
+        windowRecorderRef.current = createWindowRecorder(
+          stream,
+          mimeType,
+          onAudioWindow
+        );
+      }
+      if (voiceActivity?.enabled) {
+        detectorRef.current = createVoiceActivityDetector(voiceActivity, {
+          onSilence: () => {
+            if (mediaRecorderRef.current?.state === "recording") {
+              pauseRecording("silence");
+            }
+          },
+          onSpeech: () => {
+            if (pauseReasonRef.current === "silence") resumeRecording();
+          },
+          onTimeout: () => {
+            const reason = pauseReasonRef.current;
+            if (reason !== "manual" && reason !== "key") stopRecording();
+          },
+        });
+      }
       setIsRecording(true);
-      setRecordingTime(0);
+      setRecordingTime(resumeFrom?.seconds ?? 0);
 
       // Start timer
-      timerRef.current = setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
-      }, 1000);
+      startTimer();
+
+      // With push-to-talk, only record while the key is held
+      if (voiceActivity?.pushToTalkKey && !keyHeldRef.current) {
+        pauseRecording("key");
+      }
 
       // Start audio level animation immediately
       updateAudioLevel();
     } catch (error) {
       console.error("Recording start error:", error);
       onRecordingError?.("Failed to start recording. Please try again.");
+    } finally {
+      isStartingRef.current = false;
     }
   }, [
+    backUp,
     initializeAudioContext,
+    onAudioWindow,
     onRecordingComplete,
     onRecordingError,
+    ownerId,
+    pauseRecording,
+    resumeRecording,
+    startTimer,
+    stopRecording,
+    resumeFrom,
     updateAudioLevel,
+    voiceActivity,
   ]);
 
-  // Stop recording
-  const stopRecording = useCallback(() => {
-    if (mediaRecorderRef.current && isRecording) {
-      mediaRecorderRef.current.stop();
-      setIsRecording(false);
-      setIsPaused(false);
-      // Stop animation loop
-      if (animationRef.current) {
-        cancelAnimationFrame(animationRef.current);
-        animationRef.current = null;
-      }
-      // Reset audio level
-      setAudioLevel(0);
-    }
-  }, [isRecording]);
-
   // Pause/Resume recording
   const togglePause = useCallback(() => {
-    if (!mediaRecorderRef.current || !isRecording) return;
-
     if (isPaused) {
-      mediaRecorderRef.current.resume();
-      setIsPaused(false);
-      // Resume timer
-      timerRef.current = setInterval(() => {
-        setRecordingTime((prev) => prev + 1);
-      }, 1000);
+      resumeRecording();
     } else {
-      mediaRecorderRef.current.pause();
-      setIsPaused(true);
-      // Pause timer
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-        timerRef.current = null;
-      }
+      pauseRecording("manual");
     }
-  }, [isRecording, isPaused]);
+  }, [isPaused, pauseRecording, resumeRecording]);
 
   // Cleanup function
   const cleanup = useCallback(() => {
@@ -200,6 +405,11 @@ export default function AudioRecorder({
       timerRef.current = null;
     }
 
+    if (backupTimerRef.current) {
+      clearInterval(backupTimerRef.current);
+      backupTimerRef.current = null;
+    }
+
     if (animationRef.current) {
       cancelAnimationFrame(animationRef.current);
       animationRef.current = null;
@@ -215,6 +425,14 @@ export default function AudioRecorder({
       audioContextRef.current = null;
     }
 
+    if (pendingPauseRef.current) {
+      clearTimeout(pendingPauseRef.current);
+      pendingPauseRef.current = null;
+    }
+
+    windowRecorderRef.current?.stop();
+    windowRecorderRef.current = null;
+    detectorRef.current = null;
     analyserRef.current = null;
     mediaRecorderRef.current = null;
   }, []);
@@ -228,6 +446,63 @@ export default function AudioRecorder({
       .padStart(2, "0")}`;
   };
 
+  useEffect(() => {
+    recordingTimeRef.current = recordingTime;
+  }, [recordingTime]);
+
+  // Ask before leaving mid-recording. What was recorded is backed up
+  // either way and offered again on the next visit.
+  useEffect(() => {
+    if (!isRecording) return;
+
+    const handleBeforeUnload = (event: BeforeUnloadEvent) => {
+      event.preventDefault();
+      event.returnValue = "";
+    };
+    window.addEventListener("beforeunload", handleBeforeUnload);
+    return () => window.removeEventListener("beforeunload", handleBeforeUnload);
+  }, [isRecording]);
+
+  // Keep the newest live text in view
+  useEffect(() => {
+    const element = liveTranscriptRef.current;
+    if (element) element.scrollTop = element.scrollHeight;
+  }, [liveSegments]);
+
+  // Push-to-talk: record while the key or foot pedal is held. Pressing it
+  // before recording starts a recording.
+  useEffect(() => {
+    if (!pushToTalkKey) return;
+
+    const isTyping = (event: KeyboardEvent) =>
+      event.target instanceof HTMLElement &&
+      (event.target.isContentEditable ||
+        ["INPUT", "SELECT", "TEXTAREA"].includes(event.target.tagName));
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== pushToTalkKey || event.repeat || isTyping(event)) {
+        return;
+      }
+      event.preventDefault();
+      keyHeldRef.current = true;
+      if (mediaRecorderRef.current) resumeRecording();
+      else startRecording();
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code !== pushToTalkKey || !keyHeldRef.current) return;
+      keyHeldRef.current = false;
+      pauseRecording("key");
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    window.addEventListener("keyup", handleKeyUp);
+    return () => {
+      window.removeEventListener("keydown", handleKeyDown);
+      window.removeEventListener("keyup", handleKeyUp);
+    };
+  }, [pushToTalkKey, pauseRecording, resumeRecording, startRecording]);
+
   // Check permission on mount
   useEffect(() => {
     if (hasPermission === null) {
@@ -311,6 +586,29 @@ export default function AudioRecorder({
           </div>
         )}
 
+        {/* Live transcript: finalized phrases, then tentative ones */}
+        {isRecording && onAudioWindow && (
+          <div
+            ref={liveTranscriptRef}
+            className="mb-6 max-h-32 overflow-y-auto rounded-lg bg-gray-50 p-3 text-left text-sm leading-relaxed"
+          >
+            {liveSegments?.length ? (
+              liveSegments.map((segment, index) => (
+                <span
+                  key={index}
+                  className={
+                    segment.final ? "text-gray-900" : "italic text-gray-400"
+                  }
+                >
+                  {segment.text}{" "}
+                </span>
+              ))
+            ) : (
+              <span className="text-gray-400">Listening...</span>
+            )}
+          </div>
+        )}
+
         {/* Recording Status */}
         <div className="mb-6 text-center">
           {isRecording ? (
@@ -323,7 +621,13 @@ export default function AudioRecorder({
                   )}
                 />
                 <span className="text-lg font-medium text-gray-900">
-                  {isPaused ? "Paused" : "Recording"}
+                  {pauseReason === "silence"
+                    ? "Paused: waiting for speech"
+                    : pauseReason === "key" && pushToTalkKey
+                    ? `Hold ${keyLabel(pushToTalkKey)} to talk`
+                    : isPaused
+                    ? "Paused"
+                    : "Recording"}
                 </span>
               </div>
               <div className="text-2xl font-mono text-gray-600">
@@ -348,10 +652,16 @@ export default function AudioRecorder({
                 </svg>
               </div>
               <h3 className="text-base font-medium text-gray-900">
-                Ready to Record
+                {resumeFrom
+                  ? `Continue recording from ${formatTime(resumeFrom.seconds)}`
+                  : "Ready to Record"}
               </h3>
               <p className="text-sm text-gray-500">
-                Click the record button to start capturing audio
+                {pushToTalkKey
+                  ? `Hold ${keyLabel(
+                      pushToTalkKey
+                    )} or click the record button to start capturing audio`
+                  : "Click the record button to start capturing audio"}
               </p>
             </div>
           )}
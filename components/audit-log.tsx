@@ -0,0 +1,247 @@
+"use client";
+
+import { fetchAuditEvents } from "@/lib/audit/client";
+import type { AuditQueryResponse, AuditVerification } from "@/lib/audit/types";
+import { fetchUsers } from "@/lib/auth/client";
+import { roleLabel } from "@/lib/auth/roles";
+import type { PublicUser } from "@/lib/auth/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface AuditLogProps {
+  className?: string;
+}
+
+// Filters match the action and everything under it, e.g. "dictation"
+// also finds "dictation.view"
+const ACTIONS = [
+  { value: "", label: "All actions" },
+  { value: "transcribe", label: "Transcriptions" },
+  { value: "dictation", label: "Dictations viewed, edited or deleted" },
+  { value: "dictation.export", label: "File exports" },
+  { value: "export.fhir", label: "EHR exports" },
+  { value: "notes", label: "SOAP notes" },
+  { value: "auth", label: "Sign-ins" },
+  { value: "user", label: "User changes" },
+  { value: "access", label: "Denied access" },
+  { value: "audit", label: "Audit log use" },
+];
+
+const OUTCOMES = ["", "success", "failure", "denied"];
+
+const OUTCOME_STYLES: Record<string, string> = {
+  success: "text-gray-600",
+  failure: "text-amber-600",
+  denied: "text-red-600",
+};
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "medium",
+});
+
+// A damaged line, e.g. one cut short by a crash, is reported when the
+// events around it still chain
+function verificationMessage({
+  ok,
+  count,
+  brokenAt,
+  unreadableLines = [],
+}: AuditVerification) {
+  if (ok) return `The hash chain is intact: all ${count} events verified.`;
+  if (brokenAt !== undefined) {
+    return `The log has been altered: the hash chain breaks at event #${brokenAt}.`;
+  }
+  return unreadableLines.length === 1
+    ? `The log has been damaged: line ${unreadableLines[0]} of the file is not a valid event.`
+    : `The log has been damaged: lines ${unreadableLines.join(
+        ", "
+      )} of the file are not valid events.`;
+}
+
+export default function AuditLog({ className }: AuditLogProps) {
+  const [filters, setFilters] = useState({
+    actorId: "",
+    action: "",
+    outcome: "",
+    from: "",
+    to: "",
+  });
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [log, setLog] = useState<AuditQueryResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Dates are picked as days; the end day is included
+  const params = new URLSearchParams();
+  if (filters.actorId) params.set("actorId", filters.actorId);
+  if (filters.action) params.set("action", filters.action);
+  if (filters.outcome) params.set("outcome", filters.outcome);
+  if (filters.from) params.set("from", new Date(filters.from).toISOString());
+  if (filters.to) {
+    params.set(
+      "to",
+      new Date(Date.parse(filters.to) + 86_400_000 - 1).toISOString()
+    );
+  }
+  const query = params.toString();
+
+  useEffect(() => {
+    fetchUsers()
+      .then(setUsers)
+      .catch((error) => console.error("User list error:", error));
+  }, []);
+
+  useEffect(() => {
+    fetchAuditEvents(new URLSearchParams(query))
+      .then((response) => {
+        setLog(response);
+        setError(null);
+      })
+      .catch((error) => setError(error.message));
+  }, [query]);
+
+  const select = (
+    key: "actorId" | "action" | "outcome",
+    options: { value: string; label: string }[]
+  ) => (
+    <select
+      value={filters[key]}
+      onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+      className="rounded-lg border-gray-200 py-1 text-sm"
+    >
+      {options.map(({ value, label }) => (
+        <option key={value} value={value}>
+          {label}
+        </option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className={cn("space-y-4 text-left", className)}>
+      {log && (
+        <p
+          className={cn(
+            "rounded-xl border p-3 text-sm",
+            log.verification.ok
+              ? "border-green-200 bg-green-50 text-green-800"
+              : "border-red-200 bg-red-50 text-red-800"
+          )}
+        >
+          {verificationMessage(log.verification)}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        {select("actorId", [
+          { value: "", label: "All users" },
+          ...users.map((user) => ({ value: user.id, label: user.name })),
+        ])}
+        {select("action", ACTIONS)}
+        {select(
+          "outcome",
+          OUTCOMES.map((value) => ({
+            value,
+            label: value || "Any outcome",
+          }))
+        )}
+        <label className="flex items-center gap-1">
+          From
+          <input
+            type="date"
+            value={filters.from}
+            onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+            className="rounded-lg border-gray-200 py-1 text-sm"
+          />
+        </label>
+        <label className="flex items-center gap-1">
+          To
+          <input
+            type="date"
+            value={filters.to}
+            onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+            className="rounded-lg border-gray-200 py-1 text-sm"
+          />
+        </label>
+        <div className="ml-auto flex gap-1">
+          <a
+            href={`/api/audit/export?${query}&format=csv`}
+            className="rounded-full px-3 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+          >
+            Export CSV
+          </a>
+          <a
+            href={`/api/audit/export?${query}&format=jsonl`}
+            className="rounded-full px-3 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+          >
+            Export JSON lines
+          </a>
+        </div>
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">#</th>
+              <th className="px-3 py-2 text-left font-medium">Time</th>
+              <th className="px-3 py-2 text-left font-medium">User</th>
+              <th className="px-3 py-2 text-left font-medium">Action</th>
+              <th className="px-3 py-2 text-left font-medium">Outcome</th>
+              <th className="px-3 py-2 text-left font-medium">Resource</th>
+              <th className="px-3 py-2 text-left font-medium">Audio</th>
+              <th className="px-3 py-2 text-left font-medium">Detail</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {log?.events.map((event) => (
+              <tr key={event.seq} className="align-top">
+                <td className="px-3 py-2 text-gray-400">{event.seq}</td>
+                <td className="whitespace-nowrap px-3 py-2">
+                  {dateFormat.format(new Date(event.timestamp))}
+                </td>
+                <td className="px-3 py-2">
+                  {event.actor ? (
+                    <>
+                      {event.actor.name}
+                      <span className="block text-gray-400">
+                        {roleLabel(event.actor.role)}
+                      </span>
+                    </>
+                  ) : (
+                    <span className="text-gray-400">Not signed in</span>
+                  )}
+                </td>
+                <td className="px-3 py-2 font-mono">{event.action}</td>
+                <td className={cn("px-3 py-2", OUTCOME_STYLES[event.outcome])}>
+                  {event.outcome}
+                </td>
+                <td className="break-all px-3 py-2">{event.resource}</td>
+                <td className="px-3 py-2">
+                  {event.duration !== undefined &&
+                    `${event.duration.toFixed(1)} s`}
+                  {event.fileHash && (
+                    <span
+                      title={event.fileHash}
+                      className="block font-mono text-gray-400"
+                    >
+                      {event.fileHash.slice(0, 12)}
+                    </span>
+                  )}
+                </td>
+                <td className="px-3 py-2 text-gray-600">{event.detail}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {log?.events.length === 0 && (
+          <p className="p-4 text-center text-sm text-gray-500">
+            No events match.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
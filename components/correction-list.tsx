@@ -0,0 +1,77 @@
+"use client";
+
+import type { TermCorrection } from "@/lib/medical/types";
+import { cn } from "@/lib/utils";
+import { useState } from "react";
+
+interface CorrectionListProps {
+  corrections: TermCorrection[];
+  onUndo: (correction: TermCorrection) => void;
+  onSeek?: (time: number) => void;
+  className?: string;
+}
+
+export default function CorrectionList({
+  corrections,
+  onUndo,
+  onSeek,
+  className,
+}: CorrectionListProps) {
+  const [isExpanded, setIsExpanded] = useState(false);
+
+  if (corrections.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "rounded-lg border border-blue-100 bg-blue-50/50 p-3 text-left",
+        className
+      )}
+    >
+      <button
+        onClick={() => setIsExpanded((expanded) => !expanded)}
+        className="flex w-full items-center justify-between text-xs font-medium text-blue-800"
+      >
+        <span className="flex items-center gap-1">
+          <div className="h-2 w-2 rounded-full bg-blue-400"></div>
+          {corrections.length} medical{" "}
+          {corrections.length === 1 ? "term" : "terms"} corrected
+        </span>
+        <span>{isExpanded ? "Hide" : "Review"}</span>
+      </button>
+
+      {isExpanded && (
+        <ul className="mt-2 space-y-1">
+          {corrections.map((correction) => (
+            <li
+              key={`${correction.start}-${correction.replacement}`}
+              className="flex items-center justify-between gap-2 rounded-md bg-white px-2 py-1 text-xs"
+            >
+              <button
+                onClick={() => onSeek?.(correction.start)}
+                className="flex-1 text-left text-gray-700"
+                title={`${correction.start.toFixed(
+                  1
+                )}s - ${correction.end.toFixed(1)}s`}
+              >
+                <span className="text-gray-400 line-through">
+                  {correction.original}
+                </span>{" "}
+                → <span className="font-medium">{correction.replacement}</span>
+                <span className="ml-2 text-gray-400">
+                  {correction.category} · {Math.round(correction.score * 100)}%
+                </span>
+              </button>
+              <button
+                onClick={() => onUndo(correction)}
+                className="rounded-full px-2 py-0.5 font-medium text-blue-700 transition-colors hover:bg-blue-50"
+              >
+                Undo
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
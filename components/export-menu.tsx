@@ -0,0 +1,138 @@
+"use client";
+
+import { silenceRanges } from "@/lib/audio/silence";
+import { exportBaseName, exportTranscript } from "@/lib/export/export";
+import {
+  EXPORT_FORMATS,
+  type CueSource,
+  type ExportFormat,
+} from "@/lib/export/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useRef, useState } from "react";
+
+interface ExportMenuProps {
+  result: TranscriptionResult;
+  onExport?: (format: string) => void; // After a file was downloaded
+  className?: string;
+}
+
+export default function ExportMenu({
+  result,
+  onExport,
+  className,
+}: ExportMenuProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [cueSource, setCueSource] = useState<CueSource>("segments");
+  const [error, setError] = useState<string | null>(null);
+  const [isSilencing, setIsSilencing] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const canChooseCues = !!result.segments?.length && !!result.words?.length;
+
+  // Close when clicking anywhere else
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const handleExport = (format: ExportFormat) => {
+    try {
+      const { blob, fileName } = exportTranscript(result, format, {
+        cueSource: canChooseCues ? cueSource : undefined,
+      });
+      download(blob, fileName);
+      onExport?.(format);
+      setError(null);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Export error:", error);
+      setError("Export failed");
+    }
+  };
+
+  // Audio copy with every de-identified span muted
+  const handleSilencedAudio = async () => {
+    if (!result.audioUrl || !result.phi) return;
+    setIsSilencing(true);
+
+    try {
+      const audio = await fetch(result.audioUrl).then((response) =>
+        response.blob()
+      );
+      const silenced = await silenceRanges(audio, result.phi);
+      download(silenced, `${exportBaseName(result)}-deidentified.wav`);
+      onExport?.("deidentified-audio");
+      setError(null);
+      setIsOpen(false);
+    } catch (error) {
+      console.error("Audio export error:", error);
+      setError("Could not process the audio");
+    } finally {
+      setIsSilencing(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className={cn("relative", className)}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="rounded-full px-2 py-1 font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+      >
+        Export
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 z-10 mt-1 w-52 rounded-lg border border-gray-200 bg-white py-1 text-left shadow-lg">
+          {EXPORT_FORMATS.map(({ format, label, extension }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              {label}
+              <span className="text-xs text-gray-400">.{extension}</span>
+            </button>
+          ))}
+          {!!result.phi?.length && result.audioUrl && (
+            <button
+              onClick={handleSilencedAudio}
+              disabled={isSilencing}
+              className="flex w-full items-center justify-between px-3 py-1.5 text-sm text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {isSilencing ? "Processing audio..." : "Audio, identifiers muted"}
+              <span className="text-xs text-gray-400">.wav</span>
+            </button>
+          )}
+          {canChooseCues && (
+            <label className="mt-1 flex items-center gap-2 border-t border-gray-100 px-3 pt-2 pb-1 text-xs text-gray-500">
+              Subtitle cues
+              <select
+                value={cueSource}
+                onChange={(e) => setCueSource(e.target.value as CueSource)}
+                className="flex-1 rounded border-gray-200 py-0.5 text-xs"
+              >
+                <option value="segments">By phrase</option>
+                <option value="words">By word timing</option>
+              </select>
+            </label>
+          )}
+          {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function download(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,162 @@
+"use client";
+
+import { exportToFhir, FhirExportError } from "@/lib/fhir/client";
+import type { FhirExportRequest } from "@/lib/fhir/types";
+import type { SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import { useState } from "react";
+
+interface FhirExportPanelProps {
+  result: TranscriptionResult;
+  note?: SoapNote | null;
+  className?: string;
+}
+
+type DocumentTarget = FhirExportRequest["context"];
+
+export default function FhirExportPanel({
+  result,
+  note,
+  className,
+}: FhirExportPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [context, setContext] = useState<DocumentTarget>({
+    patientId: "",
+    encounterId: "",
+  });
+  const [includeNote, setIncludeNote] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [locations, setLocations] = useState<string[] | null>(null);
+  const [error, setError] = useState<{ message: string; issues?: string[] }>();
+
+  const canSubmit = !!context.patientId.trim();
+
+  const handleExport = async (send: boolean) => {
+    setIsWorking(true);
+    setError(undefined);
+    setLocations(null);
+
+    try {
+      const response = await exportToFhir(result, context, {
+        note: includeNote && note ? note : undefined,
+        send,
+      });
+
+      if (send) {
+        setLocations(response.locations ?? []);
+      } else {
+        const url = URL.createObjectURL(
+          new Blob([JSON.stringify(response.bundle, null, 2)], {
+            type: "application/fhir+json",
+          })
+        );
+        const link = document.createElement("a");
+        link.href = url;
+        link.download = `document-bundle-${context.patientId.trim()}.json`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+      }
+    } catch (error) {
+      setError({
+        message: error instanceof Error ? error.message : "Export failed",
+        issues: error instanceof FhirExportError ? error.issues : undefined,
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const field = (key: keyof DocumentTarget, label: string, hint: string) => (
+    <label className="flex flex-col gap-1 text-xs text-gray-500">
+      {label}
+      <input
+        value={context[key] ?? ""}
+        onChange={(e) => setContext({ ...context, [key]: e.target.value })}
+        placeholder={hint}
+        className="rounded-lg border-gray-200 text-sm text-gray-900"
+      />
+    </label>
+  );
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-gray-50 p-4 text-left",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">Send to EHR</h4>
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+        >
+          {isOpen ? "Close" : "FHIR export"}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 space-y-3 rounded-lg bg-white p-3">
+          <div className="grid gap-2 sm:grid-cols-2">
+            {field("patientId", "Patient ID", "e.g. 12345")}
+            {field("encounterId", "Encounter ID", "Optional")}
+          </div>
+          <p className="text-xs text-gray-500">
+            Documents are authored by you, as the Practitioner ID an
+            administrator set on your account.
+          </p>
+
+          {note && (
+            <label className="flex items-center gap-2 text-xs text-gray-600">
+              <input
+                type="checkbox"
+                checked={includeNote}
+                onChange={(e) => setIncludeNote(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Include the SOAP note as a second document
+            </label>
+          )}
+
+          <div className="flex items-center justify-end gap-2">
+            <button
+              onClick={() => handleExport(false)}
+              disabled={!canSubmit || isWorking}
+              className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900 disabled:opacity-50"
+            >
+              Download bundle
+            </button>
+            <button
+              onClick={() => handleExport(true)}
+              disabled={!canSubmit || isWorking}
+              className="rounded-full bg-gray-900 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isWorking ? "Sending..." : "Send"}
+            </button>
+          </div>
+
+          {locations && (
+            <div className="rounded-lg bg-green-50 p-2 text-xs text-green-700">
+              Stored as {locations.join(", ") || "new documents"}. Documents are
+              marked preliminary until signed in the EHR.
+            </div>
+          )}
+
+          {error && (
+            <div className="text-xs text-red-600">
+              <p>{error.message}</p>
+              {error.issues && (
+                <ul className="mt-1 list-disc pl-4">
+                  {error.issues.map((issue) => (
+                    <li key={issue}>{issue}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { recordAuditEvent } from "@/lib/audit/client";
+import { getRetentionDays, setRetentionDays } from "@/lib/history/retention";
+import {
+  deleteDictation,
+  listDictations,
+  matchesDictation,
+  purgeExpiredDictations,
+  updateDictation,
+} from "@/lib/history/store";
+import { RETENTION_OPTIONS, type DictationRecord } from "@/lib/history/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface HistorySidebarProps {
+  ownerId?: string; // Unset until the signed-in user is known
+  activeId: string | null;
+  version: number; // Bump to reload after the page saves a dictation
+  onOpen: (record: DictationRecord) => void;
+  onDeleted: (id: string) => void;
+  className?: string;
+}
+
+const dateFormat = new Intl.DateTimeFormat(undefined, {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+export default function HistorySidebar({
+  ownerId,
+  activeId,
+  version,
+  onOpen,
+  onDeleted,
+  className,
+}: HistorySidebarProps) {
+  const [records, setRecords] = useState<DictationRecord[]>([]);
+  const [query, setQuery] = useState("");
+  const [retentionDays, setRetention] = useState<number | null>(null);
+  const [renaming, setRenaming] = useState<{ id: string; title: string }>();
+  const [isOpen, setIsOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // localStorage is only readable after hydration
+  useEffect(() => setRetention(getRetentionDays()), []);
+
+  // Purge anything past the retention window before listing
+  useEffect(() => {
+    if (retentionDays === null || !ownerId) return;
+
+    purgeExpiredDictations(retentionDays)
+      .then(() => listDictations(ownerId))
+      .then(setRecords)
+      .catch((error) => {
+        console.error("History load error:", error);
+        setError("Could not load saved dictations");
+      });
+  }, [retentionDays, ownerId, version]);
+
+  const handleRetentionChange = (days: number) => {
+    setRetentionDays(days);
+    setRetention(days);
+  };
+
+  const handleRename = async () => {
+    if (!renaming) return;
+
+    try {
+      const record = await updateDictation(renaming.id, {
+        title: renaming.title,
+      });
+      recordAuditEvent("dictation.edit", record.id, "rename");
+      setRecords((previous) =>
+        previous.map((item) => (item.id === record.id ? record : item))
+      );
+      setRenaming(undefined);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to rename");
+    }
+  };
+
+  const handleDelete = async (record: DictationRecord) => {
+    if (!confirm(`Delete "${record.title}" and its audio?`)) return;
+
+    try {
+      await deleteDictation(record.id);
+      recordAuditEvent("dictation.delete", record.id);
+      setRecords((previous) =>
+        previous.filter((item) => item.id !== record.id)
+      );
+      onDeleted(record.id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to delete");
+    }
+  };
+
+  const visible = records.filter((record) => matchesDictation(record, query));
+
+  return (
+    <aside
+      className={cn(
+        "flex flex-col border-gray-200 bg-gray-50 text-left",
+        className
+      )}
+    >
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center justify-between px-4 py-3 text-sm font-medium text-gray-900 lg:cursor-default"
+      >
+        History
+        <span className="rounded-full bg-gray-200 px-2 py-0.5 text-xs text-gray-600">
+          {records.length}
+        </span>
+      </button>
+
+      <div
+        className={cn(
+          "min-h-0 flex-1 flex-col px-3 pb-3",
+          isOpen ? "flex" : "hidden lg:flex"
+        )}
+      >
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search dictations"
+          className="mb-2 w-full rounded-lg border-gray-200 text-sm"
+        />
+
+        <ul className="min-h-0 flex-1 space-y-1 overflow-y-auto">
+          {visible.map((record) => (
+            <li
+              key={record.id}
+              className={cn(
+                "group rounded-lg px-3 py-2 transition-colors",
+                record.id === activeId
+                  ? "bg-white shadow-sm"
+                  : "hover:bg-white/70"
+              )}
+            >
+              {renaming?.id === record.id ? (
+                <input
+                  autoFocus
+                  value={renaming.title}
+                  onChange={(e) =>
+                    setRenaming({ ...renaming, title: e.target.value })
+                  }
+                  onBlur={handleRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") e.currentTarget.blur();
+                    if (e.key === "Escape") setRenaming(undefined);
+                  }}
+                  className="w-full rounded border-gray-200 px-1 py-0.5 text-sm"
+                />
+              ) : (
+                <button
+                  onClick={() => onOpen(record)}
+                  className="block w-full truncate text-left text-sm text-gray-900"
+                  title={record.title}
+                >
+                  {record.title}
+                </button>
+              )}
+              <div className="mt-0.5 flex items-center gap-2 text-xs text-gray-500">
+                <span className="flex-1 truncate">
+                  {dateFormat.format(new Date(record.createdAt))}
+                  {record.result.editedAt && " · Edited"}
+                </span>
+                <button
+                  onClick={() =>
+                    setRenaming({ id: record.id, title: record.title })
+                  }
+                  className="hidden hover:text-gray-900 group-hover:inline"
+                >
+                  Rename
+                </button>
+                <button
+                  onClick={() => handleDelete(record)}
+                  className="hidden text-red-600 hover:text-red-700 group-hover:inline"
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+          {visible.length === 0 && (
+            <li className="px-3 py-2 text-xs text-gray-400">
+              {query ? "No matching dictations" : "No saved dictations yet"}
+            </li>
+          )}
+        </ul>
+
+        {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+        <label className="mt-3 flex items-center gap-2 border-t border-gray-200 pt-3 text-xs text-gray-500">
+          Keep for
+          <select
+            value={retentionDays ?? ""}
+            onChange={(e) => handleRetentionChange(Number(e.target.value))}
+            className="flex-1 rounded-lg border-gray-200 py-1 text-xs text-gray-900"
+          >
+            {RETENTION_OPTIONS.map((option) => (
+              <option key={option.days} value={option.days}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+    </aside>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { signIn } from "@/lib/auth/client";
+import { cn } from "@/lib/utils";
+import { useState, type FormEvent } from "react";
+
+interface LoginFormProps {
+  next: string; // Where to go once signed in
+  error?: string; // Passed back by a failed single sign-on
+  hasSingleSignOn: boolean;
+  className?: string;
+}
+
+export default function LoginForm({
+  next,
+  error: initialError,
+  hasSingleSignOn,
+  className,
+}: LoginFormProps) {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState(initialError);
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+    setError(undefined);
+
+    try {
+      await signIn(username, password);
+      // A full load, so the middleware sees the new cookie
+      window.location.assign(next);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Signing in failed");
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-6 text-left",
+        className
+      )}
+    >
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <label className="block text-xs text-gray-500">
+          Username
+          <input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+            className="mt-1 w-full rounded-lg border-gray-200 text-sm text-gray-900"
+          />
+        </label>
+        <label className="block text-xs text-gray-500">
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+            className="mt-1 w-full rounded-lg border-gray-200 text-sm text-gray-900"
+          />
+        </label>
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="w-full rounded-full bg-gray-900 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-gray-800 disabled:opacity-50"
+        >
+          {isSubmitting ? "Signing in..." : "Sign in"}
+        </button>
+      </form>
+
+      {hasSingleSignOn && (
+        <a
+          href={`/api/auth/oidc?next=${encodeURIComponent(next)}`}
+          className="mt-3 block w-full rounded-full border border-gray-200 px-4 py-2 text-center text-sm font-medium text-gray-700 transition-colors hover:bg-gray-50"
+        >
+          Sign in with single sign-on
+        </a>
+      )}
+
+      {error && <p className="mt-3 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
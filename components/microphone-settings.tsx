@@ -0,0 +1,260 @@
+"use client";
+
+import {
+  assessInputLevels,
+  createLevelAnalyser,
+  readInputLevel,
+  type InputLevel,
+  type LevelAssessment,
+} from "@/lib/recording/level";
+import {
+  DEFAULT_MICROPHONE_SETTINGS,
+  listMicrophones,
+  openMicrophone,
+  type MicrophoneSettings as Settings,
+} from "@/lib/recording/microphone";
+import {
+  getMicrophoneSettings,
+  setMicrophoneSettings,
+} from "@/lib/recording/settings";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface MicrophoneSettingsProps {
+  onSettingsChange: (settings: Settings) => void;
+  className?: string;
+}
+
+type MicrophoneTest =
+  | { status: "recording" }
+  | { status: "done"; url: string; assessment: LevelAssessment }
+  | { status: "error" };
+
+// Length of the test recording
+const TEST_SECONDS = 4;
+
+const PROCESSING: {
+  key: "echoCancellation" | "noiseSuppression" | "autoGainControl";
+  label: string;
+}[] = [
+  { key: "echoCancellation", label: "Echo cancellation" },
+  { key: "noiseSuppression", label: "Noise suppression" },
+  { key: "autoGainControl", label: "Automatic gain" },
+];
+
+const ASSESSMENTS: Record<
+  LevelAssessment,
+  { text: string; className: string }
+> = {
+  ok: { text: "Levels look good.", className: "text-green-700" },
+  clipping: {
+    text: "The input is clipping, which distorts speech. Move the microphone further away or lower its gain.",
+    className: "text-red-600",
+  },
+  quiet: {
+    text: "The input is quiet. Speak closer to the microphone or raise its gain.",
+    className: "text-amber-600",
+  },
+  silent: {
+    text: "Nothing was picked up. Check that the microphone is connected and not muted.",
+    className: "text-red-600",
+  },
+};
+
+export default function MicrophoneSettings({
+  onSettingsChange,
+  className,
+}: MicrophoneSettingsProps) {
+  const [settings, setSettings] = useState<Settings>(
+    DEFAULT_MICROPHONE_SETTINGS
+  );
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [test, setTest] = useState<MicrophoneTest | null>(null);
+  const [testLevel, setTestLevel] = useState(0);
+
+  // Stored per browser, like the hands-free settings
+  useEffect(() => {
+    const stored = getMicrophoneSettings();
+    setSettings(stored);
+    onSettingsChange(stored);
+  }, [onSettingsChange]);
+
+  // Headsets and USB microphones come and go while the page is open
+  useEffect(() => {
+    const refresh = () =>
+      listMicrophones()
+        .then(setDevices)
+        .catch((error) => console.error("Microphone list error:", error));
+
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () =>
+      navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+  }, []);
+
+  // Release the previous test recording
+  useEffect(() => {
+    const url = test?.status === "done" ? test.url : undefined;
+    return () => {
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [test]);
+
+  const update = (next: Settings) => {
+    setSettings(next);
+    setMicrophoneSettings(next);
+    onSettingsChange(next);
+  };
+
+  // Record a few seconds with the current settings, then play them back
+  // and judge the levels on the same meter the recorder uses
+  const runTest = async () => {
+    let stream: MediaStream;
+    try {
+      stream = await openMicrophone(settings);
+    } catch (error) {
+      console.error("Microphone test error:", error);
+      setTest({ status: "error" });
+      return;
+    }
+    setTest({ status: "recording" });
+    // Device names are only available once the microphone was allowed
+    listMicrophones()
+      .then(setDevices)
+      .catch(() => {});
+
+    const context = new AudioContext();
+    const analyser = createLevelAnalyser(context, stream);
+    const recorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    const levels: InputLevel[] = [];
+    let frame = 0;
+
+    const measure = () => {
+      const level = readInputLevel(analyser);
+      levels.push(level);
+      setTestLevel(level.level);
+      frame = requestAnimationFrame(measure);
+    };
+
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    };
+    recorder.onstop = () => {
+      cancelAnimationFrame(frame);
+      stream.getTracks().forEach((track) => track.stop());
+      context.close();
+      setTestLevel(0);
+      setTest({
+        status: "done",
+        url: URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType })),
+        assessment: assessInputLevels(levels),
+      });
+    };
+
+    recorder.start();
+    measure();
+    setTimeout(() => recorder.stop(), TEST_SECONDS * 1000);
+  };
+
+  const isSelectedMissing =
+    !!settings.deviceId &&
+    devices.length > 0 &&
+    !devices.some((device) => device.deviceId === settings.deviceId);
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        Microphone
+        <select
+          value={settings.deviceId ?? ""}
+          onChange={(e) =>
+            update({ ...settings, deviceId: e.target.value || undefined })
+          }
+          className="min-w-0 flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+        >
+          <option value="">System default</option>
+          {devices
+            .filter((device) => device.deviceId !== "default")
+            .map((device, index) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || `Microphone ${index + 1}`}
+              </option>
+            ))}
+          {isSelectedMissing && (
+            <option value={settings.deviceId}>
+              Chosen microphone (not connected)
+            </option>
+          )}
+        </select>
+      </label>
+      {isSelectedMissing && (
+        <p className="mt-1 text-xs text-amber-600">
+          The chosen microphone is not connected; the system default is used
+          until it is plugged back in.
+        </p>
+      )}
+
+      <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+        {PROCESSING.map(({ key, label }) => (
+          <label
+            key={key}
+            className="flex items-center gap-2 text-xs text-gray-500"
+          >
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              onChange={(e) => update({ ...settings, [key]: e.target.checked })}
+              className="rounded border-gray-300"
+            />
+            {label}
+          </label>
+        ))}
+      </div>
+
+      <div className="mt-3 flex items-center gap-3">
+        <button
+          onClick={runTest}
+          disabled={test?.status === "recording"}
+          className="rounded-full border border-gray-200 px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-50 hover:text-gray-900 disabled:opacity-50"
+        >
+          {test?.status === "recording"
+            ? "Say a sentence..."
+            : "Test microphone"}
+        </button>
+        {test?.status === "recording" && (
+          <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-gray-100">
+            <div
+              className="h-full rounded-full bg-green-500 transition-all duration-100"
+              style={{ width: `${Math.round(testLevel * 100)}%` }}
+            />
+          </div>
+        )}
+      </div>
+      {test?.status === "done" && (
+        <div className="mt-2">
+          <p className={cn("text-xs", ASSESSMENTS[test.assessment].className)}>
+            {ASSESSMENTS[test.assessment].text}
+          </p>
+          <audio
+            src={test.url}
+            controls
+            autoPlay
+            className="mt-2 h-10 w-full"
+          />
+        </div>
+      )}
+      {test?.status === "error" && (
+        <p className="mt-2 text-xs text-red-600">
+          The microphone could not be opened. Check the browser&apos;s
+          permission for this page.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+"use client";
+
+import type { DeidentifyMode } from "@/lib/phi/types";
+import { cn } from "@/lib/utils";
+
+interface PrivacySettingsProps {
+  mode?: DeidentifyMode;
+  onModeChange: (mode?: DeidentifyMode) => void;
+  className?: string;
+}
+
+const DESCRIPTIONS: Record<DeidentifyMode | "keep", string> = {
+  keep: "The transcript keeps names, dates and other identifiers.",
+  redact: 'Identifiers are replaced with labels such as "[NAME]".',
+  pseudonymize:
+    "Identifiers are replaced with consistent stand-ins, e.g. the same surrogate name throughout.",
+};
+
+export default function PrivacySettings({
+  mode,
+  onModeChange,
+  className,
+}: PrivacySettingsProps) {
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        Identifiers
+        <select
+          value={mode ?? "keep"}
+          onChange={(e) =>
+            onModeChange(
+              e.target.value === "keep"
+                ? undefined
+                : (e.target.value as DeidentifyMode)
+            )
+          }
+          className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+        >
+          <option value="keep">Keep (full transcript)</option>
+          <option value="redact">Redact</option>
+          <option value="pseudonymize">Pseudonymize</option>
+        </select>
+      </label>
+      <p className="mt-1 text-xs text-gray-400">
+        {DESCRIPTIONS[mode ?? "keep"]}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  deleteRecordingSession,
+  listRecordingSessions,
+} from "@/lib/recording/store";
+import type { RecordingSession } from "@/lib/recording/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface RecordingRecoveryProps {
+  ownerId?: string; // Unset until the signed-in user is known
+  onTranscribe: (session: RecordingSession) => void;
+  onResume: (session: RecordingSession) => void;
+  className?: string;
+}
+
+// A session touched this recently may still be recording in another tab
+const ACTIVE_WITHIN_MS = 10_000;
+
+const formatDuration = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+
+// Recordings that were cut off by a crash or closed tab before they were
+// transcribed
+export default function RecordingRecovery({
+  ownerId,
+  onTranscribe,
+  onResume,
+  className,
+}: RecordingRecoveryProps) {
+  const [sessions, setSessions] = useState<RecordingSession[]>([]);
+
+  useEffect(() => {
+    if (!ownerId) return;
+
+    listRecordingSessions(ownerId)
+      .then((all) =>
+        setSessions(
+          all.filter(
+            (session) =>
+              session.bytes > 0 &&
+              Date.now() - Date.parse(session.updatedAt) > ACTIVE_WITHIN_MS
+          )
+        )
+      )
+      .catch((error) => console.error("Recording backup error:", error));
+  }, [ownerId]);
+
+  const dismiss = (session: RecordingSession) =>
+    setSessions((previous) =>
+      previous.filter((item) => item.id !== session.id)
+    );
+
+  const handleDiscard = async (session: RecordingSession) => {
+    try {
+      await deleteRecordingSession(session.id);
+      dismiss(session);
+    } catch (error) {
+      console.error("Recording backup error:", error);
+    }
+  };
+
+  if (sessions.length === 0) return null;
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-amber-200 bg-amber-50 p-3 text-left",
+        className
+      )}
+    >
+      <h4 className="text-sm font-medium text-amber-900">
+        {sessions.length === 1
+          ? "A recording was interrupted"
+          : `${sessions.length} recordings were interrupted`}
+      </h4>
+      <p className="mt-1 text-xs text-amber-800">
+        The audio was saved in this browser as it was recorded. Transcribe it as
+        it is, or continue recording where it stopped.
+      </p>
+      <ul className="mt-2 space-y-2">
+        {sessions.map((session) => (
+          <li
+            key={session.id}
+            className="flex flex-wrap items-center justify-between gap-2 rounded-lg bg-white px-3 py-2 text-xs"
+          >
+            <span className="text-gray-700">
+              {new Date(session.startedAt).toLocaleString()} ·{" "}
+              {formatDuration(session.seconds)}
+            </span>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={() => {
+                  dismiss(session);
+                  onTranscribe(session);
+                }}
+                className="rounded-full bg-gray-900 px-3 py-1 font-medium text-white hover:bg-gray-800"
+              >
+                Transcribe
+              </button>
+              <button
+                onClick={() => {
+                  dismiss(session);
+                  onResume(session);
+                }}
+                className="rounded-full px-3 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => handleDiscard(session)}
+                className="rounded-full px-3 py-1 font-medium text-red-600 hover:bg-red-50"
+              >
+                Discard
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
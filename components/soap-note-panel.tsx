@@ -0,0 +1,124 @@
+"use client";
+
+import { generateSoapNote } from "@/lib/notes/client";
+import { formatSoapNote } from "@/lib/notes/format";
+import { SOAP_SECTIONS, type SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import { useState } from "react";
+
+interface SoapNotePanelProps {
+  result: TranscriptionResult;
+  onSeek: (time: number) => void;
+  onNoteGenerated?: (note: SoapNote) => void;
+  className?: string;
+}
+
+export default function SoapNotePanel({
+  result,
+  onSeek,
+  onNoteGenerated,
+  className,
+}: SoapNotePanelProps) {
+  const [note, setNote] = useState<SoapNote | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+      const generated = await generateSoapNote(result);
+      setNote(generated);
+      onNoteGenerated?.(generated);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to generate the note"
+      );
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!note) return;
+
+    await navigator.clipboard.writeText(formatSoapNote(note));
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-gray-50 p-4 text-left",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">SOAP Note</h4>
+        <div className="flex items-center gap-2">
+          {note && (
+            <button
+              onClick={handleCopy}
+              className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+            >
+              {isCopied ? "Copied" : "Copy"}
+            </button>
+          )}
+          <button
+            onClick={handleGenerate}
+            disabled={isGenerating}
+            className="rounded-full bg-gray-900 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-gray-800 disabled:opacity-50"
+          >
+            {isGenerating
+              ? "Generating..."
+              : note
+              ? "Regenerate"
+              : "Generate SOAP Note"}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+
+      {note && (
+        <div className="mt-3 space-y-3 rounded-lg bg-white p-3">
+          {SOAP_SECTIONS.map(({ id, title }) => (
+            <div key={id}>
+              <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                {title}
+              </h5>
+              {note.sections[id].length > 0 ? (
+                <p className="mt-1 text-sm leading-relaxed text-gray-800">
+                  {note.sections[id].map((sentence, index) => (
+                    <span
+                      key={index}
+                      onClick={() => onSeek(sentence.start)}
+                      className="cursor-pointer rounded px-0.5 transition-colors hover:bg-blue-50"
+                      title={`From ${sentence.start.toFixed(
+                        1
+                      )}s - ${sentence.end.toFixed(1)}s`}
+                    >
+                      {sentence.text}{" "}
+                    </span>
+                  ))}
+                </p>
+              ) : (
+                <p className="mt-1 text-sm text-gray-400">
+                  Nothing dictated for this section
+                </p>
+              )}
+            </div>
+          ))}
+          <p className="text-xs text-gray-400">
+            Generated by {note.model} - review before signing. Click a line to
+            hear its source.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
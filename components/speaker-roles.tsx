@@ -0,0 +1,70 @@
+"use client";
+
+import { speakerNames } from "@/lib/diarization/assign";
+import { speakerColor } from "@/lib/diarization/colors";
+import { SPEAKER_ROLES, type SpeakerRole } from "@/lib/diarization/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+
+interface SpeakerRolesProps {
+  result: TranscriptionResult;
+  onChange: (result: TranscriptionResult) => void;
+  className?: string;
+}
+
+export default function SpeakerRoles({
+  result,
+  onChange,
+  className,
+}: SpeakerRolesProps) {
+  const speakers = result.speakers ?? [];
+  const names = speakerNames(speakers);
+
+  const handleRoleChange = (id: string, role: SpeakerRole) =>
+    onChange({
+      ...result,
+      speakers: speakers.map((speaker) =>
+        speaker.id === id ? { ...speaker, role } : speaker
+      ),
+    });
+
+  return (
+    <div
+      className={cn(
+        "flex flex-wrap items-center gap-3 text-xs text-gray-500",
+        className
+      )}
+    >
+      <span>Speakers</span>
+      {speakers.map((speaker) => (
+        <label key={speaker.id} className="flex items-center gap-1.5">
+          <span
+            className={cn(
+              "h-2.5 w-2.5 rounded-full",
+              speakerColor(speakers, speaker.id)?.dot
+            )}
+          />
+          <span className="sr-only">{names[speaker.id]}</span>
+          <select
+            value={speaker.role}
+            onChange={(e) =>
+              handleRoleChange(speaker.id, e.target.value as SpeakerRole)
+            }
+            className="rounded-lg border-gray-200 py-0.5 pl-2 pr-7 text-xs text-gray-900"
+          >
+            {SPEAKER_ROLES.map(({ role, label }) => (
+              <option key={role} value={role}>
+                {label}
+              </option>
+            ))}
+          </select>
+        </label>
+      ))}
+      {result.metadata?.diarization === "local" && (
+        <span className="text-gray-400">
+          Estimated from the audio - check the roles
+        </span>
+      )}
+    </div>
+  );
+}
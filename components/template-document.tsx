@@ -0,0 +1,166 @@
+"use client";
+
+import { assignPhrase, fillTemplate } from "@/lib/templates/fill";
+import {
+  dictatedParagraphs,
+  formatTemplateDocument,
+} from "@/lib/templates/format";
+import type { DictationTemplate, TemplatePhrase } from "@/lib/templates/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import { useMemo, useState } from "react";
+
+interface TemplateDocumentProps {
+  result: TranscriptionResult;
+  template: DictationTemplate;
+  onChange: (result: TranscriptionResult) => void;
+  onSeek: (time: number) => void;
+  className?: string;
+}
+
+export default function TemplateDocument({
+  result,
+  template,
+  onChange,
+  onSeek,
+  className,
+}: TemplateDocumentProps) {
+  const [isArranging, setIsArranging] = useState(false);
+  const [isCopied, setIsCopied] = useState(false);
+
+  const document = useMemo(
+    () => fillTemplate(result, template),
+    [result, template]
+  );
+
+  // Every phrase in spoken order, with the section it landed in
+  const phrases = useMemo(
+    () =>
+      document.sections
+        .flatMap((section) =>
+          section.phrases.map((phrase) => ({ phrase, section }))
+        )
+        .sort((a, b) => a.phrase.start - b.phrase.start),
+    [document]
+  );
+
+  const handleAssign = (phrase: TemplatePhrase, sectionId: string) => {
+    onChange({
+      ...result,
+      markers: assignPhrase(result, template, phrase, sectionId),
+      editedAt: new Date().toISOString(),
+    });
+  };
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(formatTemplateDocument(document));
+    setIsCopied(true);
+    setTimeout(() => setIsCopied(false), 2000);
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-gray-50 p-4 text-left",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">{template.name}</h4>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={handleCopy}
+            className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+          >
+            {isCopied ? "Copied" : "Copy"}
+          </button>
+          <button
+            onClick={() => setIsArranging(!isArranging)}
+            className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+          >
+            {isArranging ? "Done" : "Arrange"}
+          </button>
+        </div>
+      </div>
+
+      {isArranging ? (
+        <div className="mt-3 space-y-1 rounded-lg bg-white p-3">
+          <p className="mb-2 text-xs text-gray-400">
+            Choose the section each phrase belongs to. The phrases after it
+            follow along until the next heading.
+          </p>
+          {phrases.map(({ phrase, section }) => (
+            <div
+              key={phrase.start}
+              className="flex items-start gap-3 border-b border-gray-100 py-1 last:border-0"
+            >
+              <p
+                onClick={() => onSeek(phrase.start)}
+                className="flex-1 cursor-pointer text-sm text-gray-800 hover:text-blue-700"
+              >
+                {phrase.text}
+              </p>
+              <select
+                value={section.id}
+                onChange={(e) => handleAssign(phrase, e.target.value)}
+                className="w-48 shrink-0 rounded-lg border-gray-200 py-0.5 text-xs text-gray-700"
+              >
+                {document.sections.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="mt-3 space-y-3 rounded-lg bg-white p-3">
+          {document.sections.map((section) => {
+            const paragraphs = dictatedParagraphs(section);
+
+            return (
+              <div key={section.id}>
+                <h5 className="text-xs font-semibold uppercase tracking-wide text-gray-500">
+                  {section.title}
+                </h5>
+                {section.boilerplate?.split(/\n{2,}/).map((text, index) => (
+                  <p
+                    key={index}
+                    className="mt-1 text-sm leading-relaxed text-gray-500"
+                  >
+                    {text}
+                  </p>
+                ))}
+                {paragraphs.map((paragraph, index) => (
+                  <p
+                    key={index}
+                    className="mt-1 text-sm leading-relaxed text-gray-800"
+                  >
+                    {paragraph.map((phrase) => (
+                      <span
+                        key={phrase.start}
+                        onClick={() => onSeek(phrase.start)}
+                        className="cursor-pointer rounded px-0.5 transition-colors hover:bg-blue-50"
+                        title={`${phrase.start.toFixed(
+                          1
+                        )}s - ${phrase.end.toFixed(1)}s`}
+                      >
+                        {phrase.text}{" "}
+                      </span>
+                    ))}
+                  </p>
+                ))}
+                {paragraphs.length === 0 && !section.boilerplate && (
+                  <p className="mt-1 text-sm text-gray-400">
+                    Nothing dictated for this section
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+"use client";
+
+import { TEMPLATES, findTemplate } from "@/lib/templates/builtin";
+import { cn } from "@/lib/utils";
+
+interface TemplatePickerProps {
+  templateId?: string;
+  onTemplateChange: (templateId?: string) => void;
+  className?: string;
+}
+
+export default function TemplatePicker({
+  templateId,
+  onTemplateChange,
+  className,
+}: TemplatePickerProps) {
+  const template = templateId ? findTemplate(templateId) : undefined;
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        Template
+        <select
+          value={templateId ?? ""}
+          onChange={(e) => onTemplateChange(e.target.value || undefined)}
+          className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+        >
+          <option value="">None (transcript only)</option>
+          {TEMPLATES.map((item) => (
+            <option key={item.id} value={item.id}>
+              {item.name}
+            </option>
+          ))}
+        </select>
+      </label>
+      {template && (
+        <p className="mt-1 text-xs text-gray-400">
+          {template.sections.map((section) => section.title).join(" · ")}. Say
+          &quot;next section&quot; and a heading, e.g. &quot;next section{" "}
+          {template.sections[1]?.title.toLowerCase() ??
+            template.sections[0].title.toLowerCase()}
+          &quot;, to move on.
+        </p>
+      )}
+    </div>
+  );
+}
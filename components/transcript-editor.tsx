@@ -0,0 +1,292 @@
+"use client";
+
+import { useUndoHistory } from "@/lib/hooks/use-undo-history";
+import { diffWords } from "@/lib/transcription/diff";
+import {
+  deleteWord,
+  editWord,
+  insertWord,
+  mergeWords,
+} from "@/lib/transcription/editing";
+import type {
+  TranscriptionResult,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import {
+  Fragment,
+  KeyboardEvent,
+  RefObject,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+
+interface TranscriptEditorProps {
+  result: TranscriptionResult;
+  originalWords: WordTimestamp[]; // Machine output to diff against
+  audioRef: RefObject<HTMLAudioElement | null>;
+  currentWordIndex: number | null;
+  isPlaying: boolean;
+  onChange: (result: TranscriptionResult) => void;
+  onDone: () => void;
+}
+
+interface Draft {
+  mode: "edit" | "insert";
+  index: number; // Word being edited, or the word to insert after
+  value: string;
+}
+
+const toolbarButton =
+  "rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900 disabled:opacity-40 disabled:hover:bg-transparent";
+
+export default function TranscriptEditor({
+  result,
+  originalWords,
+  audioRef,
+  currentWordIndex,
+  isPlaying,
+  onChange,
+  onDone,
+}: TranscriptEditorProps) {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [showChanges, setShowChanges] = useState(false);
+  const history = useUndoHistory(result, onChange);
+  const words = result.words ?? [];
+
+  const changes = useMemo(
+    () =>
+      diffWords(
+        originalWords.map((word) => word.word),
+        (result.words ?? []).map((word) => word.word)
+      ),
+    [originalWords, result.words]
+  );
+  const changedWords = changes
+    .filter((part) => part.type !== "equal")
+    .reduce((count, part) => count + part.words.length, 0);
+
+  const update = (next: TranscriptionResult) =>
+    history.apply({ ...next, editedAt: new Date().toISOString() });
+
+  const select = (index: number) => {
+    setSelected(index);
+    if (audioRef.current && words[index]) {
+      audioRef.current.currentTime = words[index].start;
+    }
+  };
+
+  // The input commits on blur; Escape blurs it with this flag set
+  const cancelDraft = useRef(false);
+
+  const commitDraft = () => {
+    if (!draft) return;
+    setDraft(null);
+    if (cancelDraft.current) {
+      cancelDraft.current = false;
+      return;
+    }
+
+    if (draft.mode === "insert") {
+      if (!draft.value.trim()) return;
+      update(insertWord(result, draft.index, draft.value));
+      setSelected(draft.index + 1);
+    } else if (draft.value.trim() !== words[draft.index]?.word) {
+      update(editWord(result, draft.index, draft.value));
+    }
+  };
+
+  const handleDelete = () => {
+    if (selected === null) return;
+    update(deleteWord(result, selected));
+    setSelected(words.length > 1 ? Math.min(selected, words.length - 2) : null);
+  };
+
+  const handleMerge = () => {
+    if (selected === null) return;
+    update(mergeWords(result, selected));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.target instanceof HTMLInputElement) return;
+    const modifier = e.metaKey || e.ctrlKey;
+
+    if (modifier && e.key.toLowerCase() === "z") {
+      e.preventDefault();
+      if (e.shiftKey) history.redo();
+      else history.undo();
+    } else if (modifier && e.key.toLowerCase() === "y") {
+      e.preventDefault();
+      history.redo();
+    } else if (
+      selected !== null &&
+      (e.key === "Delete" || e.key === "Backspace")
+    ) {
+      e.preventDefault();
+      handleDelete();
+    } else if (selected !== null && e.key === "Enter") {
+      e.preventDefault();
+      setDraft({ mode: "edit", index: selected, value: words[selected].word });
+    } else if (e.key === "ArrowRight" || e.key === "ArrowLeft") {
+      e.preventDefault();
+      const step = e.key === "ArrowRight" ? 1 : -1;
+      select(Math.min(Math.max((selected ?? -1) + step, 0), words.length - 1));
+    }
+  };
+
+  const draftInput = draft && (
+    <input
+      autoFocus
+      value={draft.value}
+      size={Math.max(draft.value.length, 4)}
+      onChange={(e) => setDraft({ ...draft, value: e.target.value })}
+      onBlur={commitDraft}
+      onKeyDown={(e) => {
+        if (e.key === "Escape") cancelDraft.current = true;
+        if (e.key === "Enter" || e.key === "Escape") e.currentTarget.blur();
+      }}
+      className="mx-0.5 rounded border-blue-300 px-1 py-0 text-sm"
+    />
+  );
+
+  return (
+    <div
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      className="rounded-lg bg-white p-3 outline-none ring-blue-200 focus:ring-2"
+    >
+      <div className="mb-3 flex flex-wrap items-center gap-1 border-b border-gray-100 pb-2">
+        <button
+          onClick={() =>
+            selected !== null &&
+            setDraft({
+              mode: "edit",
+              index: selected,
+              value: words[selected].word,
+            })
+          }
+          disabled={selected === null}
+          className={toolbarButton}
+        >
+          Edit
+        </button>
+        <button
+          onClick={() =>
+            setDraft({ mode: "insert", index: selected ?? -1, value: "" })
+          }
+          className={toolbarButton}
+        >
+          {selected === null ? "Insert at start" : "Insert after"}
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={selected === null}
+          className={toolbarButton}
+        >
+          Delete
+        </button>
+        <button
+          onClick={handleMerge}
+          disabled={selected === null || selected >= words.length - 1}
+          className={toolbarButton}
+        >
+          Merge with next
+        </button>
+        <span className="mx-1 h-4 w-px bg-gray-200" />
+        <button
+          onClick={history.undo}
+          disabled={!history.canUndo}
+          className={toolbarButton}
+        >
+          Undo
+        </button>
+        <button
+          onClick={history.redo}
+          disabled={!history.canRedo}
+          className={toolbarButton}
+        >
+          Redo
+        </button>
+        <button
+          onClick={() => setShowChanges(!showChanges)}
+          className={cn(toolbarButton, showChanges && "bg-gray-100")}
+        >
+          {showChanges ? "Hide changes" : "Show changes"}
+          {changedWords > 0 && ` (${changedWords})`}
+        </button>
+        <button
+          onClick={onDone}
+          className="ml-auto rounded-full bg-gray-900 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-gray-800"
+        >
+          Done
+        </button>
+      </div>
+
+      {showChanges ? (
+        <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
+          {changes.map((part, index) => (
+            <Fragment key={index}>
+              <span
+                className={cn(
+                  part.type === "delete" &&
+                    "rounded bg-red-50 text-red-600 line-through",
+                  part.type === "insert" && "rounded bg-green-50 text-green-700"
+                )}
+              >
+                {part.words.join(" ")}
+              </span>{" "}
+            </Fragment>
+          ))}
+          <p className="mt-2 text-xs text-gray-500">
+            Compared with the original machine transcript
+          </p>
+        </div>
+      ) : (
+        <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
+          {draft?.mode === "insert" && draft.index === -1 && draftInput}
+          {words.map((word, wordIndex) => (
+            <Fragment key={wordIndex}>
+              {draft?.mode === "edit" && draft.index === wordIndex ? (
+                draftInput
+              ) : (
+                <span
+                  data-word={`${wordIndex}`}
+                  className={cn(
+                    "cursor-text rounded px-0.5 transition-colors",
+                    selected === wordIndex
+                      ? "bg-blue-100 text-blue-900"
+                      : "hover:bg-blue-50",
+                    currentWordIndex === wordIndex &&
+                      isPlaying &&
+                      "underline font-bold"
+                  )}
+                  onClick={() => select(wordIndex)}
+                  onDoubleClick={() =>
+                    setDraft({
+                      mode: "edit",
+                      index: wordIndex,
+                      value: word.word,
+                    })
+                  }
+                  title={`${word.start.toFixed(1)}s - ${word.end.toFixed(1)}s`}
+                >
+                  {word.word}
+                </span>
+              )}
+              {draft?.mode === "insert" &&
+                draft.index === wordIndex &&
+                draftInput}
+              {wordIndex < words.length - 1 && " "}
+            </Fragment>
+          ))}
+          <p className="mt-2 text-xs text-gray-500">
+            Click a word to select it, double-click or Enter to edit. Ctrl+Z /
+            Ctrl+Shift+Z to undo and redo.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,300 @@
+"use client";
+
+import { markersBefore } from "@/lib/commands/markers";
+import type { TranscriptMarker } from "@/lib/commands/types";
+import { speakerNames } from "@/lib/diarization/assign";
+import { speakerColor } from "@/lib/diarization/colors";
+import { findSegmentIndex } from "@/lib/transcription/text";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { cn } from "@/lib/utils";
+import { Fragment, RefObject, useMemo } from "react";
+
+interface TranscriptViewProps {
+  result: TranscriptionResult;
+  audioRef: RefObject<HTMLAudioElement | null>;
+  currentWordIndex: number | null;
+  isPlaying: boolean;
+}
+
+const LOW_CONFIDENCE_TITLE = "Low confidence - please verify against the audio";
+
+export default function TranscriptView({
+  result,
+  audioRef,
+  currentWordIndex,
+  isPlaying,
+}: TranscriptViewProps) {
+  // Words inherit the confidence of the segment they were spoken in
+  const lowConfidenceWords = useMemo(() => {
+    const flagged = new Set<number>();
+    if (!result.words || !result.segments) return flagged;
+
+    result.words.forEach((word, wordIndex) => {
+      const segment =
+        result.segments![findSegmentIndex(result.segments!, word.start)];
+      if (segment?.confidence?.level === "low") {
+        flagged.add(wordIndex);
+      }
+    });
+    return flagged;
+  }, [result.words, result.segments]);
+
+  // Words standing in for a de-identified name, date, etc.
+  const replacedWords = useMemo(() => {
+    const replaced = new Map<number, string>();
+    if (!result.words || !result.phi) return replaced;
+
+    result.words.forEach((word, wordIndex) => {
+      const span = result.phi!.find(
+        (item) => word.start >= item.start && word.end <= item.end
+      );
+      if (span) replaced.set(wordIndex, span.category);
+    });
+    return replaced;
+  }, [result.words, result.phi]);
+
+  // Words rewritten by the term correction pass, with what was heard
+  const correctedWords = useMemo(() => {
+    const corrected = new Map<number, string>();
+    if (!result.words || !result.corrections) return corrected;
+
+    result.words.forEach((word, wordIndex) => {
+      const correction = result.corrections!.find(
+        (item) => word.start >= item.start && word.end <= item.end
+      );
+      if (correction) corrected.set(wordIndex, correction.original);
+    });
+    return corrected;
+  }, [result.words, result.corrections]);
+
+  // Who said each word in a diarized recording, by speaker id
+  const wordSpeakers = useMemo(() => {
+    if (!result.words || !result.speakers?.length) return [];
+    return result.words.map(
+      (word) =>
+        word.speaker ??
+        result.segments?.[findSegmentIndex(result.segments, word.start)]
+          ?.speaker
+    );
+  }, [result.words, result.segments, result.speakers]);
+
+  // Line breaks and headings dictated with voice commands
+  const wordMarkers = useMemo(
+    () => markersBefore(result.words ?? [], result.markers),
+    [result.words, result.markers]
+  );
+  const segmentMarkers = useMemo(
+    () => markersBefore(result.segments ?? [], result.markers),
+    [result.segments, result.markers]
+  );
+
+  const dictatedBreaks = (markers?: TranscriptMarker[]) =>
+    markers?.map((marker, index) =>
+      marker.type === "section" ? (
+        <span
+          key={index}
+          className="mt-3 mb-1 block text-xs font-semibold uppercase tracking-wide text-gray-500"
+        >
+          {marker.title}
+        </span>
+      ) : marker.type === "paragraph" ? (
+        <span key={index} className="block h-3" />
+      ) : (
+        <br key={index} />
+      )
+    );
+
+  const speakers = result.speakers ?? [];
+  const names = speakerNames(speakers);
+
+  // Each change of voice starts a new line with the speaker's name
+  const speakerLabel = (speaker: string | undefined, previous?: string) =>
+    speaker &&
+    speaker !== previous && (
+      <>
+        {previous !== undefined && <br />}
+        <span
+          className={cn(
+            "mr-1 inline-flex items-center gap-1 text-xs font-semibold",
+            speakerColor(speakers, speaker)?.text
+          )}
+        >
+          <span
+            className={cn(
+              "h-2 w-2 rounded-full",
+              speakerColor(speakers, speaker)?.dot
+            )}
+          />
+          {names[speaker] ?? speaker}:
+        </span>
+      </>
+    );
+
+  const seek = (time: number) => {
+    if (audioRef.current) {
+      audioRef.current.currentTime = time;
+      audioRef.current.play();
+    }
+  };
+
+  return (
+    <>
+      <div className="rounded-lg bg-white p-3 overflow-hidden">
+        {/* Check if we have word-level timestamps */}
+        {result.words ? (
+          <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
+            {/* Word-level interactive transcript */}
+            {result.words.map((word, wordIndex) => {
+              const isCurrentWord = currentWordIndex === wordIndex;
+              const isLowConfidence = lowConfidenceWords.has(wordIndex);
+              const correctedFrom = correctedWords.get(wordIndex);
+              const replacedCategory = replacedWords.get(wordIndex);
+              const speaker = wordSpeakers[wordIndex];
+
+              return (
+                <Fragment key={wordIndex}>
+                  {dictatedBreaks(wordMarkers.get(wordIndex))}
+                  {speakerLabel(speaker, wordSpeakers[wordIndex - 1])}
+                  <span
+                    data-word={`${wordIndex}`}
+                    className={cn(
+                      "cursor-pointer px-0.5 transition-all duration-200",
+                      speakerColor(speakers, speaker)?.text,
+                      isCurrentWord && isPlaying
+                        ? "underline font-bold"
+                        : "hover:bg-blue-50 rounded",
+                      isLowConfidence &&
+                        "bg-amber-50 decoration-amber-500 decoration-wavy underline",
+                      correctedFrom &&
+                        "decoration-blue-400 decoration-dotted underline",
+                      replacedCategory && "bg-gray-100 text-gray-500 rounded"
+                    )}
+                    onClick={() => seek(word.start)}
+                    title={`${word.start.toFixed(1)}s - ${word.end.toFixed(
+                      1
+                    )}s${isLowConfidence ? ` - ${LOW_CONFIDENCE_TITLE}` : ""}${
+                      correctedFrom
+                        ? ` - Corrected from "${correctedFrom}"`
+                        : ""
+                    }${
+                      replacedCategory
+                        ? ` - De-identified ${replacedCategory}`
+                        : ""
+                    }`}
+                  >
+                    {word.word}
+                  </span>
+                  {wordIndex < (result.words?.length || 0) - 1 && " "}
+                </Fragment>
+              );
+            })}
+            <div className="mt-2 text-xs text-green-600 flex items-center gap-1">
+              <div className="h-2 w-2 rounded-full bg-green-400"></div>
+              Word-level sync active - Current word appears bold and underlined
+            </div>
+          </div>
+        ) : result.segments ? (
+          <div className="text-sm leading-relaxed text-gray-800 break-words whitespace-normal">
+            {/* Segment-level interactive transcript */}
+            {result.segments.map((segment, index) => {
+              // Find if current time is within this segment
+              const currentTime = audioRef.current?.currentTime || 0;
+              const isCurrentSegment =
+                isPlaying &&
+                currentTime >= segment.start &&
+                currentTime <= segment.end;
+              const isLowConfidence = segment.confidence?.level === "low";
+
+              return (
+                <Fragment key={index}>
+                  {dictatedBreaks(segmentMarkers.get(index))}
+                  {speakerLabel(
+                    segment.speaker,
+                    result.segments?.[index - 1]?.speaker
+                  )}
+                  <span
+                    className={cn(
+                      "cursor-pointer px-1 transition-all duration-200",
+                      speakerColor(speakers, segment.speaker)?.text,
+                      isCurrentSegment
+                        ? "underline font-bold text-blue-600"
+                        : "hover:bg-blue-50 rounded",
+                      isLowConfidence &&
+                        "bg-amber-50 decoration-amber-500 decoration-wavy underline"
+                    )}
+                    onClick={() => seek(segment.start)}
+                    title={`${segment.start.toFixed(
+                      1
+                    )}s - ${segment.end.toFixed(1)}s${
+                      isLowConfidence ? ` - ${LOW_CONFIDENCE_TITLE}` : ""
+                    }`}
+                  >
+                    {segment.text}
+                    {index < (result.segments?.length || 0) - 1 && " "}
+                  </span>
+                </Fragment>
+              );
+            })}
+            <div className="mt-2 text-xs text-blue-600 flex items-center gap-1">
+              <div className="h-2 w-2 rounded-full bg-blue-400"></div>
+              Segment-level sync active - Current phrase appears bold and
+              underlined
+            </div>
+          </div>
+        ) : (
+          /* Plain text fallback */
+          <p className="text-sm leading-relaxed text-gray-800">{result.text}</p>
+        )}
+      </div>
+      {result.metadata && (
+        <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-gray-500">
+          <span className="flex items-center gap-1">
+            <div className="h-2 w-2 rounded-full bg-green-400"></div>
+            Medical Context Enabled
+          </span>
+          <span>•</span>
+          <span>
+            Confidence: {result.metadata.confidence}
+            {result.metadata.confidenceScore !== undefined &&
+              ` (${Math.round(result.metadata.confidenceScore * 100)}%)`}
+          </span>
+          {result.metadata.deidentification && (
+            <>
+              <span>•</span>
+              <span className="flex items-center gap-1">
+                <div className="h-2 w-2 rounded-full bg-gray-400"></div>
+                {result.phi?.length ?? 0} identifiers{" "}
+                {result.metadata.deidentification === "redact"
+                  ? "redacted"
+                  : "pseudonymized"}
+              </span>
+            </>
+          )}
+          {!!result.voiceCommands?.length && (
+            <>
+              <span>•</span>
+              <span>
+                {result.voiceCommands.length} voice{" "}
+                {result.voiceCommands.length === 1 ? "command" : "commands"}{" "}
+                applied
+              </span>
+            </>
+          )}
+          {!!result.metadata.lowConfidenceSegments && (
+            <>
+              <span>•</span>
+              <span className="flex items-center gap-1 text-amber-600">
+                <div className="h-2 w-2 rounded-full bg-amber-400"></div>
+                {result.metadata.lowConfidenceSegments} low-confidence{" "}
+                {result.metadata.lowConfidenceSegments === 1
+                  ? "segment"
+                  : "segments"}{" "}
+                to review
+              </span>
+            </>
+          )}
+        </div>
+      )}
+    </>
+  );
+}
@@ -0,0 +1,150 @@
+"use client";
+
+import { roleLabel } from "@/lib/auth/roles";
+import { fetchUsage } from "@/lib/usage/client";
+import type { UsageReport } from "@/lib/usage/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface UsageDashboardProps {
+  className?: string;
+}
+
+const currency = new Intl.NumberFormat(undefined, {
+  style: "currency",
+  currency: "USD",
+  minimumFractionDigits: 2,
+  maximumFractionDigits: 4,
+});
+
+const monthFormat = new Intl.DateTimeFormat(undefined, {
+  month: "long",
+  year: "numeric",
+  timeZone: "UTC",
+});
+
+const formatMinutes = (seconds: number) => (seconds / 60).toFixed(1);
+
+// Transcription minutes and their estimated cost per user and API key
+export default function UsageDashboard({ className }: UsageDashboardProps) {
+  const [month, setMonth] = useState<string | undefined>(undefined);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsage(month)
+      .then((response) => {
+        setReport(response);
+        setError(null);
+      })
+      .catch((error) => setError(error.message));
+  }, [month]);
+
+  const totalSeconds =
+    report?.entries.reduce((sum, entry) => sum + entry.seconds, 0) ?? 0;
+  const totalRequests =
+    report?.entries.reduce((sum, entry) => sum + entry.requests, 0) ?? 0;
+  const cost = (seconds: number) =>
+    currency.format((seconds / 60) * (report?.costPerMinute ?? 0));
+  const hasQuota = !!report && report.quotaMinutes > 0;
+
+  return (
+    <div className={cn("space-y-4 text-left", className)}>
+      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500">
+        <select
+          value={report?.month ?? ""}
+          onChange={(e) => setMonth(e.target.value)}
+          className="rounded-lg border-gray-200 py-1 text-sm"
+        >
+          {report?.months.map((value) => (
+            <option key={value} value={value}>
+              {monthFormat.format(new Date(`${value}-01T00:00:00Z`))}
+            </option>
+          ))}
+        </select>
+        {report && (
+          <span>
+            {hasQuota
+              ? `Quota: ${report.quotaMinutes} minutes per user a month`
+              : "No monthly quota"}{" "}
+            · Estimated at {currency.format(report.costPerMinute)} a minute
+          </span>
+        )}
+      </div>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+        <table className="w-full text-xs">
+          <thead className="bg-gray-50 text-gray-500">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">User</th>
+              <th className="px-3 py-2 text-right font-medium">
+                Transcriptions
+              </th>
+              <th className="px-3 py-2 text-right font-medium">Minutes</th>
+              <th className="px-3 py-2 text-right font-medium">
+                Estimated cost
+              </th>
+              {hasQuota && (
+                <th className="px-3 py-2 text-right font-medium">
+                  Minutes left
+                </th>
+              )}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {report?.entries.map((entry) => {
+              const left = report.quotaMinutes - entry.seconds / 60;
+              return (
+                <tr key={entry.user.id}>
+                  <td className="px-3 py-2">
+                    {entry.user.name}
+                    <span className="block text-gray-400">
+                      {roleLabel(entry.user.role)}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-right">{entry.requests}</td>
+                  <td className="px-3 py-2 text-right">
+                    {formatMinutes(entry.seconds)}
+                  </td>
+                  <td className="px-3 py-2 text-right">
+                    {cost(entry.seconds)}
+                  </td>
+                  {hasQuota && (
+                    <td
+                      className={cn(
+                        "px-3 py-2 text-right",
+                        left <= 0 && "text-red-600"
+                      )}
+                    >
+                      {Math.max(0, left).toFixed(1)}
+                    </td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+          {!!report?.entries.length && (
+            <tfoot className="border-t border-gray-200 font-medium">
+              <tr>
+                <td className="px-3 py-2">Total</td>
+                <td className="px-3 py-2 text-right">{totalRequests}</td>
+                <td className="px-3 py-2 text-right">
+                  {formatMinutes(totalSeconds)}
+                </td>
+                <td className="px-3 py-2 text-right">{cost(totalSeconds)}</td>
+                {hasQuota && <td />}
+              </tr>
+            </tfoot>
+          )}
+        </table>
+        {report?.entries.length === 0 && (
+          <p className="p-4 text-center text-sm text-gray-500">
+            Nothing was transcribed this month.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
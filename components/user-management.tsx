@@ -0,0 +1,240 @@
+"use client";
+
+import {
+  createUser,
+  deleteUser,
+  fetchUsers,
+  updateUser,
+} from "@/lib/auth/client";
+import { ROLES } from "@/lib/auth/roles";
+import type { PublicUser, Role } from "@/lib/auth/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState, type FormEvent } from "react";
+
+interface UserManagementProps {
+  className?: string;
+}
+
+const EMPTY_DRAFT = {
+  username: "",
+  name: "",
+  role: "clinician" as Role,
+  password: "",
+};
+
+export default function UserManagement({ className }: UserManagementProps) {
+  const [users, setUsers] = useState<PublicUser[]>([]);
+  const [draft, setDraft] = useState(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchUsers()
+      .then(setUsers)
+      .catch((error) => setError(error.message));
+  }, []);
+
+  const replace = (user: PublicUser) =>
+    setUsers((previous) =>
+      previous.map((item) => (item.id === user.id ? user : item))
+    );
+
+  // Run a change and show what went wrong, if anything
+  const attempt = async (change: () => Promise<void>) => {
+    setError(null);
+    try {
+      await change();
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "The change failed");
+    }
+  };
+
+  const handleCreate = async (event: FormEvent) => {
+    event.preventDefault();
+    setIsSaving(true);
+    await attempt(async () => {
+      const user = await createUser(draft);
+      setUsers((previous) => [...previous, user]);
+      setDraft(EMPTY_DRAFT);
+    });
+    setIsSaving(false);
+  };
+
+  const handleResetPassword = (user: PublicUser) => {
+    const password = prompt(`New password for ${user.username}`);
+    if (!password) return;
+    attempt(async () => replace(await updateUser(user.id, { password })));
+  };
+
+  const handlePractitionerId = (user: PublicUser) => {
+    const practitionerId = prompt(
+      `EHR Practitioner ID for ${user.username} (empty to remove)`,
+      user.practitionerId ?? ""
+    );
+    if (practitionerId === null) return;
+    attempt(async () => replace(await updateUser(user.id, { practitionerId })));
+  };
+
+  const handleDelete = (user: PublicUser) => {
+    if (!confirm(`Delete the account ${user.username}?`)) return;
+    attempt(async () => {
+      await deleteUser(user.id);
+      setUsers((previous) => previous.filter((item) => item.id !== user.id));
+    });
+  };
+
+  return (
+    <div className={cn("space-y-6 text-left", className)}>
+      <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-xs text-gray-500">
+            <tr>
+              <th className="px-3 py-2 text-left font-medium">Name</th>
+              <th className="px-3 py-2 text-left font-medium">Username</th>
+              <th className="px-3 py-2 text-left font-medium">Role</th>
+              <th className="px-3 py-2 text-left font-medium">Sign-in</th>
+              <th className="px-3 py-2 text-left font-medium">
+                Practitioner ID
+              </th>
+              <th className="px-3 py-2" />
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-100">
+            {users.map((user) => (
+              <tr
+                key={user.id}
+                className={cn(user.disabled && "text-gray-400")}
+              >
+                <td className="px-3 py-2">{user.name}</td>
+                <td className="px-3 py-2">{user.username}</td>
+                <td className="px-3 py-2">
+                  <select
+                    value={user.role}
+                    onChange={(e) =>
+                      attempt(async () =>
+                        replace(
+                          await updateUser(user.id, {
+                            role: e.target.value as Role,
+                          })
+                        )
+                      )
+                    }
+                    className="rounded-lg border-gray-200 py-1 text-sm"
+                  >
+                    {ROLES.map(({ id, label }) => (
+                      <option key={id} value={id}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-3 py-2 text-xs text-gray-500">
+                  {[
+                    user.hasPassword && "Password",
+                    user.oidcSubject && "Single sign-on",
+                  ]
+                    .filter(Boolean)
+                    .join(", ")}
+                </td>
+                <td className="px-3 py-2 text-xs text-gray-500">
+                  {user.practitionerId}
+                </td>
+                <td className="px-3 py-2">
+                  <div className="flex justify-end gap-1 text-xs">
+                    <button
+                      onClick={() =>
+                        attempt(async () =>
+                          replace(
+                            await updateUser(user.id, {
+                              disabled: !user.disabled,
+                            })
+                          )
+                        )
+                      }
+                      className="rounded-full px-2 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+                    >
+                      {user.disabled ? "Enable" : "Disable"}
+                    </button>
+                    <button
+                      onClick={() => handleResetPassword(user)}
+                      className="rounded-full px-2 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+                    >
+                      Set password
+                    </button>
+                    <button
+                      onClick={() => handlePractitionerId(user)}
+                      className="rounded-full px-2 py-1 font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+                    >
+                      Set Practitioner ID
+                    </button>
+                    <button
+                      onClick={() => handleDelete(user)}
+                      className="rounded-full px-2 py-1 font-medium text-red-600 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <form
+        onSubmit={handleCreate}
+        className="rounded-xl border border-gray-200 bg-white p-4"
+      >
+        <h2 className="mb-3 text-sm font-medium text-gray-900">Add a user</h2>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            value={draft.username}
+            onChange={(e) => setDraft({ ...draft, username: e.target.value })}
+            placeholder="Username"
+            required
+            className="rounded-lg border-gray-200 text-sm"
+          />
+          <input
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="Full name"
+            className="rounded-lg border-gray-200 text-sm"
+          />
+          <select
+            value={draft.role}
+            onChange={(e) =>
+              setDraft({ ...draft, role: e.target.value as Role })
+            }
+            className="rounded-lg border-gray-200 text-sm"
+          >
+            {ROLES.map(({ id, label }) => (
+              <option key={id} value={id}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            type="password"
+            value={draft.password}
+            onChange={(e) => setDraft({ ...draft, password: e.target.value })}
+            placeholder="Initial password"
+            autoComplete="new-password"
+            required
+            className="rounded-lg border-gray-200 text-sm"
+          />
+        </div>
+        <div className="mt-3 flex justify-end">
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="rounded-full bg-gray-900 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-gray-800 disabled:opacity-50"
+          >
+            {isSaving ? "Adding..." : "Add user"}
+          </button>
+        </div>
+      </form>
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
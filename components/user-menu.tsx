@@ -0,0 +1,63 @@
+"use client";
+
+import { signOut } from "@/lib/auth/client";
+import { can, roleLabel } from "@/lib/auth/roles";
+import type { SessionUser } from "@/lib/auth/types";
+import { cn } from "@/lib/utils";
+import Link from "next/link";
+
+interface UserMenuProps {
+  user: SessionUser;
+  className?: string;
+}
+
+export default function UserMenu({ user, className }: UserMenuProps) {
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } finally {
+      window.location.assign("/login");
+    }
+  };
+
+  return (
+    <div className={cn("flex items-center gap-3 text-sm", className)}>
+      <span className="text-gray-900">
+        {user.name}
+        <span className="ml-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">
+          {roleLabel(user.role)}
+        </span>
+      </span>
+      {can(user.role, "users:manage") && (
+        <Link
+          href="/admin/users"
+          className="text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          Users
+        </Link>
+      )}
+      {can(user.role, "audit:read") && (
+        <Link
+          href="/admin/audit"
+          className="text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          Audit log
+        </Link>
+      )}
+      {can(user.role, "usage:read") && (
+        <Link
+          href="/admin/usage"
+          className="text-xs font-medium text-gray-600 hover:text-gray-900"
+        >
+          Usage
+        </Link>
+      )}
+      <button
+        onClick={handleSignOut}
+        className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100 hover:text-gray-900"
+      >
+        Sign out
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,220 @@
+"use client";
+
+import {
+  createTermList,
+  deleteTermList,
+  fetchVocabularyOptions,
+  updateTermList,
+} from "@/lib/vocabulary/client";
+import { cn } from "@/lib/utils";
+import type { SpecialtyId, VocabularyOptions } from "@/lib/vocabulary/types";
+import { useEffect, useState } from "react";
+
+// Shown until the server's list arrives
+const FALLBACK_SPECIALTIES: VocabularyOptions["specialties"] = [
+  { id: "general", label: "General practice", termCount: 0 },
+];
+
+interface VocabularySettingsProps {
+  specialty: SpecialtyId;
+  termListId?: string;
+  onSpecialtyChange: (specialty: SpecialtyId) => void;
+  onTermListChange: (termListId?: string) => void;
+  className?: string;
+}
+
+export default function VocabularySettings({
+  specialty,
+  termListId,
+  onSpecialtyChange,
+  onTermListChange,
+  className,
+}: VocabularySettingsProps) {
+  const [options, setOptions] = useState<VocabularyOptions | null>(null);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draftName, setDraftName] = useState("");
+  const [draftTerms, setDraftTerms] = useState("");
+  const [draftShared, setDraftShared] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedList = options?.termLists.find(
+    (list) => list.id === termListId
+  );
+
+  useEffect(() => {
+    fetchVocabularyOptions()
+      .then(setOptions)
+      .catch((error) => {
+        console.error("Vocabulary load error:", error);
+        setError("Could not load vocabulary lists");
+      });
+  }, []);
+
+  const startEditing = () => {
+    setDraftName(selectedList?.name ?? "");
+    setDraftTerms(selectedList?.terms.join("\n") ?? "");
+    setDraftShared(false);
+    setError(null);
+    setIsEditing(true);
+  };
+
+  const handleSave = async () => {
+    const terms = draftTerms.split(/\n|,/).map((term) => term.trim());
+    setIsSaving(true);
+
+    try {
+      const list = selectedList
+        ? await updateTermList(selectedList.id, draftName, terms)
+        : await createTermList(draftName, terms, draftShared);
+
+      setOptions((previous) =>
+        previous
+          ? {
+              ...previous,
+              termLists: [
+                ...previous.termLists.filter((item) => item.id !== list.id),
+                list,
+              ],
+            }
+          : previous
+      );
+      onTermListChange(list.id);
+      setIsEditing(false);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Failed to save list");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedList) return;
+    setIsSaving(true);
+
+    try {
+      await deleteTermList(selectedList.id);
+      setOptions((previous) =>
+        previous
+          ? {
+              ...previous,
+              termLists: previous.termLists.filter(
+                (item) => item.id !== selectedList.id
+              ),
+            }
+          : previous
+      );
+      onTermListChange(undefined);
+      setIsEditing(false);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to delete list"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <div className="flex flex-wrap items-center gap-2">
+        <label className="flex flex-1 items-center gap-2 text-xs text-gray-500">
+          Specialty
+          <select
+            value={specialty}
+            onChange={(e) => onSpecialtyChange(e.target.value as SpecialtyId)}
+            className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+          >
+            {(options?.specialties ?? FALLBACK_SPECIALTIES).map((item) => (
+              <option key={item.id} value={item.id}>
+                {item.label}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-1 items-center gap-2 text-xs text-gray-500">
+          Terms
+          <select
+            value={termListId ?? ""}
+            onChange={(e) => {
+              onTermListChange(e.target.value || undefined);
+              setIsEditing(false);
+            }}
+            className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+          >
+            <option value="">No custom list</option>
+            {options?.termLists.map((list) => (
+              <option key={list.id} value={list.id}>
+                {list.name} ({list.terms.length})
+                {list.ownerId ? "" : " · clinic"}
+              </option>
+            ))}
+          </select>
+        </label>
+        {/* Clinic-wide lists are only changed by administrators */}
+        {(!selectedList || selectedList.editable) && (
+          <button
+            onClick={() => (isEditing ? setIsEditing(false) : startEditing())}
+            className="rounded-full px-3 py-1 text-xs font-medium text-gray-600 transition-colors hover:bg-gray-100 hover:text-gray-900"
+          >
+            {isEditing ? "Close" : selectedList ? "Edit list" : "New list"}
+          </button>
+        )}
+      </div>
+
+      {isEditing && (
+        <div className="mt-3 space-y-2">
+          <input
+            value={draftName}
+            onChange={(e) => setDraftName(e.target.value)}
+            placeholder="List name, e.g. Cardiology clinic"
+            className="w-full rounded-lg border-gray-200 text-sm"
+          />
+          <textarea
+            value={draftTerms}
+            onChange={(e) => setDraftTerms(e.target.value)}
+            placeholder="One term per line: drug names, procedures, colleague names..."
+            rows={5}
+            className="w-full rounded-lg border-gray-200 text-sm"
+          />
+          {!selectedList && options?.canShare && (
+            <label className="flex items-center gap-2 text-xs text-gray-500">
+              <input
+                type="checkbox"
+                checked={draftShared}
+                onChange={(e) => setDraftShared(e.target.checked)}
+                className="rounded border-gray-300"
+              />
+              Share with the whole clinic
+            </label>
+          )}
+          <div className="flex items-center justify-end gap-2">
+            {selectedList && (
+              <button
+                onClick={handleDelete}
+                disabled={isSaving}
+                className="rounded-full px-3 py-1 text-xs font-medium text-red-600 transition-colors hover:bg-red-50"
+              >
+                Delete
+              </button>
+            )}
+            <button
+              onClick={handleSave}
+              disabled={isSaving || !draftName.trim()}
+              className="rounded-full bg-gray-900 px-4 py-1.5 text-xs font-medium text-white transition-colors hover:bg-gray-800 disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : "Save list"}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
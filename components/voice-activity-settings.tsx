@@ -0,0 +1,159 @@
+"use client";
+
+import {
+  getVoiceActivitySettings,
+  setVoiceActivitySettings,
+} from "@/lib/recording/settings";
+import {
+  DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  keyLabel,
+  type Sensitivity,
+  type VoiceActivitySettings as Settings,
+} from "@/lib/recording/voice-activity";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface VoiceActivitySettingsProps {
+  onSettingsChange: (settings: Settings) => void;
+  className?: string;
+}
+
+export default function VoiceActivitySettings({
+  onSettingsChange,
+  className,
+}: VoiceActivitySettingsProps) {
+  const [settings, setSettings] = useState<Settings>(
+    DEFAULT_VOICE_ACTIVITY_SETTINGS
+  );
+  const [isCapturingKey, setIsCapturingKey] = useState(false);
+
+  // Stored per browser, like the voice commands
+  useEffect(() => {
+    const stored = getVoiceActivitySettings();
+    setSettings(stored);
+    onSettingsChange(stored);
+  }, [onSettingsChange]);
+
+  // The next key pressed, e.g. the one a foot pedal sends, becomes the
+  // push-to-talk key; Escape cancels
+  useEffect(() => {
+    if (!isCapturingKey) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      event.preventDefault();
+      setIsCapturingKey(false);
+      if (event.code === "Escape") return;
+
+      const next = { ...settings, pushToTalkKey: event.code };
+      setSettings(next);
+      setVoiceActivitySettings(next);
+      onSettingsChange(next);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isCapturingKey, settings, onSettingsChange]);
+
+  const update = (next: Settings) => {
+    setSettings(next);
+    setVoiceActivitySettings(next);
+    onSettingsChange(next);
+  };
+
+  const secondsInput = (
+    key: "pauseAfterSeconds" | "stopAfterSeconds",
+    max: number
+  ) => (
+    <input
+      type="number"
+      min={0}
+      max={max}
+      value={settings[key]}
+      onChange={(e) =>
+        update({
+          ...settings,
+          [key]: Math.min(max, Math.max(0, Number(e.target.value) || 0)),
+        })
+      }
+      className="w-16 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+    />
+  );
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <label className="flex items-center gap-2 text-xs text-gray-500">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => update({ ...settings, enabled: e.target.checked })}
+          className="rounded border-gray-300"
+        />
+        Hands-free: pause while silent, leaving the silence out of the
+        recording, and stop when done
+      </label>
+
+      {settings.enabled && (
+        <div className="mt-3 space-y-2 text-xs text-gray-500">
+          <label className="flex items-center gap-2">
+            Pause after {secondsInput("pauseAfterSeconds", 60)} s of silence
+          </label>
+          <label className="flex items-center gap-2">
+            Stop after {secondsInput("stopAfterSeconds", 600)} s of silence
+          </label>
+          <label className="flex items-center gap-2">
+            Speech detection
+            <select
+              value={settings.sensitivity}
+              onChange={(e) =>
+                update({
+                  ...settings,
+                  sensitivity: e.target.value as Sensitivity,
+                })
+              }
+              className="rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+            >
+              <option value="low">Less sensitive (noisy room)</option>
+              <option value="normal">Normal</option>
+              <option value="high">More sensitive (quiet voice)</option>
+            </select>
+          </label>
+        </div>
+      )}
+
+      <div className="mt-2 flex items-center gap-2 text-xs text-gray-500">
+        Push-to-talk key:
+        {isCapturingKey ? (
+          <span className="text-gray-900">Press a key or pedal...</span>
+        ) : (
+          <>
+            <span className="text-gray-900">
+              {settings.pushToTalkKey
+                ? keyLabel(settings.pushToTalkKey)
+                : "None"}
+            </span>
+            <button
+              onClick={() => setIsCapturingKey(true)}
+              className="underline hover:text-gray-900"
+            >
+              {settings.pushToTalkKey ? "Change" : "Set"}
+            </button>
+            {settings.pushToTalkKey && (
+              <button
+                onClick={() =>
+                  update({ ...settings, pushToTalkKey: undefined })
+                }
+                className="underline hover:text-gray-900"
+              >
+                Clear
+              </button>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+"use client";
+
+import {
+  COMMAND_ACTIONS,
+  DEFAULT_COMMAND_GRAMMAR,
+} from "@/lib/commands/grammar";
+import {
+  getVoiceCommandSettings,
+  setVoiceCommandSettings,
+  type VoiceCommandSettings as Settings,
+} from "@/lib/commands/settings";
+import {
+  COMMAND_LABELS,
+  type CommandAction,
+  type CommandGrammar,
+} from "@/lib/commands/types";
+import { cn } from "@/lib/utils";
+import { useEffect, useState } from "react";
+
+interface VoiceCommandSettingsProps {
+  // The grammar to apply, or undefined while voice commands are off
+  onGrammarChange: (grammar?: CommandGrammar) => void;
+  className?: string;
+}
+
+const splitPhrases = (value: string) =>
+  value
+    .split(",")
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+
+export default function VoiceCommandSettings({
+  onGrammarChange,
+  className,
+}: VoiceCommandSettingsProps) {
+  const [settings, setSettings] = useState<Settings>({
+    enabled: false,
+    grammar: DEFAULT_COMMAND_GRAMMAR,
+  });
+  const [isCustomizing, setIsCustomizing] = useState(false);
+
+  // Stored per browser, like the history retention
+  useEffect(() => {
+    const stored = getVoiceCommandSettings();
+    setSettings(stored);
+    onGrammarChange(stored.enabled ? stored.grammar : undefined);
+  }, [onGrammarChange]);
+
+  const update = (next: Settings) => {
+    setSettings(next);
+    setVoiceCommandSettings(next);
+    onGrammarChange(next.enabled ? next.grammar : undefined);
+  };
+
+  const updatePhrases = (action: CommandAction, value: string) =>
+    update({
+      ...settings,
+      grammar: {
+        ...settings.grammar,
+        commands: {
+          ...settings.grammar.commands,
+          [action]: splitPhrases(value),
+        },
+      },
+    });
+
+  return (
+    <div
+      className={cn(
+        "rounded-xl border border-gray-200 bg-white p-3 text-left",
+        className
+      )}
+    >
+      <div className="flex items-center justify-between gap-2">
+        <label className="flex items-center gap-2 text-xs text-gray-500">
+          <input
+            type="checkbox"
+            checked={settings.enabled}
+            onChange={(e) => update({ ...settings, enabled: e.target.checked })}
+            className="rounded border-gray-300"
+          />
+          Voice commands: say &quot;full stop&quot;, &quot;new paragraph&quot;,
+          &quot;next section plan&quot;...
+        </label>
+        {settings.enabled && (
+          <button
+            onClick={() => setIsCustomizing(!isCustomizing)}
+            className="text-xs text-gray-500 underline hover:text-gray-900"
+          >
+            {isCustomizing ? "Done" : "Customize"}
+          </button>
+        )}
+      </div>
+
+      {settings.enabled && isCustomizing && (
+        <div className="mt-3 space-y-2">
+          <p className="text-xs text-gray-400">Phrases separated by commas.</p>
+          {COMMAND_ACTIONS.map((action) => (
+            <label
+              key={action}
+              className="flex items-center gap-2 text-xs text-gray-500"
+            >
+              <span className="w-40 shrink-0">{COMMAND_LABELS[action]}</span>
+              <input
+                // Remount with the stored value after a reset
+                key={settings.grammar.commands[action].join(",")}
+                defaultValue={settings.grammar.commands[action].join(", ")}
+                onBlur={(e) => updatePhrases(action, e.target.value)}
+                className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+              />
+            </label>
+          ))}
+          <label className="flex items-center gap-2 text-xs text-gray-500">
+            <span className="w-40 shrink-0">Section names</span>
+            <input
+              key={settings.grammar.sections.join(",")}
+              defaultValue={settings.grammar.sections.join(", ")}
+              onBlur={(e) =>
+                update({
+                  ...settings,
+                  grammar: {
+                    ...settings.grammar,
+                    sections: splitPhrases(e.target.value),
+                  },
+                })
+              }
+              className="flex-1 rounded-lg border-gray-200 py-1 text-sm text-gray-900"
+            />
+          </label>
+          <button
+            onClick={() =>
+              update({ ...settings, grammar: DEFAULT_COMMAND_GRAMMAR })
+            }
+            className="text-xs text-gray-500 underline hover:text-gray-900"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
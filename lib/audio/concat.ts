@@ -0,0 +1,43 @@
+import { decodeAudio } from "@/lib/audio/silence";
+import { encodeWav, fromAudioBuffer } from "@/lib/audio/wav";
+
+// Join recordings one after the other as a single WAV. Files made by
+// separate MediaRecorder runs cannot simply be concatenated byte-wise, as
+// each starts with its own header.
+export async function concatenateAudio(files: Blob[]): Promise<Blob> {
+  const decoded = [];
+  for (const file of files) {
+    try {
+      const audio = fromAudioBuffer(await decodeAudio(file));
+      if (audio.channels[0]?.length) decoded.push(audio);
+    } catch (error) {
+      // Keep what can be played, e.g. when the last part was cut short
+      console.error("Audio decode error:", error);
+    }
+  }
+  if (decoded.length === 0) throw new Error("The audio could not be decoded");
+
+  const channelCount = Math.max(
+    ...decoded.map((audio) => audio.channels.length)
+  );
+  const length = decoded.reduce(
+    (sum, audio) => sum + audio.channels[0].length,
+    0
+  );
+  const channels = Array.from(
+    { length: channelCount },
+    () => new Float32Array(length)
+  );
+
+  let offset = 0;
+  for (const audio of decoded) {
+    const frames = audio.channels[0].length;
+    channels.forEach((channel, index) =>
+      // A mono part is copied to every channel
+      channel.set(audio.channels[index] ?? audio.channels[0], offset)
+    );
+    offset += frames;
+  }
+
+  return encodeWav({ sampleRate: decoded[0].sampleRate, channels });
+}
@@ -0,0 +1,218 @@
+import type { PcmAudio } from "@/lib/audio/wav";
+
+// Opus always counts time in 48kHz samples, whatever rate went in
+const GRANULE_RATE = 48000;
+// The encoder's lookahead at 48kHz, used when it does not report its own
+const DEFAULT_PRE_SKIP = 312;
+// About a second of 20ms packets per page
+const PACKETS_PER_PAGE = 50;
+const MAX_SEGMENTS = 255;
+
+interface EncodedPacket {
+  data: Uint8Array;
+  samples: number; // At 48kHz
+}
+
+// Whether this browser can encode Opus with WebCodecs and play back the
+// Ogg file it is stored in
+export async function canEncodeOggOpus(
+  sampleRate: number,
+  bitrate: number
+): Promise<boolean> {
+  if (typeof AudioEncoder === "undefined") return false;
+  if (!new Audio().canPlayType('audio/ogg; codecs="opus"')) return false;
+
+  try {
+    const { supported } = await AudioEncoder.isConfigSupported({
+      codec: "opus",
+      sampleRate,
+      numberOfChannels: 1,
+      bitrate,
+    });
+    return !!supported;
+  } catch {
+    return false;
+  }
+}
+
+// Opus in an Ogg file, as RFC 7845 lays it out: a page with the OpusHead
+// header, one with OpusTags, then the audio. The last page's granule
+// position marks where the audio ends, so the encoder's padding is not
+// played back.
+export async function encodeOggOpus(
+  { sampleRate, channels }: PcmAudio,
+  bitrate: number
+): Promise<Blob> {
+  const frames = channels[0]?.length ?? 0;
+  const packets: EncodedPacket[] = [];
+  let description: Uint8Array | undefined;
+  let failure: DOMException | undefined;
+
+  const encoder = new AudioEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      packets.push({
+        data,
+        samples: Math.round(((chunk.duration ?? 0) * GRANULE_RATE) / 1e6),
+      });
+      const header = metadata?.decoderConfig?.description;
+      if (header && !description) description = toBytes(header);
+    },
+    error: (error) => {
+      failure = error;
+    },
+  });
+
+  encoder.configure({
+    codec: "opus",
+    sampleRate,
+    numberOfChannels: channels.length,
+    bitrate,
+  });
+  const planar = new Float32Array(frames * channels.length);
+  channels.forEach((channel, index) => planar.set(channel, index * frames));
+  const input = new AudioData({
+    format: "f32-planar",
+    sampleRate,
+    numberOfFrames: frames,
+    numberOfChannels: channels.length,
+    timestamp: 0,
+    data: planar,
+  });
+  encoder.encode(input);
+  input.close();
+  await encoder.flush();
+  encoder.close();
+  if (failure) throw failure;
+
+  const preSkip = readPreSkip(description) ?? DEFAULT_PRE_SKIP;
+  const end = preSkip + Math.round((frames * GRANULE_RATE) / sampleRate);
+  const writer = new PageWriter();
+
+  writer.write([opusHead(channels.length, preSkip, sampleRate)], 0);
+  writer.write([opusTags()], 0);
+
+  let granule = preSkip;
+  for (let start = 0; start < packets.length; ) {
+    const page: Uint8Array[] = [];
+    let segments = 0;
+    while (
+      start < packets.length &&
+      page.length < PACKETS_PER_PAGE &&
+      segments + segmentCount(packets[start].data) <= MAX_SEGMENTS
+    ) {
+      segments += segmentCount(packets[start].data);
+      granule += packets[start].samples;
+      page.push(packets[start++].data);
+    }
+
+    const last = start === packets.length;
+    writer.write(page, last ? Math.min(granule, end) : granule, last);
+  }
+
+  return new Blob(writer.pages, { type: "audio/ogg" });
+}
+
+class PageWriter {
+  pages: Uint8Array<ArrayBuffer>[] = [];
+  private sequence = 0;
+  private serial = Math.floor(Math.random() * 0xffffffff);
+
+  write(packets: Uint8Array[], granule: number, last = false) {
+    const lacing = packets.flatMap((packet) => {
+      const values = new Array(segmentCount(packet) - 1).fill(255);
+      return [...values, packet.length % 255];
+    });
+    const bodySize = packets.reduce((size, packet) => size + packet.length, 0);
+    const page = new Uint8Array(27 + lacing.length + bodySize);
+    const view = new DataView(page.buffer);
+
+    page.set([0x4f, 0x67, 0x67, 0x53]); // "OggS"
+    view.setUint8(5, (this.sequence === 0 ? 0x02 : 0) | (last ? 0x04 : 0));
+    view.setBigUint64(6, BigInt(granule), true);
+    view.setUint32(14, this.serial, true);
+    view.setUint32(18, this.sequence++, true);
+    view.setUint8(26, lacing.length);
+    page.set(lacing, 27);
+
+    let offset = 27 + lacing.length;
+    for (const packet of packets) {
+      page.set(packet, offset);
+      offset += packet.length;
+    }
+    view.setUint32(22, crc32(page), true);
+    this.pages.push(page);
+  }
+}
+
+// A packet takes one lacing value per 255 bytes, plus one under 255 to
+// end it, which is 0 when the length is a multiple of 255
+function segmentCount(packet: Uint8Array) {
+  return Math.floor(packet.length / 255) + 1;
+}
+
+function opusHead(channels: number, preSkip: number, sampleRate: number) {
+  const header = new Uint8Array(19);
+  const view = new DataView(header.buffer);
+  header.set(new TextEncoder().encode("OpusHead"));
+  view.setUint8(8, 1); // Version
+  view.setUint8(9, channels);
+  view.setUint16(10, preSkip, true);
+  view.setUint32(12, sampleRate, true);
+  view.setInt16(16, 0, true); // Output gain
+  view.setUint8(18, 0); // Mono or stereo, no channel mapping table
+  return header;
+}
+
+function opusTags() {
+  const vendor = new TextEncoder().encode("Dictamed");
+  const tags = new Uint8Array(8 + 4 + vendor.length + 4);
+  const view = new DataView(tags.buffer);
+  tags.set(new TextEncoder().encode("OpusTags"));
+  view.setUint32(8, vendor.length, true);
+  tags.set(vendor, 12);
+  view.setUint32(12 + vendor.length, 0, true); // No comments
+  return tags;
+}
+
+// Encoders that report an OpusHead say how many samples they delay by
+function readPreSkip(description: Uint8Array | undefined) {
+  if (!description || description.length < 12) return undefined;
+  const magic = new TextDecoder().decode(description.subarray(0, 8));
+  if (magic !== "OpusHead") return undefined;
+  return new DataView(
+    description.buffer,
+    description.byteOffset,
+    description.byteLength
+  ).getUint16(10, true);
+}
+
+function toBytes(source: AllowSharedBufferSource) {
+  return ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source);
+}
+
+let crcTable: Uint32Array | undefined;
+
+// The CRC-32 Ogg uses: polynomial 0x04c11db7, not reflected, starting
+// from 0, taken with the checksum field zeroed
+function crc32(bytes: Uint8Array) {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let i = 0; i < 256; i++) {
+      let value = i << 24;
+      for (let bit = 0; bit < 8; bit++) {
+        value = value & 0x80000000 ? (value << 1) ^ 0x04c11db7 : value << 1;
+      }
+      crcTable[i] = value >>> 0;
+    }
+  }
+
+  let crc = 0;
+  for (const byte of bytes) {
+    crc = ((crc << 8) ^ crcTable[((crc >>> 24) ^ byte) & 0xff]) >>> 0;
+  }
+  return crc;
+}
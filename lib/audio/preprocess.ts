@@ -0,0 +1,159 @@
+import { canEncodeOggOpus, encodeOggOpus } from "@/lib/audio/ogg-opus";
+import { decodeAudio } from "@/lib/audio/silence";
+import { encodeWav, type PcmAudio } from "@/lib/audio/wav";
+
+// Whisper resamples to 16kHz itself, so nothing is lost sending it that
+const TARGET_SAMPLE_RATE = 16000;
+// Loudness measured in 20ms frames
+const FRAME_SECONDS = 0.02;
+// Frames this far below the loudest one count as silence
+const SILENCE_BELOW_PEAK_DB = 40;
+const SILENCE_FLOOR_DB = -60;
+// Kept around the speech so the first and last words are not clipped
+const TRIM_PADDING_SECONDS = 0.3;
+// Speech is brought to this RMS level, without the peaks clipping or
+// quiet recordings being boosted into hiss
+const TARGET_RMS_DB = -20;
+const MAX_PEAK = 0.95;
+const MAX_GAIN_DB = 20;
+// Opus at 24 kbit/s is about 3kB a second, a fifth of both 128 kbit/s MP3
+// and 16kHz mu-law WAV, and keeps what speech recognition needs
+const OPUS_BITRATE = 24_000;
+
+export interface PreprocessedAudio {
+  blob: Blob; // What to upload; the original if processing did not help
+  originalSize: number;
+  size: number;
+  trimmedStart: number; // Seconds of silence cut from the start
+  trimmedEnd: number;
+  gainDb: number;
+}
+
+// Mono, 16kHz, trimmed, loudness-normalized Ogg Opus, or mu-law WAV where
+// the browser cannot encode Opus. The transcript's timings refer to this
+// audio, so it should be played back instead of the original. Audio the
+// browser cannot decode, or that would not get smaller, is returned
+// unchanged.
+export async function preprocessAudio(blob: Blob): Promise<PreprocessedAudio> {
+  const unchanged = {
+    blob,
+    originalSize: blob.size,
+    size: blob.size,
+    trimmedStart: 0,
+    trimmedEnd: 0,
+    gainDb: 0,
+  };
+
+  let samples: Float32Array;
+  try {
+    samples = downmix(await decodeAudio(blob, TARGET_SAMPLE_RATE));
+  } catch (error) {
+    console.error("Audio preprocessing error:", error);
+    return unchanged;
+  }
+
+  const levels = frameLevels(samples);
+  const loudest = levels.reduce(
+    (max, level) => Math.max(max, level),
+    SILENCE_FLOOR_DB
+  );
+  const threshold = Math.max(SILENCE_FLOOR_DB, loudest - SILENCE_BELOW_PEAK_DB);
+  const first = levels.findIndex((level) => level > threshold);
+  // Nothing but silence: leave it to the server to say so
+  if (first < 0) return unchanged;
+  const last = levels.findLastIndex((level) => level > threshold);
+
+  const frame = Math.round(FRAME_SECONDS * TARGET_SAMPLE_RATE);
+  const padding = Math.round(TRIM_PADDING_SECONDS * TARGET_SAMPLE_RATE);
+  const from = Math.max(0, first * frame - padding);
+  const to = Math.min(samples.length, (last + 1) * frame + padding);
+  const speech = samples.slice(from, to);
+
+  const gainDb = normalizationGain(speech, levels, threshold);
+  const gain = Math.pow(10, gainDb / 20);
+  for (let i = 0; i < speech.length; i++) speech[i] *= gain;
+
+  const processed = await encode({
+    sampleRate: TARGET_SAMPLE_RATE,
+    channels: [speech],
+  });
+  if (processed.size >= blob.size) return unchanged;
+
+  return {
+    blob: processed,
+    originalSize: blob.size,
+    size: processed.size,
+    trimmedStart: from / TARGET_SAMPLE_RATE,
+    trimmedEnd: (samples.length - to) / TARGET_SAMPLE_RATE,
+    gainDb,
+  };
+}
+
+// The file to upload: providers go by the extension, so a processed copy
+// is named for its format
+export function preprocessedFile(file: File, { blob }: PreprocessedAudio) {
+  if (blob === file) return file;
+  const extension = blob.type === "audio/ogg" ? ".ogg" : ".wav";
+  return new File([blob], file.name.replace(/\.[^.]+$/, "") + extension, {
+    type: blob.type,
+  });
+}
+
+async function encode(audio: PcmAudio) {
+  if (await canEncodeOggOpus(audio.sampleRate, OPUS_BITRATE)) {
+    try {
+      return await encodeOggOpus(audio, OPUS_BITRATE);
+    } catch (error) {
+      console.error("Opus encoding error:", error);
+    }
+  }
+  return encodeWav(audio, "mulaw");
+}
+
+function downmix(buffer: AudioBuffer) {
+  const mono = new Float32Array(buffer.length);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const data = buffer.getChannelData(channel);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+}
+
+// RMS of each frame in dBFS
+function frameLevels(samples: Float32Array) {
+  const frame = Math.round(FRAME_SECONDS * TARGET_SAMPLE_RATE);
+  const levels: number[] = [];
+  for (let start = 0; start < samples.length; start += frame) {
+    const end = Math.min(start + frame, samples.length);
+    let sum = 0;
+    for (let i = start; i < end; i++) sum += samples[i] * samples[i];
+    levels.push(toDb(Math.sqrt(sum / (end - start))));
+  }
+  return levels;
+}
+
+// Gain in dB that brings the frames with speech to the target level
+function normalizationGain(
+  speech: Float32Array,
+  levels: number[],
+  threshold: number
+) {
+  const voiced = levels.filter((level) => level > threshold);
+  const power =
+    voiced.reduce((sum, level) => sum + Math.pow(10, level / 10), 0) /
+    voiced.length;
+  let peak = 0;
+  for (const sample of speech) peak = Math.max(peak, Math.abs(sample));
+
+  return Math.min(
+    TARGET_RMS_DB - 10 * Math.log10(power),
+    toDb(MAX_PEAK / peak),
+    MAX_GAIN_DB
+  );
+}
+
+function toDb(amplitude: number) {
+  return 20 * Math.log10(Math.max(amplitude, 1e-10));
+}
@@ -0,0 +1,11 @@
+const STORAGE_KEY = "dictamed:preprocess-audio";
+
+// Whether audio is compacted in the browser before it is uploaded
+export function getPreprocessAudio() {
+  if (typeof localStorage === "undefined") return true;
+  return localStorage.getItem(STORAGE_KEY) !== "false";
+}
+
+export function setPreprocessAudio(enabled: boolean) {
+  localStorage.setItem(STORAGE_KEY, String(enabled));
+}
@@ -0,0 +1,45 @@
+import { encodeWav, fromAudioBuffer } from "@/lib/audio/wav";
+
+// Rate the browser decodes to; high enough to keep speech natural
+const DECODE_SAMPLE_RATE = 48000;
+// Short ramps so the cut does not click
+const FADE_SECONDS = 0.01;
+
+export async function decodeAudio(blob: Blob, sampleRate = DECODE_SAMPLE_RATE) {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await blob.arrayBuffer());
+}
+
+// Copy of the audio as WAV with the given time ranges muted. Padding
+// covers word timestamps that start or end slightly late.
+export async function silenceRanges(
+  blob: Blob,
+  ranges: { start: number; end: number }[],
+  padding = 0.15
+): Promise<Blob> {
+  const audio = fromAudioBuffer(await decodeAudio(blob));
+  const fade = Math.round(FADE_SECONDS * audio.sampleRate);
+
+  for (const range of ranges) {
+    const from = Math.max(
+      0,
+      Math.floor((range.start - padding) * audio.sampleRate)
+    );
+    const to = Math.ceil((range.end + padding) * audio.sampleRate);
+
+    for (const samples of audio.channels) {
+      const end = Math.min(to, samples.length);
+      for (
+        let i = Math.max(0, from - fade);
+        i < Math.min(end + fade, samples.length);
+        i++
+      ) {
+        const gain =
+          i < from ? (from - i) / fade : i >= end ? (i - end) / fade : 0;
+        samples[i] *= Math.min(1, gain);
+      }
+    }
+  }
+
+  return encodeWav(audio);
+}
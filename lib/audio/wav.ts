@@ -0,0 +1,129 @@
+// Decoded audio as planar float samples in [-1, 1]
+export interface PcmAudio {
+  sampleRate: number;
+  channels: Float32Array[];
+}
+
+export function fromAudioBuffer(buffer: AudioBuffer): PcmAudio {
+  return {
+    sampleRate: buffer.sampleRate,
+    channels: Array.from({ length: buffer.numberOfChannels }, (_, channel) =>
+      buffer.getChannelData(channel)
+    ),
+  };
+}
+
+// 16-bit PCM, or 8-bit G.711 mu-law: half the size and still clear for
+// speech
+export type WavEncoding = "pcm16" | "mulaw";
+
+export function encodeWav(
+  { sampleRate, channels }: PcmAudio,
+  encoding: WavEncoding = "pcm16"
+): Blob {
+  const frames = channels[0]?.length ?? 0;
+  const bytesPerSample = encoding === "mulaw" ? 1 : 2;
+  const dataSize = frames * channels.length * bytesPerSample;
+  // Formats other than PCM also carry a fact chunk
+  const headerSize = encoding === "mulaw" ? 58 : 44;
+  const view = new DataView(new ArrayBuffer(headerSize + dataSize));
+
+  let offset = writeHeader(view, {
+    format: encoding === "mulaw" ? 7 : 1,
+    channels: channels.length,
+    sampleRate,
+    bitsPerSample: bytesPerSample * 8,
+    frames,
+    dataSize,
+  });
+
+  for (let frame = 0; frame < frames; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]));
+      if (encoding === "mulaw") {
+        view.setUint8(offset, muLaw(sample));
+      } else {
+        view.setInt16(
+          offset,
+          sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+          true
+        );
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view.buffer], { type: "audio/wav" });
+}
+
+// G.711 companding of a sample in [-1, 1]
+function muLaw(sample: number) {
+  const BIAS = 0x84;
+  const CLIP = 32635;
+
+  let value = Math.round(sample * 0x7fff);
+  const sign = value < 0 ? 0x80 : 0;
+  value = Math.min(Math.abs(value), CLIP) + BIAS;
+
+  let exponent = 7;
+  for (let mask = 0x4000; !(value & mask) && exponent > 0; mask >>= 1) {
+    exponent--;
+  }
+  const mantissa = (value >> (exponent + 3)) & 0x0f;
+  return ~(sign | (exponent << 4) | mantissa) & 0xff;
+}
+
+// Returns where the sample data starts
+function writeHeader(
+  view: DataView,
+  {
+    format,
+    channels,
+    sampleRate,
+    bitsPerSample,
+    frames,
+    dataSize,
+  }: {
+    format: number; // 1 = PCM, 7 = mu-law
+    channels: number;
+    sampleRate: number;
+    bitsPerSample: number;
+    frames: number;
+    dataSize: number;
+  }
+) {
+  const blockAlign = (channels * bitsPerSample) / 8;
+  const isPcm = format === 1;
+
+  writeAscii(view, 0, "RIFF");
+  writeAscii(view, 8, "WAVE");
+  writeAscii(view, 12, "fmt ");
+  view.setUint32(16, isPcm ? 16 : 18, true);
+  view.setUint16(20, format, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitsPerSample, true);
+
+  let offset = 36;
+  if (!isPcm) {
+    view.setUint16(offset, 0, true); // No format extension
+    writeAscii(view, offset + 2, "fact");
+    view.setUint32(offset + 6, 4, true);
+    view.setUint32(offset + 10, frames, true);
+    offset += 14;
+  }
+  writeAscii(view, offset, "data");
+  view.setUint32(offset + 4, dataSize, true);
+  offset += 8;
+
+  view.setUint32(4, offset - 8 + dataSize, true);
+  return offset;
+}
+
+function writeAscii(view: DataView, offset: number, text: string) {
+  for (let i = 0; i < text.length; i++) {
+    view.setUint8(offset + i, text.charCodeAt(i));
+  }
+}
@@ -0,0 +1,42 @@
+import type { AuditQueryResponse, ClientAuditAction } from "@/lib/audit/types";
+
+// Edits arrive with every keystroke; one event a minute per dictation is
+// enough to show who worked on it
+const EDIT_INTERVAL_MS = 60_000;
+const lastEdits = new Map<string, number>();
+
+// Report something done to a saved dictation. Fire and forget: auditing
+// must not hold up the user.
+export function recordAuditEvent(
+  action: ClientAuditAction,
+  dictationId?: string,
+  detail?: string
+) {
+  if (action === "dictation.edit" && dictationId) {
+    const last = lastEdits.get(dictationId) ?? 0;
+    if (Date.now() - last < EDIT_INTERVAL_MS) return;
+    lastEdits.set(dictationId, Date.now());
+  }
+
+  fetch("/api/audit", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      action,
+      resource: dictationId && `Dictation/${dictationId}`,
+      detail,
+    }),
+    keepalive: true,
+  }).catch((error) => console.error("Audit error:", error));
+}
+
+export async function fetchAuditEvents(
+  params: URLSearchParams
+): Promise<AuditQueryResponse> {
+  const response = await fetch(`/api/audit?${params}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Could not load the audit log");
+  }
+  return body;
+}
@@ -0,0 +1,35 @@
+import type { AuditEvent } from "@/lib/audit/types";
+
+const COLUMNS: [string, (event: AuditEvent) => unknown][] = [
+  ["seq", (event) => event.seq],
+  ["timestamp", (event) => event.timestamp],
+  ["actor_id", (event) => event.actor?.id],
+  ["actor_name", (event) => event.actor?.name],
+  ["actor_role", (event) => event.actor?.role],
+  ["action", (event) => event.action],
+  ["outcome", (event) => event.outcome],
+  ["resource", (event) => event.resource],
+  ["file_sha256", (event) => event.fileHash],
+  ["file_size", (event) => event.fileSize],
+  ["duration", (event) => event.duration],
+  ["detail", (event) => event.detail],
+  ["ip", (event) => event.ip],
+  ["prev_hash", (event) => event.prevHash],
+  ["hash", (event) => event.hash],
+];
+
+// One row per event, oldest first, for spreadsheets and compliance tools
+export function auditCsv(events: AuditEvent[]) {
+  const rows = events.map((event) =>
+    COLUMNS.map(([, value]) => csvField(value(event))).join(",")
+  );
+  return [COLUMNS.map(([name]) => name).join(","), ...rows].join("\r\n");
+}
+
+function csvField(value: unknown) {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  // A leading = + - @ would be run as a formula by spreadsheets
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
@@ -0,0 +1,230 @@
+import { createHash } from "crypto";
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { NextRequest } from "next/server";
+import path from "path";
+import type {
+  AuditEntry,
+  AuditEvent,
+  AuditQuery,
+  AuditVerification,
+} from "@/lib/audit/types";
+import { DATA_DIR } from "@/lib/data-store";
+import { logError } from "@/lib/logging";
+
+// One JSON event per line, only ever appended to
+const FILE_NAME = "audit.jsonl";
+const GENESIS_HASH = "0".repeat(64);
+const DEFAULT_LIMIT = 200;
+const MAX_LIMIT = 1000;
+
+// Appends are chained, so they go one at a time through a queue shared
+// by every route module. The log needs a single server process.
+const registry = globalThis as typeof globalThis & {
+  auditQueue?: Promise<unknown>;
+  // partialLine: the file ends without a newline, e.g. after a crash
+  // mid-append, so the next event has to start a line of its own
+  auditTail?: { seq: number; hash: string; partialLine?: boolean };
+};
+
+// The log as read from disk. Lines that are not events, cut short or
+// tampered with, are left out of `events` and listed by line number.
+export interface AuditLog {
+  events: AuditEvent[];
+  unreadableLines: number[];
+  partialLine: boolean;
+}
+
+// Record an event. Auditing never fails the request it describes; a
+// write error is logged instead.
+export async function recordAudit(
+  request: NextRequest,
+  entry: Omit<AuditEntry, "ip">
+) {
+  try {
+    await appendAuditEvent({ ...entry, ip: clientAddress(request) });
+  } catch (error) {
+    logError("Audit log error", error);
+  }
+}
+
+export function appendAuditEvent(entry: AuditEntry): Promise<AuditEvent> {
+  const append = (registry.auditQueue ?? Promise.resolve()).then(async () => {
+    const tail = (registry.auditTail ??= await readTail());
+    const unsigned = {
+      seq: tail.seq + 1,
+      timestamp: new Date().toISOString(),
+      ...entry,
+      prevHash: tail.hash,
+    };
+    const event: AuditEvent = { ...unsigned, hash: hashEvent(unsigned) };
+
+    await mkdir(DATA_DIR, { recursive: true });
+    await appendFile(
+      filePath(),
+      `${tail.partialLine ? "\n" : ""}${JSON.stringify(event)}\n`
+    );
+    registry.auditTail = { seq: event.seq, hash: event.hash };
+    return event;
+  });
+
+  // A failed append must not block the ones after it
+  registry.auditQueue = append.catch(() => {
+    registry.auditTail = undefined;
+  });
+  return append;
+}
+
+// Every readable event, oldest first. A damaged line does not stop the
+// rest from being read; verifyAuditChain reports it.
+export async function readAuditLog(): Promise<AuditLog> {
+  let text: string;
+  try {
+    text = await readFile(filePath(), "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return { events: [], unreadableLines: [], partialLine: false };
+    }
+    throw error;
+  }
+
+  const events: AuditEvent[] = [];
+  const unreadableLines: number[] = [];
+  text.split("\n").forEach((line, index) => {
+    if (!line) return;
+    const event = parseEvent(line);
+    if (event) events.push(event);
+    else unreadableLines.push(index + 1);
+  });
+  return {
+    events,
+    unreadableLines,
+    partialLine: text.length > 0 && !text.endsWith("\n"),
+  };
+}
+
+// Events matching the query, newest first
+export function queryAuditEvents(events: AuditEvent[], query: AuditQuery) {
+  const limit = Math.min(query.limit || DEFAULT_LIMIT, MAX_LIMIT);
+  return filterAuditEvents(events, query).reverse().slice(0, limit);
+}
+
+export function filterAuditEvents(events: AuditEvent[], query: AuditQuery) {
+  return events.filter(
+    (event) =>
+      (!query.actorId || event.actor?.id === query.actorId) &&
+      (!query.action ||
+        event.action === query.action ||
+        event.action.startsWith(`${query.action}.`)) &&
+      (!query.outcome || event.outcome === query.outcome) &&
+      (!query.from || event.timestamp >= query.from) &&
+      (!query.to || event.timestamp <= query.to)
+  );
+}
+
+// Walk the chain and report the first event that was altered, inserted
+// or removed, and any line that is not an event at all. Truncating the
+// end of the log is only noticed against a hash kept elsewhere, e.g.
+// from an earlier export.
+export function verifyAuditChain({
+  events,
+  unreadableLines,
+}: Pick<AuditLog, "events" | "unreadableLines">): AuditVerification {
+  const damaged = unreadableLines.length ? { unreadableLines } : {};
+  let previous = { seq: 0, hash: GENESIS_HASH };
+
+  for (const event of events) {
+    const { hash, ...unsigned } = event;
+    if (
+      event.seq !== previous.seq + 1 ||
+      event.prevHash !== previous.hash ||
+      hashEvent(unsigned) !== hash
+    ) {
+      return {
+        ok: false,
+        count: events.length,
+        brokenAt: event.seq,
+        ...damaged,
+      };
+    }
+    previous = { seq: event.seq, hash };
+  }
+  return { ok: !unreadableLines.length, count: events.length, ...damaged };
+}
+
+// Parse the filters of GET /api/audit and /api/audit/export
+export function parseAuditQuery(params: URLSearchParams): AuditQuery {
+  const outcome = params.get("outcome");
+  return {
+    actorId: params.get("actorId") || undefined,
+    action: params.get("action") || undefined,
+    outcome:
+      outcome === "success" || outcome === "failure" || outcome === "denied"
+        ? outcome
+        : undefined,
+    from: params.get("from") || undefined,
+    to: params.get("to") || undefined,
+    limit: Number(params.get("limit")) || undefined,
+  };
+}
+
+export function sha256Hex(data: ArrayBuffer | Buffer) {
+  return createHash("sha256")
+    .update(Buffer.isBuffer(data) ? data : Buffer.from(data))
+    .digest("hex");
+}
+
+function hashEvent(event: Omit<AuditEvent, "hash">) {
+  return createHash("sha256")
+    .update(event.prevHash)
+    .update(canonicalJson(event))
+    .digest("hex");
+}
+
+// JSON with sorted keys, so the hash does not depend on property order
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.entries(value)
+      .filter(([, item]) => item !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([key, item]) => `${JSON.stringify(key)}:${canonicalJson(item)}`)
+      .join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+// New events chain on to the last one that can be read
+async function readTail() {
+  const { events, partialLine } = await readAuditLog();
+  const last = events[events.length - 1];
+  return last
+    ? { seq: last.seq, hash: last.hash, partialLine }
+    : { seq: 0, hash: GENESIS_HASH, partialLine };
+}
+
+function parseEvent(line: string): AuditEvent | undefined {
+  try {
+    const event = JSON.parse(line);
+    return typeof event === "object" &&
+      event !== null &&
+      Number.isInteger(event.seq) &&
+      typeof event.hash === "string" &&
+      typeof event.prevHash === "string" &&
+      typeof event.action === "string" &&
+      typeof event.timestamp === "string"
+      ? event
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function clientAddress(request: NextRequest) {
+  return (
+    request.headers.get("x-forwarded-for")?.split(",")[0].trim() ||
+    request.headers.get("x-real-ip") ||
+    undefined
+  );
+}
+
+const filePath = () => path.join(DATA_DIR, FILE_NAME);
@@ -0,0 +1,77 @@
+import type { SessionUser } from "@/lib/auth/types";
+
+export type AuditOutcome = "success" | "failure" | "denied";
+
+// Events reported by the browser, where dictations are kept
+export type ClientAuditAction =
+  | "dictation.view"
+  | "dictation.edit"
+  | "dictation.export"
+  | "dictation.delete";
+
+export const CLIENT_AUDIT_ACTIONS: readonly ClientAuditAction[] = [
+  "dictation.view",
+  "dictation.edit",
+  "dictation.export",
+  "dictation.delete",
+];
+
+export type AuditAction =
+  | ClientAuditAction
+  | "transcribe"
+  | "transcribe.live"
+  | "notes.generate"
+  | "export.fhir"
+  | "auth.login"
+  | "auth.logout"
+  | "user.create"
+  | "user.update"
+  | "user.delete"
+  | "audit.view"
+  | "audit.export"
+  | "access";
+
+// What is recorded about a request; never transcript text or file names,
+// which may identify the patient
+export interface AuditEntry {
+  actor: SessionUser | null; // Null when nobody is signed in
+  action: AuditAction;
+  outcome: AuditOutcome;
+  resource?: string; // e.g. "Dictation/<id>", "Patient/<id>", "User/<id>"
+  fileHash?: string; // SHA-256 of the uploaded audio, hex
+  fileSize?: number;
+  duration?: number; // Seconds of audio
+  detail?: string; // Error code, export format, attempted username...
+  ip?: string;
+}
+
+// A line of the log. Each event's hash covers the previous event's hash,
+// so changing or removing an event breaks the chain from there on.
+export interface AuditEvent extends AuditEntry {
+  seq: number;
+  timestamp: string;
+  prevHash: string;
+  hash: string;
+}
+
+export interface AuditQuery {
+  actorId?: string;
+  action?: string;
+  outcome?: AuditOutcome;
+  from?: string; // ISO timestamps, inclusive
+  to?: string;
+  limit?: number;
+}
+
+export interface AuditVerification {
+  ok: boolean;
+  count: number; // Events checked
+  brokenAt?: number; // seq of the first event that does not chain
+  unreadableLines?: number[]; // Lines of the file that are not events
+}
+
+// Response body of GET /api/audit
+export interface AuditQueryResponse {
+  events: AuditEvent[]; // Newest first
+  verification: AuditVerification;
+}
@@ -0,0 +1,33 @@
+import { createHash, timingSafeEqual } from "crypto";
+import { isRole } from "@/lib/auth/roles";
+import type { SessionUser } from "@/lib/auth/types";
+
+// Scripts and other systems call the API with "Authorization: Bearer <key>".
+// Keys are configured as DICTAMED_API_KEYS="<name>:<role>:<key>,...", and
+// each is its own user for quotas and the audit log.
+export function findApiKey(
+  token: string,
+  env: NodeJS.ProcessEnv = process.env
+): SessionUser | undefined {
+  const presented = digest(token);
+
+  for (const entry of (env.DICTAMED_API_KEYS ?? "").split(",")) {
+    const [name, role, ...rest] = entry.trim().split(":");
+    const key = rest.join(":");
+    if (!name || !isRole(role) || !key) continue;
+
+    // Comparing digests keeps the comparison constant-time
+    if (timingSafeEqual(digest(key), presented)) {
+      return { id: `apikey:${name}`, name: `API key ${name}`, role };
+    }
+  }
+  return undefined;
+}
+
+// The token of an "Authorization: Bearer" header
+export function bearerToken(authorization: string | null) {
+  const match = authorization?.match(/^Bearer\s+(\S+)$/i);
+  return match?.[1];
+}
+
+const digest = (value: string) => createHash("sha256").update(value).digest();
@@ -0,0 +1,74 @@
+import type { PublicUser, Role, SessionUser } from "@/lib/auth/types";
+
+export async function fetchCurrentUser(): Promise<SessionUser> {
+  const response = await fetch("/api/auth/session");
+  return parseResponse(response);
+}
+
+export async function signIn(
+  username: string,
+  password: string
+): Promise<SessionUser> {
+  const response = await fetch("/api/auth/login", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ username, password }),
+  });
+  return parseResponse(response);
+}
+
+export async function signOut() {
+  await fetch("/api/auth/logout", { method: "POST" });
+}
+
+export async function fetchUsers(): Promise<PublicUser[]> {
+  const response = await fetch("/api/users");
+  return parseResponse(response);
+}
+
+export async function createUser(input: {
+  username: string;
+  name: string;
+  role: Role;
+  password: string;
+}): Promise<PublicUser> {
+  const response = await fetch("/api/users", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(input),
+  });
+  return parseResponse(response);
+}
+
+export async function updateUser(
+  id: string,
+  update: {
+    name?: string;
+    role?: Role;
+    password?: string;
+    disabled?: boolean;
+    practitionerId?: string;
+  }
+): Promise<PublicUser> {
+  const response = await fetch(`/api/users/${id}`, {
+    method: "PATCH",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(update),
+  });
+  return parseResponse(response);
+}
+
+export async function deleteUser(id: string): Promise<void> {
+  const response = await fetch(`/api/users/${id}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error((await response.json()).error || "Failed to delete user");
+  }
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Request failed");
+  }
+  return body;
+}
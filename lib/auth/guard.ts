@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { bearerToken, findApiKey } from "@/lib/auth/api-keys";
+import { can, type Permission } from "@/lib/auth/roles";
+import { readSessionToken, SESSION_COOKIE } from "@/lib/auth/session";
+import type { SessionUser } from "@/lib/auth/types";
+import { getUser } from "@/lib/auth/users";
+import type { TranscriptionErrorResponse } from "@/lib/transcription/errors";
+
+type Authorization =
+  | { ok: true; user: SessionUser }
+  | { ok: false; response: NextResponse };
+
+// Route handlers check the session themselves rather than trusting the
+// middleware, and look the account up again so that disabling a user or
+// changing their role takes effect before the cookie expires. Signed-in
+// users turned away for their role are audited. Requests without a
+// session may use an API key instead.
+export async function authorize(
+  request: NextRequest,
+  permission: Permission = "transcribe"
+): Promise<Authorization> {
+  const session = await readSessionToken(
+    request.cookies.get(SESSION_COOKIE)?.value
+  );
+  const account = session ? await getUser(session.id) : undefined;
+  const token = bearerToken(request.headers.get("authorization"));
+  const apiKey = !session && token ? findApiKey(token) : undefined;
+
+  if (apiKey) return permit(request, apiKey, permission);
+  if (!account || account.disabled) {
+    return {
+      ok: false,
+      response: NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: token
+            ? "The API key is not valid."
+            : "Your session has ended. Please sign in again.",
+          code: "unauthenticated",
+          retryable: false,
+        },
+        { status: 401 }
+      ),
+    };
+  }
+
+  const user = { id: account.id, name: account.name, role: account.role };
+  return permit(request, user, permission);
+}
+
+async function permit(
+  request: NextRequest,
+  user: SessionUser,
+  permission: Permission
+): Promise<Authorization> {
+  if (!can(user.role, permission)) {
+    await recordAudit(request, {
+      actor: user,
+      action: "access",
+      outcome: "denied",
+      resource: request.nextUrl.pathname,
+      detail: permission,
+    });
+    return {
+      ok: false,
+      response: NextResponse.json<TranscriptionErrorResponse>(
+        {
+          error: "Your role does not allow this.",
+          code: "forbidden",
+          retryable: false,
+        },
+        { status: 403 }
+      ),
+    };
+  }
+
+  return { ok: true, user };
+}
@@ -0,0 +1,282 @@
+import { ROLES } from "@/lib/auth/roles";
+import { base64UrlEncode, randomToken, sha256 } from "@/lib/auth/token";
+import type { Role } from "@/lib/auth/types";
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+
+// A minimal OpenID Connect provider for development: its sign-in page
+// asks for a name, email and role instead of a password and issues
+// RS256-signed ID tokens, so the OIDC login can be tried end to end
+
+const FILE_NAME = "idp-standin.json";
+const CODE_TTL_MS = 60_000;
+const TOKEN_TTL_SECONDS = 5 * 60;
+
+interface SigningKey {
+  kid: string;
+  privateKey: JsonWebKey;
+  publicKey: JsonWebKey;
+}
+
+interface PendingCode {
+  clientId: string;
+  redirectUri: string;
+  nonce?: string;
+  codeChallenge?: string;
+  name: string;
+  email: string;
+  role: Role;
+  expiresAt: number;
+}
+
+export interface AuthorizationRequest {
+  clientId: string;
+  redirectUri: string;
+  state?: string;
+  nonce?: string;
+  codeChallenge?: string;
+}
+
+// Codes only live for a minute, so they are kept in memory, shared
+// between route modules like the streaming sessions
+const registry = globalThis as typeof globalThis & {
+  idpStandInCodes?: Map<string, PendingCode>;
+};
+const codes = (registry.idpStandInCodes ??= new Map());
+
+// Never expose the stand-in in production unless explicitly asked to
+export function isIdpStandInEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.NODE_ENV !== "production" || env.IDP_STANDIN === "enabled";
+}
+
+export function providerMetadata(issuer: string) {
+  return {
+    issuer,
+    authorization_endpoint: `${issuer}/authorize`,
+    token_endpoint: `${issuer}/token`,
+    jwks_uri: `${issuer}/jwks`,
+    response_types_supported: ["code"],
+    subject_types_supported: ["public"],
+    id_token_signing_alg_values_supported: ["RS256"],
+    code_challenge_methods_supported: ["S256"],
+    scopes_supported: ["openid", "profile", "email"],
+  };
+}
+
+// Validate the query of an authorization request. Redirects are only
+// allowed back to the stand-in's own host.
+export function parseAuthorizationRequest(
+  params: URLSearchParams,
+  issuer: string
+): AuthorizationRequest | string {
+  const clientId = params.get("client_id");
+  const redirectUri = params.get("redirect_uri");
+  const method = params.get("code_challenge_method");
+
+  if (params.get("response_type") !== "code") {
+    return "Only the authorization code flow is supported";
+  }
+  if (!clientId) return "client_id is missing";
+  if (!redirectUri || !sameOrigin(redirectUri, issuer)) {
+    return "redirect_uri must be on this host";
+  }
+  if (method && method !== "S256") return "Only S256 PKCE is supported";
+
+  return {
+    clientId,
+    redirectUri,
+    state: params.get("state") ?? undefined,
+    nonce: params.get("nonce") ?? undefined,
+    codeChallenge: params.get("code_challenge") ?? undefined,
+  };
+}
+
+export function issueCode(
+  authorization: AuthorizationRequest,
+  user: { name: string; email: string; role: Role }
+) {
+  const now = Date.now();
+  for (const [code, pending] of codes) {
+    if (pending.expiresAt < now) codes.delete(code);
+  }
+
+  const code = randomToken();
+  codes.set(code, {
+    ...authorization,
+    ...user,
+    expiresAt: now + CODE_TTL_MS,
+  });
+  return code;
+}
+
+// Redeem a code for tokens; codes are single use
+export async function redeemCode(
+  form: URLSearchParams,
+  issuer: string
+): Promise<
+  | { ok: true; tokens: Record<string, string | number> }
+  | { ok: false; error: string; description: string }
+> {
+  const code = form.get("code") ?? "";
+  const pending = codes.get(code);
+  codes.delete(code);
+
+  const invalid = (description: string) => ({
+    ok: false as const,
+    error: "invalid_grant",
+    description,
+  });
+
+  if (form.get("grant_type") !== "authorization_code") {
+    return {
+      ok: false,
+      error: "unsupported_grant_type",
+      description: "Only authorization_code is supported",
+    };
+  }
+  if (!pending || pending.expiresAt < Date.now()) {
+    return invalid("The code is unknown or expired");
+  }
+  if (
+    form.get("client_id") !== pending.clientId ||
+    form.get("redirect_uri") !== pending.redirectUri
+  ) {
+    return invalid("The code was issued to another client");
+  }
+  if (
+    pending.codeChallenge &&
+    (await sha256(form.get("code_verifier") ?? "")) !== pending.codeChallenge
+  ) {
+    return invalid("The code verifier does not match");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  const idToken = await signJwt({
+    iss: issuer,
+    sub: `standin:${pending.email.toLowerCase()}`,
+    aud: pending.clientId,
+    iat: now,
+    exp: now + TOKEN_TTL_SECONDS,
+    nonce: pending.nonce,
+    name: pending.name,
+    email: pending.email,
+    preferred_username: pending.email,
+    roles: [pending.role],
+  });
+
+  return {
+    ok: true,
+    tokens: {
+      access_token: randomToken(),
+      token_type: "Bearer",
+      expires_in: TOKEN_TTL_SECONDS,
+      id_token: idToken,
+    },
+  };
+}
+
+export async function publicKeys() {
+  const { kid, publicKey } = await signingKey();
+  return { keys: [{ ...publicKey, kid, alg: "RS256", use: "sig" }] };
+}
+
+// The stand-in's sign-in page
+export function renderSignInPage(
+  authorization: AuthorizationRequest,
+  action: string
+) {
+  const hidden = Object.entries({
+    client_id: authorization.clientId,
+    redirect_uri: authorization.redirectUri,
+    state: authorization.state,
+    nonce: authorization.nonce,
+    code_challenge: authorization.codeChallenge,
+  })
+    .filter(([, value]) => value !== undefined)
+    .map(
+      ([name, value]) =>
+        `<input type="hidden" name="${name}" value="${escapeHtml(value!)}">`
+    )
+    .join("");
+  const roles = ROLES.map(
+    ({ id, label }) => `<option value="${id}">${escapeHtml(label)}</option>`
+  ).join("");
+
+  return `<!doctype html>
+<html lang="en">
+<head><meta charset="utf-8"><title>Stand-in identity provider</title></head>
+<body style="font-family: sans-serif; max-width: 24rem; margin: 4rem auto">
+<h1 style="font-size: 1.25rem">Stand-in identity provider</h1>
+<p style="color: #555; font-size: 0.875rem">For development only: sign in as anyone.</p>
+<form method="post" action="${escapeHtml(action)}">
+${hidden}
+<p><label>Name<br><input name="name" required value="Dr. Test"></label></p>
+<p><label>Email<br><input name="email" type="email" required value="doctor@example.com"></label></p>
+<p><label>Role<br><select name="role">${roles}</select></label></p>
+<button type="submit">Sign in</button>
+</form>
+</body>
+</html>`;
+}
+
+// Kept in the data dir so tokens stay verifiable across restarts
+async function signingKey(): Promise<SigningKey> {
+  const stored = await readJsonFile<SigningKey | null>(FILE_NAME, null);
+  if (stored) return stored;
+
+  const pair = await crypto.subtle.generateKey(
+    {
+      name: "RSASSA-PKCS1-v1_5",
+      modulusLength: 2048,
+      publicExponent: new Uint8Array([1, 0, 1]),
+      hash: "SHA-256",
+    },
+    true,
+    ["sign", "verify"]
+  );
+  const key: SigningKey = {
+    kid: randomToken(8),
+    privateKey: await crypto.subtle.exportKey("jwk", pair.privateKey),
+    publicKey: await crypto.subtle.exportKey("jwk", pair.publicKey),
+  };
+  await writeJsonFile(FILE_NAME, key);
+  return key;
+}
+
+async function signJwt(claims: Record<string, unknown>) {
+  const { kid, privateKey } = await signingKey();
+  const encode = (value: unknown) =>
+    base64UrlEncode(new TextEncoder().encode(JSON.stringify(value)));
+  const input = `${encode({ alg: "RS256", typ: "JWT", kid })}.${encode(
+    claims
+  )}`;
+
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    privateKey,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    new TextEncoder().encode(input)
+  );
+  return `${input}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+function sameOrigin(url: string, issuer: string) {
+  try {
+    return new URL(url).origin === new URL(issuer).origin;
+  } catch {
+    return false;
+  }
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
@@ -0,0 +1,239 @@
+import { isRole } from "@/lib/auth/roles";
+import { base64UrlDecode, randomToken, sha256 } from "@/lib/auth/token";
+import type { Role } from "@/lib/auth/types";
+
+// Holds the login state between the redirect and the callback
+export const OIDC_COOKIE = "dictamed_oidc";
+
+const REQUEST_TIMEOUT_MS = 10_000;
+// Tolerated difference between our clock and the identity provider's
+const CLOCK_SKEW_SECONDS = 60;
+
+export class OidcError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OidcError";
+  }
+}
+
+export interface OidcConfig {
+  issuer: string;
+  clientId: string;
+  clientSecret?: string;
+  redirectUri?: string; // Defaults to /api/auth/oidc/callback on this host
+  roleClaim: string;
+  defaultRole: Role;
+}
+
+interface ProviderMetadata {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+}
+
+export interface IdTokenClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  nonce?: string;
+  name?: string;
+  email?: string;
+  preferred_username?: string;
+  [claim: string]: unknown;
+}
+
+// Single sign-on is offered when OIDC_ISSUER and OIDC_CLIENT_ID are set
+export function getOidcConfig(
+  env: NodeJS.ProcessEnv = process.env
+): OidcConfig | undefined {
+  const issuer = env.OIDC_ISSUER?.trim();
+  const clientId = env.OIDC_CLIENT_ID?.trim();
+  if (!issuer || !clientId) return undefined;
+
+  return {
+    issuer: issuer.replace(/\/+$/, ""),
+    clientId,
+    clientSecret: env.OIDC_CLIENT_SECRET || undefined,
+    redirectUri: env.OIDC_REDIRECT_URI || undefined,
+    roleClaim: env.OIDC_ROLE_CLAIM || "roles",
+    defaultRole: isRole(env.OIDC_DEFAULT_ROLE)
+      ? env.OIDC_DEFAULT_ROLE
+      : "clinician",
+  };
+}
+
+// State kept in a signed cookie between the redirect and the callback
+export interface OidcLoginState {
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+  next: string;
+  expiresAt: number;
+}
+
+// Where to send the browser to sign in, with PKCE and a nonce
+export async function startLogin(
+  config: OidcConfig,
+  redirectUri: string,
+  next: string
+): Promise<{ url: string; login: OidcLoginState }> {
+  const metadata = await discover(config.issuer);
+  const login: OidcLoginState = {
+    state: randomToken(),
+    nonce: randomToken(),
+    codeVerifier: randomToken(),
+    next,
+    expiresAt: Date.now() + 10 * 60 * 1000,
+  };
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: "code",
+    client_id: config.clientId,
+    redirect_uri: redirectUri,
+    scope: "openid profile email",
+    state: login.state,
+    nonce: login.nonce,
+    code_challenge: await sha256(login.codeVerifier),
+    code_challenge_method: "S256",
+  }).toString();
+
+  return { url: url.toString(), login };
+}
+
+// Exchange the authorization code and return the verified ID token claims
+export async function finishLogin(
+  config: OidcConfig,
+  redirectUri: string,
+  code: string,
+  login: OidcLoginState
+): Promise<IdTokenClaims> {
+  const metadata = await discover(config.issuer);
+  const response = await request(metadata.token_endpoint, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-www-form-urlencoded" },
+    body: new URLSearchParams({
+      grant_type: "authorization_code",
+      code,
+      redirect_uri: redirectUri,
+      client_id: config.clientId,
+      ...(config.clientSecret && { client_secret: config.clientSecret }),
+      code_verifier: login.codeVerifier,
+    }),
+  });
+
+  const idToken = (response as { id_token?: unknown }).id_token;
+  if (typeof idToken !== "string") {
+    throw new OidcError("The token response has no ID token");
+  }
+  return verifyIdToken(idToken, metadata, config, login.nonce);
+}
+
+// The first known role in the role claim, which may be a string or a list
+export function roleFromClaims(claims: IdTokenClaims, config: OidcConfig) {
+  const value = claims[config.roleClaim];
+  const values = Array.isArray(value) ? value : [value];
+  return values.find(isRole) ?? config.defaultRole;
+}
+
+async function discover(issuer: string): Promise<ProviderMetadata> {
+  const metadata = (await request(
+    `${issuer}/.well-known/openid-configuration`
+  )) as ProviderMetadata;
+  if (metadata.issuer !== issuer) {
+    throw new OidcError("The discovery document is for another issuer");
+  }
+  return metadata;
+}
+
+// Check the RS256 signature against the provider's published keys, then
+// the issuer, audience, expiry and nonce
+async function verifyIdToken(
+  idToken: string,
+  metadata: ProviderMetadata,
+  config: OidcConfig,
+  nonce: string
+): Promise<IdTokenClaims> {
+  const [header, payload, signature] = idToken.split(".");
+  if (!header || !payload || !signature) {
+    throw new OidcError("The ID token is malformed");
+  }
+
+  const { alg, kid } = decodeJson<{ alg?: string; kid?: string }>(header);
+  if (alg !== "RS256") {
+    throw new OidcError(`Unsupported ID token algorithm ${alg}`);
+  }
+
+  const { keys } = (await request(metadata.jwks_uri)) as {
+    keys: (JsonWebKey & { kid?: string })[];
+  };
+  const jwk = keys.find(
+    (key) => key.kty === "RSA" && (!kid || key.kid === kid)
+  );
+  if (!jwk) throw new OidcError("No key matches the ID token");
+
+  const key = await crypto.subtle.importKey(
+    "jwk",
+    jwk,
+    { name: "RSASSA-PKCS1-v1_5", hash: "SHA-256" },
+    false,
+    ["verify"]
+  );
+  const valid = await crypto.subtle.verify(
+    "RSASSA-PKCS1-v1_5",
+    key,
+    base64UrlDecode(signature),
+    new TextEncoder().encode(`${header}.${payload}`)
+  );
+  if (!valid) throw new OidcError("The ID token signature is invalid");
+
+  const claims = decodeJson<IdTokenClaims>(payload);
+  const audiences = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  const now = Date.now() / 1000;
+
+  if (claims.iss !== metadata.issuer) {
+    throw new OidcError("The ID token is from another issuer");
+  }
+  if (!audiences.includes(config.clientId)) {
+    throw new OidcError("The ID token is for another client");
+  }
+  if (!(claims.exp + CLOCK_SKEW_SECONDS > now)) {
+    throw new OidcError("The ID token has expired");
+  }
+  if (claims.nonce !== nonce) {
+    throw new OidcError("The ID token nonce does not match");
+  }
+  if (typeof claims.sub !== "string" || !claims.sub) {
+    throw new OidcError("The ID token has no subject");
+  }
+  return claims;
+}
+
+async function request(url: string, init?: RequestInit): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new OidcError(
+      `Could not reach the identity provider: ${(error as Error).message}`
+    );
+  }
+
+  if (!response.ok) {
+    throw new OidcError(`The identity provider returned ${response.status}`);
+  }
+  return response.json();
+}
+
+function decodeJson<T>(part: string): T {
+  try {
+    return JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+  } catch {
+    throw new OidcError("The ID token is malformed");
+  }
+}
@@ -0,0 +1,38 @@
+import type { Role } from "@/lib/auth/types";
+
+export const ROLES: { id: Role; label: string }[] = [
+  { id: "clinician", label: "Clinician" },
+  { id: "transcriptionist", label: "Transcriptionist" },
+  { id: "admin", label: "Administrator" },
+];
+
+export type Permission =
+  | "transcribe" // Transcribe, edit and export dictations
+  | "ehr:send" // Send documents to the EHR, which signs them off
+  | "vocabulary:shared" // Change the clinic-wide term lists
+  | "users:manage"
+  | "audit:read"
+  | "usage:read";
+
+// Transcriptionists prepare documents; only clinicians file them
+const PERMISSIONS: Record<Role, Permission[]> = {
+  clinician: ["transcribe", "ehr:send"],
+  transcriptionist: ["transcribe"],
+  admin: [
+    "transcribe",
+    "ehr:send",
+    "vocabulary:shared",
+    "users:manage",
+    "audit:read",
+    "usage:read",
+  ],
+};
+
+export const can = (role: Role, permission: Permission) =>
+  PERMISSIONS[role].includes(permission);
+
+export const isRole = (value: unknown): value is Role =>
+  ROLES.some((role) => role.id === value);
+
+export const roleLabel = (role: Role) =>
+  ROLES.find(({ id }) => id === role)?.label ?? role;
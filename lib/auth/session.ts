@@ -0,0 +1,82 @@
+import { isRole } from "@/lib/auth/roles";
+import { signToken, verifyToken } from "@/lib/auth/token";
+import type { Session, SessionUser } from "@/lib/auth/types";
+
+export const SESSION_COOKIE = "dictamed_session";
+
+// A working day; signing in again after that is expected
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+// Only used outside production, so a fresh checkout runs without setup
+const DEVELOPMENT_SECRET = "dictamed-development-secret";
+
+export class AuthConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthConfigurationError";
+  }
+}
+
+// AUTH_SECRET signs the session cookies and must be set in production
+export function getAuthSecret(env: NodeJS.ProcessEnv = process.env) {
+  const secret = env.AUTH_SECRET?.trim();
+  if (secret) return secret;
+  if (env.NODE_ENV !== "production") return DEVELOPMENT_SECRET;
+  throw new AuthConfigurationError("AUTH_SECRET is not set");
+}
+
+export function createSessionToken(user: SessionUser, now = Date.now()) {
+  const session: Session = {
+    id: user.id,
+    name: user.name,
+    role: user.role,
+    expiresAt: now + SESSION_TTL_SECONDS * 1000,
+  };
+  return signToken(session, getAuthSecret(), "session");
+}
+
+// The session in a cookie value, or null if it is forged or expired
+export async function readSessionToken(
+  token: string | undefined,
+  now = Date.now()
+): Promise<Session | null> {
+  if (!token) return null;
+
+  const session = await verifyToken<Session>(token, getAuthSecret(), "session");
+  if (
+    !session ||
+    typeof session.id !== "string" ||
+    !isRole(session.role) ||
+    !(session.expiresAt > now)
+  ) {
+    return null;
+  }
+  return session;
+}
+
+export function sessionCookieOptions(maxAge = SESSION_TTL_SECONDS) {
+  return {
+    httpOnly: true,
+    sameSite: "lax" as const,
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge,
+  };
+}
+
+// Only paths on this site may be returned to after signing in. The value
+// is resolved the way a browser would, since "/\evil.com" or a path with
+// a tab in it can still lead to another host.
+export function safeNextPath(next: string | null | undefined) {
+  if (!next?.startsWith("/")) return "/";
+
+  const base = new URL("http://localhost");
+  try {
+    const url = new URL(next, base);
+    return url.origin === base.origin
+      ? url.pathname + url.search + url.hash
+      : "/";
+  } catch {
+    return "/";
+  }
+}
@@ -0,0 +1,88 @@
+// Signed tokens built on Web Crypto, so they can be checked both in the
+// middleware (edge runtime) and in Node.js route handlers. A token is
+// "<base64url JSON payload>.<base64url HMAC-SHA256 signature>".
+//
+// Every payload carries a `typ`, and a token is only read back as the type
+// it was signed as, so one kind of cookie cannot stand in for another
+// signed with the same secret.
+export type TokenType = "session" | "oidc-state";
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function hmacKey(secret: string) {
+  return crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+}
+
+export async function signToken(
+  payload: object,
+  secret: string,
+  typ: TokenType
+) {
+  const body = base64UrlEncode(
+    encoder.encode(JSON.stringify({ ...payload, typ }))
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC",
+    await hmacKey(secret),
+    encoder.encode(body)
+  );
+  return `${body}.${base64UrlEncode(new Uint8Array(signature))}`;
+}
+
+// The payload, or null if the token is malformed, was not signed with
+// `secret` or is of another type. crypto.subtle.verify compares in
+// constant time.
+export async function verifyToken<T>(
+  token: string,
+  secret: string,
+  typ: TokenType
+): Promise<T | null> {
+  const [body, signature, ...rest] = token.split(".");
+  if (!body || !signature || rest.length > 0) return null;
+
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(secret),
+      base64UrlDecode(signature),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+
+    const payload = JSON.parse(decoder.decode(base64UrlDecode(body)));
+    return payload?.typ === typ ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+export function base64UrlEncode(bytes: Uint8Array) {
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+export function base64UrlDecode(value: string) {
+  const binary = atob(value.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0));
+}
+
+export function randomToken(bytes = 32) {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
+}
+
+// base64url SHA-256 digest, as used for PKCE code challenges
+export async function sha256(value: string) {
+  const digest = await crypto.subtle.digest("SHA-256", encoder.encode(value));
+  return base64UrlEncode(new Uint8Array(digest));
+}
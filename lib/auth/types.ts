@@ -0,0 +1,29 @@
+export type Role = "clinician" | "transcriptionist" | "admin";
+
+// An account in the local credential store. Accounts created by signing
+// in through OIDC have no password and are matched by their subject.
+export interface User {
+  id: string;
+  username: string;
+  name: string;
+  role: Role;
+  passwordHash?: string;
+  oidcSubject?: string; // "<issuer> <sub>"
+  practitionerId?: string; // Author of the documents they send to the EHR
+  disabled?: boolean;
+  createdAt: string;
+}
+
+// What the API returns about a user: never the password hash
+export type PublicUser = Omit<User, "passwordHash"> & { hasPassword: boolean };
+
+// The signed-in user, as carried in the session cookie
+export interface SessionUser {
+  id: string;
+  name: string;
+  role: Role;
+}
+
+export interface Session extends SessionUser {
+  expiresAt: number; // Milliseconds since the epoch
+}
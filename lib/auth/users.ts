@@ -0,0 +1,311 @@
+import { randomBytes, randomUUID, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { isRole } from "@/lib/auth/roles";
+import type { PublicUser, Role, User } from "@/lib/auth/types";
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+import { FHIR_ID_PATTERN } from "@/lib/fhir/validate";
+
+const FILE_NAME = "users.json";
+const KEY_LENGTH = 64;
+// Compared against when the username is unknown
+const DUMMY_HASH = `scrypt$${"0".repeat(32)}$${"0".repeat(KEY_LENGTH * 2)}`;
+export const MIN_PASSWORD_LENGTH = 10;
+
+// Read-modify-write of the file is serialized so that concurrent requests
+// do not lose each other's accounts. Passwords are hashed before a write
+// is queued, to keep the queue short.
+const registry = globalThis as typeof globalThis & {
+  usersQueue?: Promise<unknown>;
+};
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number
+) => Promise<Buffer>;
+
+export class UserInputError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UserInputError";
+  }
+}
+
+export async function listUsers(): Promise<User[]> {
+  return readJsonFile<User[]>(FILE_NAME, []);
+}
+
+export async function getUser(id: string): Promise<User | undefined> {
+  const users = await listUsers();
+  return users.find((user) => user.id === id);
+}
+
+export async function createUser(input: {
+  username: string;
+  name: string;
+  role: Role;
+  password?: string;
+  oidcSubject?: string;
+}): Promise<User> {
+  const { password, ...account } = input;
+  const passwordHash =
+    password !== undefined ? await hashPassword(password) : undefined;
+  return enqueue(async () =>
+    addUser(await listUsers(), { ...account, passwordHash })
+  );
+}
+
+export async function updateUser(
+  id: string,
+  update: {
+    name?: string;
+    role?: Role;
+    password?: string;
+    disabled?: boolean;
+    practitionerId?: string;
+  }
+): Promise<User | undefined> {
+  const passwordHash =
+    update.password !== undefined
+      ? await hashPassword(update.password)
+      : undefined;
+
+  return enqueue(async () => {
+    const users = await listUsers();
+    const index = users.findIndex((user) => user.id === id);
+    if (index === -1) return undefined;
+
+    const existing = users[index];
+    const user: User = {
+      ...existing,
+      name: update.name?.trim() || existing.name,
+      role: update.role ?? existing.role,
+      disabled: update.disabled ?? existing.disabled,
+      // An empty id takes the existing one away
+      practitionerId:
+        update.practitionerId === undefined
+          ? existing.practitionerId
+          : update.practitionerId || undefined,
+      passwordHash: passwordHash ?? existing.passwordHash,
+    };
+
+    users[index] = user;
+    await writeJsonFile(FILE_NAME, users);
+    return user;
+  });
+}
+
+export function deleteUser(id: string): Promise<boolean> {
+  return enqueue(async () => {
+    const users = await listUsers();
+    const remaining = users.filter((user) => user.id !== id);
+    if (remaining.length === users.length) return false;
+
+    await writeJsonFile(FILE_NAME, remaining);
+    return true;
+  });
+}
+
+// The enabled account matching a username and password. An empty store
+// is seeded with the administrator from AUTH_ADMIN_USERNAME and
+// AUTH_ADMIN_PASSWORD, so the first sign-in can create everyone else.
+export async function verifyCredentials(
+  username: string,
+  password: string,
+  env: NodeJS.ProcessEnv = process.env
+): Promise<User | undefined> {
+  let users = await listUsers();
+  if (
+    users.length === 0 &&
+    env.AUTH_ADMIN_USERNAME &&
+    env.AUTH_ADMIN_PASSWORD
+  ) {
+    const passwordHash = await hashPassword(env.AUTH_ADMIN_PASSWORD);
+    const username = env.AUTH_ADMIN_USERNAME;
+    // Sign-ins racing on the empty store seed it once
+    users = await enqueue(async () => {
+      const current = await listUsers();
+      if (current.length > 0) return current;
+
+      const admin = await addUser(current, {
+        username,
+        name: "Administrator",
+        role: "admin",
+        passwordHash,
+      });
+      return [admin];
+    });
+  }
+
+  const user = users.find(
+    (candidate) => candidate.username === username.trim().toLowerCase()
+  );
+  // Hash anyway so unknown usernames take as long as wrong passwords
+  const valid = await verifyPassword(
+    password,
+    user?.passwordHash ?? DUMMY_HASH
+  );
+  return valid && user && user.passwordHash && !user.disabled
+    ? user
+    : undefined;
+}
+
+// Accounts signing in through OIDC are created on first sign-in; after
+// that an administrator's change of role sticks
+export async function findOrCreateOidcUser(
+  subject: string,
+  claims: { username: string; name: string; role: Role }
+): Promise<User> {
+  return enqueue(async () => {
+    const users = await listUsers();
+    const existing = users.find((user) => user.oidcSubject === subject);
+    if (existing) return existing;
+
+    let username = claims.username.trim().toLowerCase();
+    if (users.some((user) => user.username === username)) {
+      username = `${username}-${randomBytes(3).toString("hex")}`;
+    }
+    return addUser(users, { ...claims, username, oidcSubject: subject });
+  });
+}
+
+export function toPublicUser({ passwordHash, ...user }: User): PublicUser {
+  return { ...user, hasPassword: !!passwordHash };
+}
+
+// Validate the body of POST /api/users
+export function parseUserInput(body: unknown): {
+  username: string;
+  name: string;
+  role: Role;
+  password: string;
+} {
+  if (typeof body !== "object" || body === null) {
+    throw new UserInputError("Request body must be an object");
+  }
+
+  const { username, name, role, password } = body as Record<string, unknown>;
+  if (typeof username !== "string" || !/^[\w.@-]{2,64}$/.test(username)) {
+    throw new UserInputError(
+      "A username needs 2 to 64 letters, digits or . _ @ -"
+    );
+  }
+  if (!isRole(role)) throw new UserInputError("Unknown role");
+
+  return {
+    username,
+    name: typeof name === "string" ? name : "",
+    role,
+    password: parsePassword(password),
+  };
+}
+
+// Validate the body of PATCH /api/users/[id]
+export function parseUserUpdate(body: unknown): {
+  name?: string;
+  role?: Role;
+  password?: string;
+  disabled?: boolean;
+  practitionerId?: string;
+} {
+  if (typeof body !== "object" || body === null) {
+    throw new UserInputError("Request body must be an object");
+  }
+
+  const { name, role, password, disabled, practitionerId } = body as Record<
+    string,
+    unknown
+  >;
+  if (role !== undefined && !isRole(role)) {
+    throw new UserInputError("Unknown role");
+  }
+  if (disabled !== undefined && typeof disabled !== "boolean") {
+    throw new UserInputError("disabled must be a boolean");
+  }
+  if (
+    practitionerId !== undefined &&
+    (typeof practitionerId !== "string" ||
+      (practitionerId.trim() !== "" &&
+        !FHIR_ID_PATTERN.test(practitionerId.trim())))
+  ) {
+    throw new UserInputError(
+      "A Practitioner ID needs up to 64 letters, digits, - or ."
+    );
+  }
+
+  return {
+    name: typeof name === "string" ? name : undefined,
+    role,
+    password: password === undefined ? undefined : parsePassword(password),
+    disabled,
+    practitionerId:
+      typeof practitionerId === "string" ? practitionerId.trim() : undefined,
+  };
+}
+
+function parsePassword(password: unknown) {
+  if (typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+    throw new UserInputError(
+      `Passwords need at least ${MIN_PASSWORD_LENGTH} characters`
+    );
+  }
+  return password;
+}
+
+// Append an account to the users just read. Only called from a queued
+// task, so the check for a taken username sees every earlier write.
+async function addUser(
+  users: User[],
+  input: {
+    username: string;
+    name: string;
+    role: Role;
+    passwordHash?: string;
+    oidcSubject?: string;
+  }
+): Promise<User> {
+  const username = input.username.trim().toLowerCase();
+  if (users.some((user) => user.username === username)) {
+    throw new UserInputError(`The username "${username}" is taken`);
+  }
+
+  const user: User = {
+    id: randomUUID(),
+    username,
+    name: input.name.trim() || username,
+    role: input.role,
+    passwordHash: input.passwordHash,
+    oidcSubject: input.oidcSubject,
+    createdAt: new Date().toISOString(),
+  };
+
+  users.push(user);
+  await writeJsonFile(FILE_NAME, users);
+  return user;
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = (registry.usersQueue ?? Promise.resolve()).then(task);
+  registry.usersQueue = result.catch(() => {});
+  return result;
+}
+
+// "scrypt$<salt>$<key>", both hex
+async function hashPassword(password: string) {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+async function verifyPassword(password: string, hash: string) {
+  const [scheme, salt, key] = hash.split("$");
+  if (scheme !== "scrypt" || !salt || !key) return false;
+
+  const expected = Buffer.from(key, "hex");
+  const actual = await scryptAsync(
+    password,
+    Buffer.from(salt, "hex"),
+    expected.length
+  );
+  return timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,91 @@
+import {
+  COMMAND_LABELS,
+  type CommandAction,
+  type CommandGrammar,
+} from "@/lib/commands/types";
+
+export const COMMAND_ACTIONS = Object.keys(COMMAND_LABELS) as CommandAction[];
+
+// "Period" and "colon" are also anatomy and history ("last menstrual
+// period", "colon cancer"), so on their own they stay dictation
+export const DEFAULT_COMMAND_GRAMMAR: CommandGrammar = {
+  commands: {
+    period: ["full stop", "insert period"],
+    comma: ["comma"],
+    question_mark: ["question mark"],
+    colon: ["insert colon"],
+    new_line: ["new line", "next line"],
+    new_paragraph: ["new paragraph", "next paragraph"],
+    section: ["next section", "new section", "section"],
+    delete_last_word: ["delete last word", "scratch that word"],
+    delete_last_sentence: ["delete last sentence", "scratch that"],
+    literal: ["literal", "literally"],
+  },
+  sections: [
+    "Subjective",
+    "Objective",
+    "Assessment",
+    "Plan",
+    "History of present illness",
+    "Past medical history",
+    "Medications",
+    "Allergies",
+    "Examination",
+    "Impression",
+  ],
+};
+
+// Keeps a pasted list from making every word a command
+const MAX_PHRASES = 20;
+const MAX_PHRASE_WORDS = 6;
+
+// Validate a grammar sent with a transcription request. Actions left out
+// keep their default phrases.
+export function parseCommandGrammar(data: unknown): CommandGrammar | null {
+  if (typeof data !== "object" || data === null) return null;
+
+  const { commands, sections } = data as {
+    commands?: unknown;
+    sections?: unknown;
+  };
+  if (typeof commands !== "object" || commands === null) return null;
+
+  const parsed = { ...DEFAULT_COMMAND_GRAMMAR.commands };
+  for (const [action, phrases] of Object.entries(commands)) {
+    if (!COMMAND_ACTIONS.includes(action as CommandAction)) return null;
+    const list = parsePhrases(phrases);
+    if (!list) return null;
+    parsed[action as CommandAction] = list;
+  }
+
+  const sectionList =
+    sections === undefined
+      ? DEFAULT_COMMAND_GRAMMAR.sections
+      : parsePhrases(sections);
+  if (!sectionList) return null;
+
+  return { commands: parsed, sections: sectionList };
+}
+
+// Lowercase words without punctuation, as commands are matched
+export function commandTokens(text: string) {
+  return text
+    .toLowerCase()
+    .split(/\s+/)
+    .map((token) => token.replace(/[^\p{L}\p{N}']/gu, ""))
+    .filter(Boolean);
+}
+
+function parsePhrases(value: unknown): string[] | null {
+  if (!Array.isArray(value) || value.length > MAX_PHRASES) return null;
+  if (!value.every((phrase) => typeof phrase === "string")) return null;
+
+  const phrases = (value as string[])
+    .map((phrase) => phrase.trim())
+    .filter(Boolean);
+  return phrases.every(
+    (phrase) => commandTokens(phrase).length <= MAX_PHRASE_WORDS
+  )
+    ? phrases
+    : null;
+}
@@ -0,0 +1,348 @@
+import { commandTokens } from "@/lib/commands/grammar";
+import type {
+  AppliedCommand,
+  CommandAction,
+  CommandGrammar,
+  TranscriptMarker,
+} from "@/lib/commands/types";
+import {
+  findSegmentIndex,
+  joinSegmentText,
+  trailingPunctuation,
+} from "@/lib/transcription/text";
+import type {
+  TranscriptContent,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+const PUNCTUATION: Partial<Record<CommandAction, string>> = {
+  period: ".",
+  comma: ",",
+  question_mark: "?",
+  colon: ":",
+};
+
+const SENTENCE_END = /[.!?]$/;
+const TRAILING_MARKS = /[.,?!:;]+$/;
+
+interface CommandMatch {
+  action: CommandAction;
+  length: number; // Words spoken, including the section name
+  argument?: string;
+}
+
+interface CompiledGrammar {
+  phrases: { action: CommandAction; tokens: string[] }[];
+  sections: { name: string; tokens: string[] }[];
+}
+
+// Find spoken commands in the word stream, apply them and drop their
+// words. The remaining words keep their timestamps; segments that held a
+// command or a changed word are rewritten from their words. Transcripts
+// without word timestamps are returned unchanged.
+export function applyVoiceCommands<T extends TranscriptContent>(
+  transcript: T,
+  grammar: CommandGrammar
+): { transcript: T; commands: AppliedCommand[]; markers: TranscriptMarker[] } {
+  const words = transcript.words ?? [];
+  if (words.length === 0) return { transcript, commands: [], markers: [] };
+
+  const compiled = compile(grammar);
+  const tokens = words.map((word) => commandTokens(word.word).join(" "));
+  const { punctuation, segmentEnds } = readSegmentText(transcript, words);
+  const endsSentence = (word: WordTimestamp) =>
+    SENTENCE_END.test(word.word) ||
+    SENTENCE_END.test(punctuation.get(word.start) ?? "") ||
+    segmentEnds.has(word.start);
+
+  const kept: WordTimestamp[] = [];
+  const commands: AppliedCommand[] = [];
+  let markers: TranscriptMarker[] = [];
+  // Times whose segment text has to be rebuilt
+  const touched: number[] = [];
+  let capitalize = false;
+
+  const keep = (word: WordTimestamp) => {
+    if (capitalize && /^\p{Ll}/u.test(word.word)) {
+      word = { ...word, word: word.word[0].toUpperCase() + word.word.slice(1) };
+      touched.push(word.start);
+    }
+    capitalize = false;
+    kept.push(word);
+  };
+
+  const removeFrom = (index: number) => {
+    if (index < 0) return;
+    const removed = kept.splice(index);
+    if (removed.length === 0) return;
+    touched.push(...removed.map((word) => word.start));
+    // Breaks dictated inside the removed words go with them
+    markers = markers.filter((marker) => marker.time <= removed[0].start);
+    const last = kept[kept.length - 1];
+    capitalize = !last || endsSentence(last);
+  };
+
+  let i = 0;
+  while (i < words.length) {
+    const match = matchCommand(tokens, i, compiled);
+    if (!match) {
+      keep(words[i]);
+      i++;
+      continue;
+    }
+
+    const spoken = words.slice(i, i + match.length);
+    const start = spoken[0].start;
+    const end = spoken[spoken.length - 1].end;
+    touched.push(start);
+    commands.push({
+      action: match.action,
+      phrase: spoken.map((word) => word.word).join(" "),
+      start,
+      end,
+      argument: match.argument,
+    });
+    i += match.length;
+
+    const mark = PUNCTUATION[match.action];
+    if (mark) {
+      const last = kept[kept.length - 1];
+      if (!last) continue;
+      // The provider may have punctuated the word already
+      kept[kept.length - 1] = {
+        ...last,
+        word: last.word.replace(TRAILING_MARKS, "") + mark,
+      };
+      touched.push(last.start);
+      capitalize = SENTENCE_END.test(mark);
+      continue;
+    }
+
+    switch (match.action) {
+      case "literal": {
+        // The next command phrase, or else the next word, is dictation
+        const length = matchCommand(tokens, i, compiled)?.length ?? 1;
+        words.slice(i, i + length).forEach(keep);
+        i += length;
+        break;
+      }
+      case "new_line":
+      case "new_paragraph":
+        markers.push({
+          type: match.action === "new_line" ? "line" : "paragraph",
+          time: end,
+        });
+        capitalize = true;
+        break;
+      case "section":
+        markers.push({ type: "section", time: end, title: match.argument! });
+        capitalize = true;
+        break;
+      case "delete_last_word":
+        removeFrom(kept.length - 1);
+        break;
+      case "delete_last_sentence":
+        removeFrom(sentenceStart(kept, markers, endsSentence));
+        break;
+    }
+  }
+
+  return {
+    transcript: withWords(transcript, kept, touched, markers, punctuation),
+    commands,
+    markers,
+  };
+}
+
+// Longest phrases first, so "delete last sentence" wins over "delete"
+function compile(grammar: CommandGrammar): CompiledGrammar {
+  const byLength = <T extends { tokens: string[] }>(items: T[]) =>
+    items
+      .filter((item) => item.tokens.length > 0)
+      .sort((a, b) => b.tokens.length - a.tokens.length);
+
+  return {
+    phrases: byLength(
+      Object.entries(grammar.commands).flatMap(([action, phrases]) =>
+        phrases.map((phrase) => ({
+          action: action as CommandAction,
+          tokens: commandTokens(phrase),
+        }))
+      )
+    ),
+    sections: byLength(
+      grammar.sections.map((name) => ({ name, tokens: commandTokens(name) }))
+    ),
+  };
+}
+
+function matchCommand(
+  tokens: string[],
+  index: number,
+  { phrases, sections }: CompiledGrammar
+): CommandMatch | null {
+  const startsWith = (at: number, phrase: string[]) =>
+    phrase.every((token, offset) => tokens[at + offset] === token);
+
+  for (const { action, tokens: phrase } of phrases) {
+    if (!startsWith(index, phrase)) continue;
+    if (action !== "section") return { action, length: phrase.length };
+
+    // A heading needs a known section name, or "section" stays a word
+    const section = sections.find((item) =>
+      startsWith(index + phrase.length, item.tokens)
+    );
+    if (section) {
+      return {
+        action,
+        length: phrase.length + section.tokens.length,
+        argument: section.name,
+      };
+    }
+  }
+  return null;
+}
+
+// First word of the last sentence: the one after a full stop, a line
+// break or a heading
+function sentenceStart(
+  words: WordTimestamp[],
+  markers: TranscriptMarker[],
+  endsSentence: (word: WordTimestamp) => boolean
+) {
+  const last = words[words.length - 1];
+  if (!last) return -1;
+
+  const lastBreak = Math.max(
+    -Infinity,
+    ...markers
+      .filter((marker) => marker.time <= last.start)
+      .map((marker) => marker.time)
+  );
+  let index = words.length - 1;
+  while (
+    index > 0 &&
+    !endsSentence(words[index - 1]) &&
+    words[index - 1].start >= lastBreak
+  ) {
+    index--;
+  }
+  return index;
+}
+
+// Word timestamps carry no punctuation, so it is read from the segment
+// text, matching its words in order: the marks after each word, by its
+// start time, and the last word of each segment. Segments rarely run
+// across sentences, so their ends count as sentence breaks; stopping
+// there deletes too little rather than too much.
+function readSegmentText(
+  { segments }: TranscriptContent,
+  words: WordTimestamp[]
+) {
+  const punctuation = new Map<number, string>();
+  const segmentEnds = new Set<number>();
+  if (!segments?.length) return { punctuation, segmentEnds };
+
+  const owned = segments.map((): WordTimestamp[] => []);
+  for (const word of words) {
+    owned[Math.max(0, findSegmentIndex(segments, word.start))].push(word);
+  }
+
+  segments.forEach((segment, index) => {
+    const segmentWords = owned[index];
+    if (segmentWords.length === 0) return;
+    segmentEnds.add(segmentWords[segmentWords.length - 1].start);
+
+    const textTokens = segment.text.trim().split(/\s+/);
+    let at = 0;
+    for (const word of segmentWords) {
+      const key = commandTokens(word.word).join(" ");
+      const found = textTokens.findIndex(
+        (token, tokenIndex) =>
+          tokenIndex >= at && commandTokens(token).join(" ") === key
+      );
+      if (found < 0) continue;
+      at = found + 1;
+      const mark = textTokens[found].match(TRAILING_MARKS)?.[0];
+      if (mark) punctuation.set(word.start, mark);
+    }
+  });
+  return { punctuation, segmentEnds };
+}
+
+// Rebuild the text of touched segments from their remaining words, and
+// split them where a line break or heading was dictated so each phrase
+// starts after its marker. Punctuation the segment text had after a word
+// is kept. Segments left without words are dropped.
+function withWords<T extends TranscriptContent>(
+  transcript: T,
+  words: WordTimestamp[],
+  touchedTimes: number[],
+  markers: TranscriptMarker[],
+  punctuation: Map<number, string>
+): T {
+  const segments = transcript.segments;
+  if (!segments?.length) {
+    return {
+      ...transcript,
+      words,
+      text: words.map((word) => word.word).join(" "),
+    };
+  }
+
+  const owners = words.map((word) =>
+    Math.max(0, findSegmentIndex(segments, word.start))
+  );
+  const touched = new Set(
+    touchedTimes.map((time) => Math.max(0, findSegmentIndex(segments, time)))
+  );
+
+  const updated = segments
+    .flatMap((segment, index) => {
+      if (!touched.has(index)) return [segment];
+
+      const runs: WordTimestamp[][] = [];
+      words.forEach((word, wordIndex) => {
+        if (owners[wordIndex] !== index) return;
+        const run = runs[runs.length - 1];
+        const previous = run?.[run.length - 1];
+        const isBreak =
+          previous &&
+          markers.some(
+            (marker) =>
+              marker.time > previous.start && marker.time <= word.start
+          );
+        if (run && !isBreak) run.push(word);
+        else runs.push([word]);
+      });
+
+      return runs.map((run, runIndex) => {
+        const text = run
+          .map((word) =>
+            TRAILING_MARKS.test(word.word)
+              ? word.word
+              : word.word + (punctuation.get(word.start) ?? "")
+          )
+          .join(" ");
+        const isLast = runIndex === runs.length - 1;
+        return {
+          ...segment,
+          start: runIndex === 0 ? segment.start : run[0].start,
+          end: isLast ? segment.end : runs[runIndex + 1][0].start,
+          text: ` ${text}${
+            !isLast || /[.!?,;:]$/.test(text)
+              ? ""
+              : trailingPunctuation(segment.text)
+          }`,
+        };
+      });
+    })
+    .map((segment, id) => ({ ...segment, id }));
+
+  return {
+    ...transcript,
+    words,
+    segments: updated,
+    text: joinSegmentText(updated),
+  };
+}
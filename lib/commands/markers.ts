@@ -0,0 +1,17 @@
+import type { TranscriptMarker } from "@/lib/commands/types";
+
+// Markers to show before each word or segment, by its index. A marker
+// goes before the first item starting at or after its time.
+export function markersBefore(
+  items: { start: number }[],
+  markers: TranscriptMarker[] = []
+): Map<number, TranscriptMarker[]> {
+  const placed = new Map<number, TranscriptMarker[]>();
+
+  for (const marker of markers) {
+    const index = items.findIndex((item) => item.start >= marker.time);
+    if (index === -1) continue;
+    placed.set(index, [...(placed.get(index) ?? []), marker]);
+  }
+  return placed;
+}
@@ -0,0 +1,29 @@
+import {
+  DEFAULT_COMMAND_GRAMMAR,
+  parseCommandGrammar,
+} from "@/lib/commands/grammar";
+import type { CommandGrammar } from "@/lib/commands/types";
+
+const STORAGE_KEY = "dictamed:voice-commands";
+
+export interface VoiceCommandSettings {
+  enabled: boolean;
+  grammar: CommandGrammar; // Kept while disabled, to turn them back on
+}
+
+export function getVoiceCommandSettings(): VoiceCommandSettings {
+  const defaults = { enabled: false, grammar: DEFAULT_COMMAND_GRAMMAR };
+  if (typeof localStorage === "undefined") return defaults;
+
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "null");
+    const grammar = parseCommandGrammar(stored?.grammar);
+    return grammar ? { enabled: stored.enabled === true, grammar } : defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+export function setVoiceCommandSettings(settings: VoiceCommandSettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,46 @@
+export type CommandAction =
+  | "period"
+  | "comma"
+  | "question_mark"
+  | "colon"
+  | "new_line"
+  | "new_paragraph"
+  | "section"
+  | "delete_last_word"
+  | "delete_last_sentence"
+  | "literal";
+
+// Spoken phrases for each action. "section" is followed by one of the
+// section names; "literal" makes the next phrase ordinary dictation.
+export interface CommandGrammar {
+  commands: Record<CommandAction, string[]>;
+  sections: string[];
+}
+
+// A command recognized in the dictation and removed from the transcript
+export interface AppliedCommand {
+  action: CommandAction;
+  phrase: string; // As spoken
+  start: number; // Seconds
+  end: number;
+  argument?: string; // Section name
+}
+
+// Layout the dictation asked for. Markers sit before the first word
+// spoken at or after their time, so they survive word edits.
+export type TranscriptMarker =
+  | { type: "line" | "paragraph"; time: number }
+  | { type: "section"; time: number; title: string };
+
+export const COMMAND_LABELS: Record<CommandAction, string> = {
+  period: "Period",
+  comma: "Comma",
+  question_mark: "Question mark",
+  colon: "Colon",
+  new_line: "New line",
+  new_paragraph: "New paragraph",
+  section: "Section heading",
+  delete_last_word: "Delete last word",
+  delete_last_sentence: "Delete last sentence",
+  literal: "Keep next word as text",
+};
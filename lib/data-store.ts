@@ -0,0 +1,25 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import path from "path";
+
+// Server-side state lives in JSON files under DICTAMED_DATA_DIR
+export const DATA_DIR =
+  process.env.DICTAMED_DATA_DIR || path.join(process.cwd(), ".data");
+
+export async function readJsonFile<T>(name: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await readFile(path.join(DATA_DIR, name), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return fallback;
+    throw error;
+  }
+}
+
+// Write through a temporary file so readers never see a partial document
+export async function writeJsonFile(name: string, data: unknown) {
+  const filePath = path.join(DATA_DIR, name);
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(tempPath, JSON.stringify(data, null, 2));
+  await rename(tempPath, filePath);
+}
@@ -0,0 +1,88 @@
+import {
+  SPEAKER_ROLES,
+  type Speaker,
+  type SpeakerTurn,
+} from "@/lib/diarization/types";
+import { findSegmentIndex } from "@/lib/transcription/text";
+import type { TranscriptContent } from "@/lib/transcription/types";
+
+// Label segments with the turn they overlap most and words with the speaker
+// of their segment, so a phrase is never split between two voices
+export function assignSpeakers<T extends TranscriptContent>(
+  transcript: T,
+  turns: SpeakerTurn[]
+): { transcript: T; speakers: Speaker[] } {
+  if (turns.length === 0) return { transcript, speakers: [] };
+
+  const segments = transcript.segments?.map((segment) => ({
+    ...segment,
+    speaker: speakerAt(turns, segment.start, segment.end),
+  }));
+  const words = transcript.words?.map((word) => {
+    const owner = segments?.[findSegmentIndex(segments, word.start)];
+    return {
+      ...word,
+      speaker: owner?.speaker ?? speakerAt(turns, word.start, word.end),
+    };
+  });
+
+  const labelled = segments?.length ? segments : words?.length ? words : turns;
+  const order = [...new Set(labelled.map((item) => item.speaker))];
+  return {
+    transcript: { ...transcript, segments, words },
+    speakers: defaultRoles(order, segments ?? []),
+  };
+}
+
+// Display names by speaker id: the role, numbered when several share it
+export function speakerNames(speakers: Speaker[]): Record<string, string> {
+  const names: Record<string, string> = {};
+
+  for (const { role, label } of SPEAKER_ROLES) {
+    const holders = speakers.filter((speaker) => speaker.role === role);
+    holders.forEach((speaker, index) => {
+      names[speaker.id] = holders.length > 1 ? `${label} ${index + 1}` : label;
+    });
+  }
+  return names;
+}
+
+function speakerAt(turns: SpeakerTurn[], start: number, end: number) {
+  let best = turns[0];
+  let bestScore = -Infinity;
+
+  for (const turn of turns) {
+    const overlap = Math.min(end, turn.end) - Math.max(start, turn.start);
+    // Without any overlap the nearest turn wins
+    const score =
+      overlap > 0
+        ? overlap
+        : -Math.min(Math.abs(turn.start - end), Math.abs(start - turn.end));
+    if (score > bestScore) {
+      best = turn;
+      bestScore = score;
+    }
+  }
+  return best.speaker;
+}
+
+// The clinician is whoever asks the most questions, the patient the next
+// speaker to appear; anyone else starts as "other" until corrected
+function defaultRoles(
+  order: string[],
+  segments: { text: string; speaker?: string }[]
+): Speaker[] {
+  const questions = (id: string) =>
+    segments.filter(
+      (segment) => segment.speaker === id && segment.text.trim().endsWith("?")
+    ).length;
+  const clinician = order.reduce((best, id) =>
+    questions(id) > questions(best) ? id : best
+  );
+  const patient = order.find((id) => id !== clinician);
+
+  return order.map((id) => ({
+    id,
+    role: id === clinician ? "clinician" : id === patient ? "patient" : "other",
+  }));
+}
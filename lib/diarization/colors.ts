@@ -0,0 +1,16 @@
+import type { Speaker } from "@/lib/diarization/types";
+
+// Tailwind classes per speaker, in order of appearance
+const SPEAKER_COLORS = [
+  { text: "text-blue-800", dot: "bg-blue-500" },
+  { text: "text-emerald-800", dot: "bg-emerald-500" },
+  { text: "text-purple-800", dot: "bg-purple-500" },
+  { text: "text-orange-800", dot: "bg-orange-500" },
+];
+
+export function speakerColor(speakers: Speaker[], id?: string) {
+  const index = speakers.findIndex((speaker) => speaker.id === id);
+  return index === -1
+    ? undefined
+    : SPEAKER_COLORS[index % SPEAKER_COLORS.length];
+}
@@ -0,0 +1,31 @@
+import { speakerNames } from "@/lib/diarization/assign";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// Plain-text transcript with one "Clinician: ..." paragraph per turn, or
+// the transcript as-is when the recording was not diarized
+export function formatConversation(result: TranscriptionResult) {
+  if (!result.speakers?.length || !result.segments?.length) {
+    return result.text;
+  }
+
+  const names = speakerNames(result.speakers);
+  const turns: { speaker?: string; text: string }[] = [];
+
+  for (const segment of result.segments) {
+    const text = segment.text.trim();
+    const previous = turns[turns.length - 1];
+    if (!text) continue;
+
+    if (previous && previous.speaker === segment.speaker) {
+      previous.text += ` ${text}`;
+    } else {
+      turns.push({ speaker: segment.speaker, text });
+    }
+  }
+
+  return turns
+    .map(({ speaker, text }) =>
+      speaker ? `${names[speaker] ?? speaker}: ${text}` : text
+    )
+    .join("\n\n");
+}
@@ -0,0 +1,57 @@
+import { createHttpDiarizationProvider } from "@/lib/diarization/providers/http";
+import { createLocalDiarizationProvider } from "@/lib/diarization/providers/local";
+import type { Diarization, DiarizationProvider } from "@/lib/diarization/types";
+import { logError } from "@/lib/logging";
+import { ProviderConfigurationError } from "@/lib/transcription/provider";
+import type { ProviderTranscription } from "@/lib/transcription/types";
+
+let cachedProvider: DiarizationProvider | null = null;
+
+// Build the provider selected by DIARIZATION_PROVIDER (defaults to local)
+export function createDiarizationProvider(
+  env: NodeJS.ProcessEnv = process.env
+): DiarizationProvider {
+  const name = env.DIARIZATION_PROVIDER || "local";
+
+  switch (name) {
+    case "local":
+      return createLocalDiarizationProvider();
+    case "http":
+      if (!env.DIARIZATION_URL) {
+        throw new ProviderConfigurationError(
+          "DIARIZATION_URL is required for the http diarization provider"
+        );
+      }
+      return createHttpDiarizationProvider({
+        url: env.DIARIZATION_URL,
+        apiKey: env.DIARIZATION_API_KEY,
+      });
+    default:
+      throw new ProviderConfigurationError(
+        `Unknown diarization provider: ${name}`
+      );
+  }
+}
+
+// Label who spoke when. Speaker labels are an aid, not worth failing the
+// transcription over, so a failing provider falls back to the local one.
+export async function diarize(
+  audio: File,
+  transcription: ProviderTranscription
+): Promise<Diarization> {
+  try {
+    cachedProvider ??= createDiarizationProvider();
+    return {
+      provider: cachedProvider.name,
+      turns: await cachedProvider.diarize(audio, transcription),
+    };
+  } catch (error) {
+    logError("Diarization error", error);
+
+    const fallback = createLocalDiarizationProvider();
+    return {
+      provider: fallback.name,
+      turns: await fallback.diarize(audio, transcription),
+    };
+  }
+}
@@ -0,0 +1,74 @@
+import type { DiarizationProvider, SpeakerTurn } from "@/lib/diarization/types";
+
+const REQUEST_TIMEOUT_MS = 120_000;
+
+interface HttpDiarizationProviderConfig {
+  url: string;
+  apiKey?: string;
+}
+
+// The diarization service failed or answered with something unexpected
+export class DiarizationServiceError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "DiarizationServiceError";
+  }
+}
+
+// A diarization service (e.g. a pyannote wrapper) that takes the audio as
+// multipart "audio" and answers { turns: [{ speaker, start, end }] }
+export function createHttpDiarizationProvider({
+  url,
+  apiKey,
+}: HttpDiarizationProviderConfig): DiarizationProvider {
+  return {
+    name: "http",
+    async diarize(audio: File) {
+      const formData = new FormData();
+      formData.append("audio", audio);
+
+      let response: Response;
+      try {
+        response = await fetch(url, {
+          method: "POST",
+          headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+          body: formData,
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        });
+      } catch (error) {
+        throw new DiarizationServiceError(
+          `Could not reach the diarization service: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+
+      if (!response.ok) {
+        throw new DiarizationServiceError(
+          `Diarization service responded with ${response.status}`,
+          response.status
+        );
+      }
+      return parseTurns(await response.json().catch(() => null));
+    },
+  };
+}
+
+function parseTurns(body: unknown): SpeakerTurn[] {
+  const turns = (body as { turns?: unknown } | null)?.turns;
+  if (!Array.isArray(turns)) {
+    throw new DiarizationServiceError("Diarization response has no turns");
+  }
+
+  return turns.map((turn, index) => {
+    const { speaker, start, end } = (turn ?? {}) as Record<string, unknown>;
+    if (
+      (typeof speaker !== "string" && typeof speaker !== "number") ||
+      typeof start !== "number" ||
+      typeof end !== "number"
+    ) {
+      throw new DiarizationServiceError(`Invalid diarization turn ${index}`);
+    }
+    return { speaker: String(speaker), start, end };
+  });
+}
@@ -0,0 +1,180 @@
+import type { DiarizationProvider, SpeakerTurn } from "@/lib/diarization/types";
+import { decodePcm } from "@/lib/transcription/chunking";
+import type {
+  ProviderTranscription,
+  TranscriptionSegment,
+} from "@/lib/transcription/types";
+
+const SAMPLE_RATE = 16000;
+const FRAME_SAMPLES = 400; // 25ms
+
+// Phrases this short say too little about the voice and keep the speaker
+// of the phrase before them
+const MIN_SEGMENT_SECONDS = 0.6;
+
+// Two clusters closer than this, in standard deviations, are one voice
+const MIN_SEPARATION = 1.2;
+
+const KMEANS_ITERATIONS = 10;
+
+// Offline diarization without a model. Each phrase is described by the
+// loudness and zero-crossing rate of its voiced frames, and the phrases
+// are split into two voices by k-means. When the audio cannot be decoded
+// or the voices are too alike, the speaker changes after each question.
+export function createLocalDiarizationProvider(): DiarizationProvider {
+  return {
+    name: "local",
+    async diarize(audio: File, transcription: ProviderTranscription) {
+      const segments = transcription.segments ?? [];
+      if (segments.length === 0) {
+        return [{ speaker: "S1", start: 0, end: transcription.duration ?? 0 }];
+      }
+
+      const samples = await decodePcm(audio, SAMPLE_RATE).catch(() => null);
+      const labels =
+        (samples && clusterByVoice(segments, samples)) ??
+        alternateOnQuestions(segments);
+      return toTurns(segments, labels);
+    },
+  };
+}
+
+function clusterByVoice(
+  segments: TranscriptionSegment[],
+  samples: Int16Array
+): number[] | null {
+  const features = segments.map((segment) =>
+    voiceFeatures(
+      samples.subarray(
+        Math.floor(segment.start * SAMPLE_RATE),
+        Math.ceil(segment.end * SAMPLE_RATE)
+      )
+    )
+  );
+  const judged = features
+    .map((feature, index) => ({ feature, index }))
+    .filter(
+      ({ feature, index }) =>
+        feature &&
+        segments[index].end - segments[index].start >= MIN_SEGMENT_SECONDS
+    ) as { feature: number[]; index: number }[];
+  if (judged.length < 2) return null;
+
+  const points = standardize(judged.map(({ feature }) => feature));
+  const clusters = twoMeans(points);
+  if (!clusters) return null;
+
+  // Phrases that could not be judged keep the previous speaker
+  const labels: number[] = [];
+  let previous = clusters[0];
+  segments.forEach((_, index) => {
+    const position = judged.findIndex((item) => item.index === index);
+    previous = position === -1 ? previous : clusters[position];
+    labels.push(previous);
+  });
+  return labels;
+}
+
+// Mean loudness (dB) and zero-crossing rate over the louder half of the
+// frames, so pauses inside a phrase do not drag the values down
+function voiceFeatures(samples: Int16Array): number[] | null {
+  const frames: { energy: number; crossings: number }[] = [];
+
+  for (let i = 0; i + FRAME_SAMPLES <= samples.length; i += FRAME_SAMPLES) {
+    let sum = 0;
+    let crossings = 0;
+    for (let j = i; j < i + FRAME_SAMPLES; j++) {
+      sum += samples[j] * samples[j];
+      if (j > i && samples[j] >= 0 !== samples[j - 1] >= 0) crossings++;
+    }
+    frames.push({
+      energy: 10 * Math.log10(sum / FRAME_SAMPLES + 1),
+      crossings: crossings / FRAME_SAMPLES,
+    });
+  }
+  if (frames.length === 0) return null;
+
+  const voiced = [...frames]
+    .sort((a, b) => b.energy - a.energy)
+    .slice(0, Math.ceil(frames.length / 2));
+  return [
+    mean(voiced.map((frame) => frame.energy)),
+    mean(voiced.map((frame) => frame.crossings)),
+  ];
+}
+
+function standardize(points: number[][]) {
+  const dimensions = points[0].length;
+  const stats = Array.from({ length: dimensions }, (_, d) => {
+    const values = points.map((point) => point[d]);
+    const average = mean(values);
+    const spread = Math.sqrt(mean(values.map((v) => (v - average) ** 2)));
+    return { average, spread: spread || 1 };
+  });
+  return points.map((point) =>
+    point.map((value, d) => (value - stats[d].average) / stats[d].spread)
+  );
+}
+
+// Cluster labels (0 or 1) per point, or null if there is only one voice
+function twoMeans(points: number[][]): number[] | null {
+  // Start from the quietest and the loudest phrase
+  const byLoudness = points.map((point) => point[0]);
+  let centroids = [
+    points[byLoudness.indexOf(Math.min(...byLoudness))],
+    points[byLoudness.indexOf(Math.max(...byLoudness))],
+  ];
+  let labels: number[] = [];
+
+  for (let iteration = 0; iteration < KMEANS_ITERATIONS; iteration++) {
+    labels = points.map((point) =>
+      distance(point, centroids[0]) <= distance(point, centroids[1]) ? 0 : 1
+    );
+    const members = [0, 1].map((label) =>
+      points.filter((_, index) => labels[index] === label)
+    );
+    if (members.some((group) => group.length === 0)) return null;
+
+    centroids = members.map((group) =>
+      group[0].map((_, d) => mean(group.map((point) => point[d])))
+    );
+  }
+
+  return distance(centroids[0], centroids[1]) >= MIN_SEPARATION ? labels : null;
+}
+
+// Consultations are mostly question and answer: questions come from one
+// voice and whatever follows a question from the other
+function alternateOnQuestions(segments: TranscriptionSegment[]) {
+  const isQuestion = (segment?: TranscriptionSegment) =>
+    !!segment?.text.trim().endsWith("?");
+  let label = 0;
+
+  return segments.map((segment, index) => {
+    if (isQuestion(segment)) label = 0;
+    else if (isQuestion(segments[index - 1])) label = 1;
+    return label;
+  });
+}
+
+// Merge consecutive phrases of one voice. Whoever speaks first is S1.
+function toTurns(segments: TranscriptionSegment[], labels: number[]) {
+  const turns: SpeakerTurn[] = [];
+
+  segments.forEach((segment, index) => {
+    const speaker = labels[index] === labels[0] ? "S1" : "S2";
+    const previous = turns[turns.length - 1];
+    if (previous?.speaker === speaker) {
+      previous.end = segment.end;
+    } else {
+      turns.push({ speaker, start: segment.start, end: segment.end });
+    }
+  });
+  return turns;
+}
+
+const mean = (values: number[]) =>
+  values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const distance = (a: number[], b: number[]) =>
+  Math.sqrt(a.reduce((sum, value, d) => sum + (value - b[d]) ** 2, 0));
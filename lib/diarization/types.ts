@@ -0,0 +1,38 @@
+import type { ProviderTranscription } from "@/lib/transcription/types";
+
+export type SpeakerRole = "clinician" | "patient" | "other";
+
+export const SPEAKER_ROLES: { role: SpeakerRole; label: string }[] = [
+  { role: "clinician", label: "Clinician" },
+  { role: "patient", label: "Patient" },
+  { role: "other", label: "Other" },
+];
+
+// A voice found in the recording. Segments and words refer to it by id.
+export interface Speaker {
+  id: string;
+  role: SpeakerRole;
+}
+
+// A stretch of the recording spoken by one voice, in seconds
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+}
+
+// Turns found by a provider, named in the response metadata
+export interface Diarization {
+  provider: string;
+  turns: SpeakerTurn[];
+}
+
+// Tells apart who spoke when. Providers get the transcription as well, so
+// simple ones can work from its phrases rather than the raw audio.
+export interface DiarizationProvider {
+  name: string;
+  diarize(
+    audio: File,
+    transcription: ProviderTranscription
+  ): Promise<SpeakerTurn[]>;
+}
@@ -0,0 +1,28 @@
+import { buildCues } from "@/lib/export/cues";
+import type { DocumentBlock } from "@/lib/export/types";
+import { findTemplate } from "@/lib/templates/builtin";
+import { fillTemplate } from "@/lib/templates/fill";
+import { sectionParagraphs } from "@/lib/templates/format";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// Paragraphs of the text, Word and PDF exports: the filled template when
+// the dictation used one, the timed phrases otherwise
+export function documentBlocks(result: TranscriptionResult): DocumentBlock[] {
+  const template = result.template ? findTemplate(result.template) : undefined;
+  if (!template) {
+    return buildCues(result).map((cue) => ({
+      text: cue.text,
+      time: cue.start,
+      speaker: cue.speaker,
+      heading: cue.heading,
+    }));
+  }
+
+  return fillTemplate(result, template).sections.flatMap((section) => {
+    const paragraphs = sectionParagraphs(section);
+    return (paragraphs.length > 0 ? paragraphs : ["-"]).map((text, index) => ({
+      text,
+      heading: index === 0 ? section.title : undefined,
+    }));
+  });
+}
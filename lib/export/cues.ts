@@ -0,0 +1,93 @@
+import { markersBefore } from "@/lib/commands/markers";
+import type { TranscriptMarker } from "@/lib/commands/types";
+import { speakerNames } from "@/lib/diarization/assign";
+import type { Cue, CueSource } from "@/lib/export/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// Subtitle guidelines: two lines of ~42 characters, a few seconds each
+const MAX_CUE_CHARS = 84;
+const MAX_CUE_SECONDS = 6;
+const PAUSE_SECONDS = 0.8;
+
+export function buildCues(
+  result: TranscriptionResult,
+  source: CueSource = result.segments?.length ? "segments" : "words"
+): Cue[] {
+  const names = speakerNames(result.speakers ?? []);
+
+  if (source === "words" && result.words?.length) {
+    return groupWords(result.words, names, result.markers);
+  }
+  if (result.segments?.length) {
+    const markers = markersBefore(result.segments, result.markers);
+    return result.segments
+      .map((segment, index) => ({
+        start: segment.start,
+        end: segment.end,
+        text: segment.text.trim(),
+        speaker: segment.speaker && names[segment.speaker],
+        heading: sectionTitle(markers.get(index)),
+      }))
+      .filter((cue) => cue.text);
+  }
+  if (result.words?.length) {
+    return groupWords(result.words, names, result.markers);
+  }
+
+  // No timings at all: one cue spanning the recording
+  return result.text.trim()
+    ? [{ start: 0, end: result.duration ?? 0, text: result.text.trim() }]
+    : [];
+}
+
+// "Clinician: ..." in diarized recordings
+export const withSpeaker = (cue: Pick<Cue, "text" | "speaker">) =>
+  cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+
+// Break on long pauses, dictated line breaks and headings, when the
+// speaker changes or when a cue gets too long to read
+function groupWords(
+  words: NonNullable<TranscriptionResult["words"]>,
+  names: Record<string, string>,
+  markers?: TranscriptMarker[]
+) {
+  const breaks = markersBefore(words, markers);
+  const cues: Cue[] = [];
+  let current: Cue | null = null;
+
+  for (const [index, word] of words.entries()) {
+    const speaker = word.speaker && names[word.speaker];
+    if (
+      current &&
+      (breaks.has(index) ||
+        (speaker && speaker !== current.speaker) ||
+        word.start - current.end > PAUSE_SECONDS ||
+        word.end - current.start > MAX_CUE_SECONDS ||
+        current.text.length + word.word.length + 1 > MAX_CUE_CHARS)
+    ) {
+      cues.push(current);
+      current = null;
+    }
+
+    if (current) {
+      current.end = word.end;
+      current.text += ` ${word.word}`;
+    } else {
+      current = {
+        start: word.start,
+        end: word.end,
+        text: word.word,
+        speaker,
+        heading: sectionTitle(breaks.get(index)),
+      };
+    }
+  }
+
+  if (current) cues.push(current);
+  return cues;
+}
+
+const sectionTitle = (markers?: TranscriptMarker[]) =>
+  markers?.flatMap((marker) =>
+    marker.type === "section" ? [marker.title] : []
+  )[0];
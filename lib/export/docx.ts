@@ -0,0 +1,93 @@
+import { documentBlocks } from "@/lib/export/blocks";
+import { clock } from "@/lib/export/format";
+import type { DocumentHeader } from "@/lib/export/types";
+import { createZip } from "@/lib/export/zip";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`;
+
+const RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`;
+
+// Word document with the header block and one paragraph per phrase, or per
+// paragraph of a filled template
+export function toDocx(
+  result: TranscriptionResult,
+  header: DocumentHeader
+): Uint8Array<ArrayBuffer> {
+  const paragraphs = [
+    paragraph([run(header.title, { bold: true, size: 32 })], 240),
+    ...header.fields.map(([label, value]) =>
+      paragraph(
+        [
+          run(`${label}: `, { bold: true, size: 20, color: "555555" }),
+          run(value, { size: 20, color: "555555" }),
+        ],
+        0
+      )
+    ),
+    paragraph([], 240),
+    ...documentBlocks(result).flatMap((block) => [
+      ...(block.heading
+        ? [paragraph([run(block.heading, { bold: true, size: 24 })], 120)]
+        : []),
+      paragraph(
+        [
+          ...(block.time !== undefined
+            ? [run(`[${clock(block.time)}] `, { size: 18, color: "888888" })]
+            : []),
+          ...(block.speaker
+            ? [run(`${block.speaker}: `, { bold: true, size: 22 })]
+            : []),
+          run(block.text, { size: 22 }),
+        ],
+        120
+      ),
+    ]),
+  ];
+
+  const document = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs.join(
+    ""
+  )}<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: CONTENT_TYPES },
+    { name: "_rels/.rels", data: RELATIONSHIPS },
+    { name: "word/document.xml", data: document },
+  ]);
+}
+
+function paragraph(runs: string[], spacingAfter: number) {
+  return `<w:p><w:pPr><w:spacing w:after="${spacingAfter}"/></w:pPr>${runs.join(
+    ""
+  )}</w:p>`;
+}
+
+// Sizes are in half-points
+function run(
+  text: string,
+  style: { bold?: boolean; size: number; color?: string }
+) {
+  const properties = [
+    style.bold ? "<w:b/>" : "",
+    style.color ? `<w:color w:val="${style.color}"/>` : "",
+    `<w:sz w:val="${style.size}"/>`,
+  ].join("");
+  return `<w:r><w:rPr>${properties}</w:rPr><w:t xml:space="preserve">${escapeXml(
+    text
+  )}</w:t></w:r>`;
+}
+
+function escapeXml(text: string) {
+  return (
+    text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      // Control characters are not allowed in XML 1.0
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+  );
+}
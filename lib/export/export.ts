@@ -0,0 +1,51 @@
+import { buildCues } from "@/lib/export/cues";
+import { toDocx } from "@/lib/export/docx";
+import { documentHeader } from "@/lib/export/format";
+import { toPdf } from "@/lib/export/pdf";
+import { toSrt, toTimestampedText, toVtt } from "@/lib/export/text";
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportOptions,
+  type ExportedFile,
+} from "@/lib/export/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+export function exportTranscript(
+  result: TranscriptionResult,
+  format: ExportFormat,
+  options: ExportOptions = {}
+): ExportedFile {
+  const { extension, mimeType } = EXPORT_FORMATS.find(
+    (item) => item.format === format
+  )!;
+  const header = documentHeader(result);
+
+  const content =
+    format === "srt"
+      ? toSrt(buildCues(result, options.cueSource))
+      : format === "vtt"
+      ? toVtt(buildCues(result, options.cueSource))
+      : format === "txt"
+      ? toTimestampedText(result, header)
+      : format === "docx"
+      ? toDocx(result, header)
+      : toPdf(result, header);
+
+  return {
+    blob: new Blob([content], { type: mimeType }),
+    fileName: `${exportBaseName(result)}.${extension}`,
+  };
+}
+
+// Name exports after the audio file, or the date it was transcribed
+export function exportBaseName(result: TranscriptionResult) {
+  const fromFile = result.audioFileName?.replace(/\.[^.]+$/, "");
+  if (fromFile) return fromFile;
+
+  const date = (result.metadata?.processedAt ?? new Date().toISOString()).slice(
+    0,
+    10
+  );
+  return `transcript-${date}`;
+}
@@ -0,0 +1,49 @@
+import type { DocumentHeader } from "@/lib/export/types";
+import { findTemplate } from "@/lib/templates/builtin";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// 00:01:02,345 for SRT, 00:01:02.345 for WebVTT
+export function formatTimestamp(seconds: number, separator: "," | ".") {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const ms = totalMs % 1000;
+  const totalSeconds = Math.floor(totalMs / 1000);
+
+  return `${clock(totalSeconds)}${separator}${String(ms).padStart(3, "0")}`;
+}
+
+// 00:01:02, for timestamps shown to people
+export function clock(seconds: number) {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  return [h, m, s].map((part) => String(part).padStart(2, "0")).join(":");
+}
+
+export function documentHeader(result: TranscriptionResult): DocumentHeader {
+  const fields: DocumentHeader["fields"] = [
+    [
+      "Date",
+      new Date(result.metadata?.processedAt ?? Date.now()).toLocaleString(
+        "en-US",
+        { dateStyle: "long", timeStyle: "short" }
+      ),
+    ],
+  ];
+
+  if (result.duration !== undefined) {
+    fields.push(["Duration", clock(result.duration)]);
+  }
+  if (result.language) fields.push(["Language", result.language]);
+  if (result.metadata?.model) fields.push(["Model", result.metadata.model]);
+  if (result.metadata?.specialty) {
+    fields.push(["Specialty", result.metadata.specialty]);
+  }
+  if (result.audioFileName) fields.push(["Source", result.audioFileName]);
+  if (result.editedAt) {
+    fields.push(["Edited", new Date(result.editedAt).toLocaleString("en-US")]);
+  }
+
+  const template = result.template ? findTemplate(result.template) : undefined;
+  return { title: template?.name ?? "Transcript", fields };
+}
@@ -0,0 +1,182 @@
+import { documentBlocks } from "@/lib/export/blocks";
+import { withSpeaker } from "@/lib/export/cues";
+import { clock } from "@/lib/export/format";
+import type { DocumentHeader } from "@/lib/export/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// US Letter with one-inch margins, in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Helvetica advance widths (per 1000 em) for ASCII 32-126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278,
+  278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584,
+  584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556,
+  833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278,
+  278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222,
+  500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500,
+  500, 334, 260, 334, 584,
+];
+
+type Font = "F1" | "F2"; // Helvetica, Helvetica-Bold
+
+interface Line {
+  text: string;
+  font: Font;
+  size: number;
+  gray: number; // 0 = black
+  spaceBefore: number;
+}
+
+// Paginated PDF with the built-in Helvetica font (Latin-1 text only)
+export function toPdf(
+  result: TranscriptionResult,
+  header: DocumentHeader
+): Uint8Array<ArrayBuffer> {
+  const lines: Line[] = [
+    line(header.title, "F2", 18, 0, 0),
+    ...header.fields.map(([label, value], index) =>
+      line(`${label}: ${value}`, "F1", 10, 0.35, index === 0 ? 10 : 2)
+    ),
+  ];
+
+  documentBlocks(result).forEach((block, index) => {
+    if (block.heading) {
+      lines.push(line(block.heading, "F2", 12, 0, index === 0 ? 24 : 16));
+    }
+    const spaceBefore = block.heading ? 4 : index === 0 ? 24 : 8;
+    const text =
+      block.time === undefined
+        ? withSpeaker(block)
+        : `[${clock(block.time)}]  ${withSpeaker(block)}`;
+    wrap(text, 11).forEach((wrapped, i) =>
+      lines.push(line(wrapped, "F1", 11, 0, i > 0 ? 3 : spaceBefore))
+    );
+  });
+
+  return render(paginate(lines));
+}
+
+function line(
+  text: string,
+  font: Font,
+  size: number,
+  gray: number,
+  spaceBefore: number
+): Line {
+  return { text, font, size, gray, spaceBefore };
+}
+
+function paginate(lines: Line[]) {
+  const pages: { line: Line; y: number }[][] = [[]];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  for (const item of lines) {
+    const height = item.size * 1.25;
+    const isFirst = pages[pages.length - 1].length === 0;
+    y -= (isFirst ? 0 : item.spaceBefore) + height;
+
+    if (y < MARGIN && !isFirst) {
+      pages.push([]);
+      y = PAGE_HEIGHT - MARGIN - height;
+    }
+    pages[pages.length - 1].push({ line: item, y });
+  }
+  return pages;
+}
+
+function render(pages: { line: Line; y: number }[][]) {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "", // Page tree, filled in once page ids are known
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  const pageIds: number[] = [];
+
+  pages.forEach((page, index) => {
+    const commands = page.map(
+      ({ line, y }) =>
+        `BT /${line.font} ${line.size} Tf ${line.gray} g ${MARGIN} ${y.toFixed(
+          2
+        )} Td (${escapePdf(line.text)}) Tj ET`
+    );
+    commands.push(
+      `BT /F1 8 Tf 0.5 g ${PAGE_WIDTH - MARGIN - 40} ${MARGIN / 2} Td (Page ${
+        index + 1
+      } of ${pages.length}) Tj ET`
+    );
+    const stream = commands.join("\n");
+
+    objects.push(
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`
+    );
+    const contentId = objects.length;
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${contentId} 0 R >>`
+    );
+    pageIds.push(objects.length);
+  });
+
+  objects[1] = `<< /Type /Pages /Kids [${pageIds
+    .map((id) => `${id} 0 R`)
+    .join(" ")}] /Count ${pageIds.length} >>`;
+
+  // Every character is a single byte, so string offsets are byte offsets
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((body, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n${offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("")}trailer\n<< /Size ${
+    objects.length + 1
+  } /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+  const bytes = new Uint8Array(output.length);
+  for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+  return bytes;
+}
+
+function wrap(text: string, size: number) {
+  const lines: string[] = [];
+  let current = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (current && textWidth(candidate, size) > TEXT_WIDTH) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+
+  if (current) lines.push(current);
+  return lines;
+}
+
+function textWidth(text: string, size: number) {
+  let width = 0;
+  for (const char of text) {
+    width += HELVETICA_WIDTHS[(char.codePointAt(0) ?? 0) - 32] ?? 556;
+  }
+  return (width * size) / 1000;
+}
+
+// Keep Latin-1, swap typographic punctuation for ASCII, drop the rest
+function escapePdf(text: string) {
+  return text
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/…/g, "...")
+    .replace(/[^ -ÿ]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
@@ -0,0 +1,62 @@
+import { documentBlocks } from "@/lib/export/blocks";
+import { withSpeaker } from "@/lib/export/cues";
+import { clock, formatTimestamp } from "@/lib/export/format";
+import type { Cue, DocumentHeader } from "@/lib/export/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+export function toSrt(cues: Cue[]) {
+  return cues
+    .map(
+      (cue, index) =>
+        `${index + 1}\n${formatTimestamp(cue.start, ",")} --> ${formatTimestamp(
+          cue.end,
+          ","
+        )}\n${withSpeaker(cue)}\n`
+    )
+    .join("\n");
+}
+
+export function toVtt(cues: Cue[]) {
+  const body = cues
+    .map(
+      (cue) =>
+        `${formatTimestamp(cue.start, ".")} --> ${formatTimestamp(
+          cue.end,
+          "."
+        )}\n${cue.speaker ? `<v ${escapeVtt(cue.speaker)}>` : ""}${escapeVtt(
+          cue.text
+        )}\n`
+    )
+    .join("\n");
+  return `WEBVTT\n\n${body}`;
+}
+
+// Header block, then one "[00:00:05] ..." line per phrase, with section
+// headings between them
+export function toTimestampedText(
+  result: TranscriptionResult,
+  header: DocumentHeader
+) {
+  const lines = [
+    header.title.toUpperCase(),
+    ...header.fields.map(([label, value]) => `${label}: ${value}`),
+    "",
+    ...documentBlocks(result).flatMap((block, index) => [
+      ...(block.heading
+        ? [...(index > 0 ? [""] : []), block.heading.toUpperCase()]
+        : []),
+      block.time === undefined
+        ? withSpeaker(block)
+        : `[${clock(block.time)}] ${withSpeaker(block)}`,
+    ]),
+  ];
+  return `${lines.join("\n")}\n`;
+}
+
+// "-->" and markup characters are not allowed in cue text
+function escapeVtt(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
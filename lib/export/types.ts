@@ -0,0 +1,70 @@
+export type ExportFormat = "srt" | "vtt" | "txt" | "docx" | "pdf";
+
+// Subtitle cues follow Whisper's phrases or regroup the word timestamps
+export type CueSource = "segments" | "words";
+
+export interface Cue {
+  start: number;
+  end: number;
+  text: string;
+  speaker?: string; // Display name in diarized recordings
+  heading?: string; // Section dictated before this cue
+}
+
+// A paragraph of a document export: a timed phrase of the transcript, or
+// template text
+export interface DocumentBlock {
+  text: string;
+  time?: number;
+  speaker?: string;
+  heading?: string; // Section starting with this block
+}
+
+export interface ExportOptions {
+  cueSource?: CueSource;
+}
+
+export interface ExportedFile {
+  blob: Blob;
+  fileName: string;
+}
+
+// Title and metadata lines at the top of documents
+export interface DocumentHeader {
+  title: string;
+  fields: [label: string, value: string][];
+}
+
+export const EXPORT_FORMATS: {
+  format: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}[] = [
+  {
+    format: "docx",
+    label: "Word document",
+    extension: "docx",
+    mimeType:
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  },
+  {
+    format: "pdf",
+    label: "PDF",
+    extension: "pdf",
+    mimeType: "application/pdf",
+  },
+  {
+    format: "txt",
+    label: "Timestamped text",
+    extension: "txt",
+    mimeType: "text/plain",
+  },
+  {
+    format: "srt",
+    label: "SRT subtitles",
+    extension: "srt",
+    mimeType: "application/x-subrip",
+  },
+  { format: "vtt", label: "WebVTT", extension: "vtt", mimeType: "text/vtt" },
+];
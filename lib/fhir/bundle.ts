@@ -0,0 +1,167 @@
+import { createHash, randomUUID } from "crypto";
+import { formatConversation } from "@/lib/diarization/format";
+import type {
+  Attachment,
+  Binary,
+  Bundle,
+  BundleEntry,
+  DocumentContext,
+  DocumentReference,
+} from "@/lib/fhir/types";
+import { formatSoapNote } from "@/lib/notes/format";
+import type { SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+const LOINC = "http://loinc.org";
+const TEXT_PLAIN = "text/plain; charset=utf-8";
+
+// LOINC document types
+const TRANSCRIPT_TYPE = { code: "34109-9", display: "Note" };
+const PROGRESS_NOTE_TYPE = { code: "11506-3", display: "Progress note" };
+
+const CLINICAL_NOTE_CATEGORY = {
+  coding: [
+    {
+      system:
+        "http://hl7.org/fhir/us/core/CodeSystem/us-core-documentreference-category",
+      code: "clinical-note",
+      display: "Clinical Note",
+    },
+  ],
+};
+
+// Transaction bundle with the transcript (and note) as DocumentReferences
+// whose content lives in Binary resources, linked through urn:uuid ids
+export function buildDocumentBundle(
+  result: TranscriptionResult,
+  context: DocumentContext,
+  note?: SoapNote
+): Bundle {
+  const date = result.metadata?.processedAt ?? new Date().toISOString();
+  const entries: BundleEntry[] = [];
+
+  const transcript = documentEntries({
+    text: formatConversation(result),
+    title: "Dictation transcript",
+    type: TRANSCRIPT_TYPE,
+    date,
+    language: result.language,
+    context,
+    description: result.audioFileName
+      ? `Transcript of ${result.audioFileName}`
+      : "Dictation transcript",
+  });
+  entries.push(...transcript);
+
+  if (note) {
+    const [binary, document] = documentEntries({
+      text: formatSoapNote(note),
+      title: "SOAP note",
+      type: PROGRESS_NOTE_TYPE,
+      date: note.generatedAt,
+      language: result.language,
+      context,
+      description: `SOAP note drafted by ${note.model} from the dictation`,
+    });
+    (document.resource as DocumentReference).relatesTo = [
+      { code: "transforms", target: { reference: transcript[1].fullUrl } },
+    ];
+    entries.push(binary, document);
+  }
+
+  return {
+    resourceType: "Bundle",
+    type: "transaction",
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
+
+function documentEntries(options: {
+  text: string;
+  title: string;
+  type: { code: string; display: string };
+  date: string;
+  language?: string;
+  context: DocumentContext;
+  description: string;
+}): [BundleEntry, BundleEntry] {
+  const content = Buffer.from(options.text, "utf8");
+  const language = options.language && languageTag(options.language);
+  const binaryUrl = `urn:uuid:${randomUUID()}`;
+
+  const binary: Binary = {
+    resourceType: "Binary",
+    contentType: TEXT_PLAIN,
+    data: content.toString("base64"),
+  };
+
+  const attachment: Attachment = {
+    contentType: TEXT_PLAIN,
+    url: binaryUrl,
+    size: content.length,
+    hash: createHash("sha1").update(content).digest("base64"),
+    title: options.title,
+    creation: options.date,
+    ...(language ? { language } : {}),
+  };
+
+  const document: DocumentReference = {
+    resourceType: "DocumentReference",
+    status: "current",
+    // Machine output stays preliminary until a clinician signs it in the EHR
+    docStatus: "preliminary",
+    type: {
+      coding: [{ system: LOINC, ...options.type }],
+      text: options.title,
+    },
+    category: [CLINICAL_NOTE_CATEGORY],
+    subject: { reference: `Patient/${options.context.patientId}` },
+    date: options.date,
+    author: [{ reference: `Practitioner/${options.context.practitionerId}` }],
+    description: options.description,
+    content: [{ attachment }],
+    ...(options.context.encounterId
+      ? {
+          context: {
+            encounter: [
+              { reference: `Encounter/${options.context.encounterId}` },
+            ],
+          },
+        }
+      : {}),
+  };
+
+  return [
+    {
+      fullUrl: binaryUrl,
+      resource: binary,
+      request: { method: "POST", url: "Binary" },
+    },
+    {
+      fullUrl: `urn:uuid:${randomUUID()}`,
+      resource: document,
+      request: { method: "POST", url: "DocumentReference" },
+    },
+  ];
+}
+
+// Whisper reports languages by name ("english"); FHIR wants BCP-47 codes
+const LANGUAGE_CODES: Record<string, string> = {
+  english: "en",
+  spanish: "es",
+  french: "fr",
+  german: "de",
+  italian: "it",
+  portuguese: "pt",
+  dutch: "nl",
+  chinese: "zh",
+  japanese: "ja",
+  arabic: "ar",
+};
+
+function languageTag(language: string) {
+  const normalized = language.trim().toLowerCase();
+  if (/^[a-z]{2}(-[a-z0-9]{2,8})*$/i.test(normalized)) return normalized;
+  return LANGUAGE_CODES[normalized];
+}
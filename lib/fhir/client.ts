@@ -0,0 +1,38 @@
+import type { FhirExportRequest, FhirExportResponse } from "@/lib/fhir/types";
+import type { SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+export class FhirExportError extends Error {
+  constructor(message: string, public issues?: string[]) {
+    super(message);
+    this.name = "FhirExportError";
+  }
+}
+
+// Build (and optionally send) the EHR bundle through POST /api/fhir
+export async function exportToFhir(
+  result: TranscriptionResult,
+  context: FhirExportRequest["context"],
+  options: { note?: SoapNote; send: boolean }
+): Promise<FhirExportResponse> {
+  const response = await fetch("/api/fhir", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      // The object URL is client-only and means nothing to the server
+      result: { ...result, audioUrl: undefined },
+      note: options.note,
+      context,
+      send: options.send,
+    }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new FhirExportError(
+      body.error || "Failed to export the document",
+      body.issues
+    );
+  }
+  return body;
+}
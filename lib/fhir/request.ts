@@ -0,0 +1,70 @@
+import { FHIR_ID_PATTERN } from "@/lib/fhir/validate";
+import type { FhirExportRequest } from "@/lib/fhir/types";
+import { SOAP_SECTIONS, type SoapNote } from "@/lib/notes/types";
+import { parseTranscriptionResult } from "@/lib/transcription/schema";
+
+export class FhirRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FhirRequestError";
+  }
+}
+
+// Validate the body of POST /api/fhir. Transcript problems surface as
+// SchemaError, everything else as FhirRequestError.
+export function parseFhirExportRequest(body: unknown): FhirExportRequest {
+  if (typeof body !== "object" || body === null) {
+    throw new FhirRequestError("Request body must be an object");
+  }
+
+  const { result, note, context, send } = body as Record<string, unknown>;
+  return {
+    result: parseTranscriptionResult(result),
+    note: note === undefined || note === null ? undefined : parseNote(note),
+    context: parseContext(context),
+    send: send === true,
+  };
+}
+
+function parseContext(data: unknown): FhirExportRequest["context"] {
+  if (typeof data !== "object" || data === null) {
+    throw new FhirRequestError("context with a patient id is required");
+  }
+
+  const { patientId, encounterId } = data as Record<string, unknown>;
+  const id = (value: unknown, label: string) => {
+    if (typeof value !== "string" || !FHIR_ID_PATTERN.test(value.trim())) {
+      throw new FhirRequestError(`${label} must be a FHIR resource id`);
+    }
+    return value.trim();
+  };
+
+  return {
+    patientId: id(patientId, "Patient id"),
+    encounterId:
+      encounterId === undefined || encounterId === ""
+        ? undefined
+        : id(encounterId, "Encounter id"),
+  };
+}
+
+// Only the fields the bundle uses are checked
+function parseNote(data: unknown): SoapNote {
+  const note = data as Partial<SoapNote>;
+  const valid =
+    typeof note === "object" &&
+    typeof note.generatedAt === "string" &&
+    typeof note.model === "string" &&
+    typeof note.sections === "object" &&
+    note.sections !== null &&
+    SOAP_SECTIONS.every(
+      ({ id }) =>
+        Array.isArray(note.sections![id]) &&
+        note.sections![id].every(
+          (sentence) => typeof sentence?.text === "string"
+        )
+    );
+
+  if (!valid) throw new FhirRequestError("note must be a generated SOAP note");
+  return note as SoapNote;
+}
@@ -0,0 +1,90 @@
+import type {
+  Bundle,
+  OperationOutcome,
+  TransactionResponse,
+} from "@/lib/fhir/types";
+
+const REQUEST_TIMEOUT_MS = 30_000;
+
+export class FhirConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FhirConfigurationError";
+  }
+}
+
+export class FhirServerError extends Error {
+  constructor(message: string, public status?: number) {
+    super(message);
+    this.name = "FhirServerError";
+  }
+}
+
+export interface FhirServerConfig {
+  baseUrl: string;
+  authToken?: string;
+}
+
+// FHIR_BASE_URL points at the EHR's FHIR R4 endpoint
+export function getFhirServerConfig(
+  env: NodeJS.ProcessEnv = process.env
+): FhirServerConfig {
+  const baseUrl = env.FHIR_BASE_URL?.trim();
+  if (!baseUrl) {
+    throw new FhirConfigurationError("FHIR_BASE_URL is not set");
+  }
+  return {
+    baseUrl: baseUrl.replace(/\/+$/, ""),
+    authToken: env.FHIR_AUTH_TOKEN || undefined,
+  };
+}
+
+// POST a transaction bundle to the server base and return its response
+export async function sendBundle(
+  bundle: Bundle,
+  { baseUrl, authToken }: FhirServerConfig
+): Promise<TransactionResponse> {
+  let response: Response;
+  try {
+    response = await fetch(baseUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/fhir+json",
+        Accept: "application/fhir+json",
+        ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+      },
+      body: JSON.stringify(bundle),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new FhirServerError(
+      `Could not reach the FHIR server: ${
+        error instanceof Error ? error.message : String(error)
+      }`
+    );
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new FhirServerError(
+      outcomeMessage(body) ?? `FHIR server responded with ${response.status}`,
+      response.status
+    );
+  }
+  if (body?.resourceType !== "Bundle" || body.type !== "transaction-response") {
+    throw new FhirServerError(
+      "FHIR server did not return a transaction-response"
+    );
+  }
+  return body as TransactionResponse;
+}
+
+function outcomeMessage(body: unknown) {
+  const outcome = body as OperationOutcome | null;
+  if (outcome?.resourceType !== "OperationOutcome") return undefined;
+
+  const messages = outcome.issue
+    ?.map((issue) => issue.diagnostics ?? issue.code)
+    .filter(Boolean);
+  return messages?.length ? messages.join("; ") : undefined;
+}
@@ -0,0 +1,100 @@
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+import type {
+  Bundle,
+  BundleResource,
+  OperationOutcome,
+  TransactionResponse,
+} from "@/lib/fhir/types";
+import { FhirValidationError, validateBundle } from "@/lib/fhir/validate";
+
+// A tiny HAPI-like FHIR server for development: accepts transaction
+// bundles of Binary/DocumentReference and stores them in the data dir
+
+const FILE_NAME = "fhir-standin.json";
+
+interface StandInState {
+  nextId: number;
+  resources: Record<string, BundleResource & { id: string }>;
+}
+
+// Never expose the stand-in in production unless explicitly asked to
+export function isStandInEnabled(env: NodeJS.ProcessEnv = process.env) {
+  return env.NODE_ENV !== "production" || env.FHIR_STANDIN === "enabled";
+}
+
+export async function processTransaction(
+  data: unknown
+): Promise<
+  | { ok: true; response: TransactionResponse }
+  | { ok: false; outcome: OperationOutcome }
+> {
+  const bundle = data as Bundle;
+  try {
+    validateBundle(bundle);
+  } catch (error) {
+    if (!(error instanceof FhirValidationError)) throw error;
+    return {
+      ok: false,
+      outcome: {
+        resourceType: "OperationOutcome",
+        issue: error.issues.map((diagnostics) => ({
+          severity: "error",
+          code: "invalid",
+          diagnostics,
+        })),
+      },
+    };
+  }
+
+  const state = await readJsonFile<StandInState>(FILE_NAME, {
+    nextId: 1,
+    resources: {},
+  });
+
+  // Assign server ids first so urn:uuid references can be rewritten
+  const assigned = new Map<string, string>();
+  for (const entry of bundle.entry) {
+    assigned.set(
+      entry.fullUrl,
+      `${entry.resource.resourceType}/${state.nextId++}`
+    );
+  }
+
+  let serialized = JSON.stringify(bundle.entry.map((entry) => entry.resource));
+  for (const [fullUrl, reference] of assigned) {
+    serialized = serialized.split(`"${fullUrl}"`).join(`"${reference}"`);
+  }
+  const resources = JSON.parse(serialized) as BundleResource[];
+
+  const lastUpdated = new Date().toISOString();
+  const locations = resources.map((resource, index) => {
+    const reference = assigned.get(bundle.entry[index].fullUrl)!;
+    state.resources[reference] = {
+      ...resource,
+      id: reference.split("/")[1],
+      meta: { versionId: "1", lastUpdated },
+    };
+    return `${reference}/_history/1`;
+  });
+
+  await writeJsonFile(FILE_NAME, state);
+
+  return {
+    ok: true,
+    response: {
+      resourceType: "Bundle",
+      type: "transaction-response",
+      entry: locations.map((location) => ({
+        response: { status: "201 Created", location },
+      })),
+    },
+  };
+}
+
+export async function readResource(type: string, id: string) {
+  const state = await readJsonFile<StandInState>(FILE_NAME, {
+    nextId: 1,
+    resources: {},
+  });
+  return state.resources[`${type}/${id}`];
+}
@@ -0,0 +1,115 @@
+import type { SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// The subset of FHIR R4 used to hand documents to an EHR
+
+export interface Reference {
+  reference: string;
+  display?: string;
+}
+
+export interface Coding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
+export interface CodeableConcept {
+  coding: Coding[];
+  text?: string;
+}
+
+export interface Attachment {
+  contentType: string;
+  url?: string;
+  data?: string;
+  size?: number;
+  hash?: string; // Base64 SHA-1 of the content
+  title?: string;
+  creation?: string;
+  language?: string;
+}
+
+// Set by the server on stored resources
+export interface Meta {
+  versionId?: string;
+  lastUpdated?: string;
+}
+
+export interface Binary {
+  resourceType: "Binary";
+  id?: string;
+  meta?: Meta;
+  contentType: string;
+  data: string; // Base64
+}
+
+export interface DocumentReference {
+  resourceType: "DocumentReference";
+  id?: string;
+  meta?: Meta;
+  status: "current" | "superseded" | "entered-in-error";
+  docStatus?: "preliminary" | "final" | "amended" | "entered-in-error";
+  type: CodeableConcept;
+  category?: CodeableConcept[];
+  subject: Reference;
+  date: string;
+  author: Reference[];
+  description?: string;
+  relatesTo?: {
+    code: "replaces" | "transforms" | "signs" | "appends";
+    target: Reference;
+  }[];
+  content: { attachment: Attachment }[];
+  context?: {
+    encounter?: Reference[];
+    period?: { start?: string; end?: string };
+  };
+}
+
+export type BundleResource = Binary | DocumentReference;
+
+export interface BundleEntry {
+  fullUrl: string;
+  resource: BundleResource;
+  request: { method: "POST" | "PUT"; url: string };
+}
+
+export interface Bundle {
+  resourceType: "Bundle";
+  type: "transaction";
+  timestamp: string;
+  entry: BundleEntry[];
+}
+
+export interface TransactionResponse {
+  resourceType: "Bundle";
+  type: "transaction-response";
+  entry: { response: { status: string; location?: string } }[];
+}
+
+export interface OperationOutcome {
+  resourceType: "OperationOutcome";
+  issue: { severity: string; code: string; diagnostics?: string }[];
+}
+
+// Who and what the document is about, as FHIR logical ids
+export interface DocumentContext {
+  patientId: string;
+  encounterId?: string;
+  practitionerId: string;
+}
+
+// Body of POST /api/fhir
+export interface FhirExportRequest {
+  result: TranscriptionResult;
+  note?: SoapNote;
+  context: Omit<DocumentContext, "practitionerId">; // The author is the user
+  send?: boolean; // Only build and validate when false
+}
+
+export interface FhirExportResponse {
+  bundle: Bundle;
+  sent: boolean;
+  locations?: string[]; // Where the server stored each resource
+}
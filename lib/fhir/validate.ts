@@ -0,0 +1,148 @@
+import type {
+  Binary,
+  Bundle,
+  DocumentReference,
+  Reference,
+} from "@/lib/fhir/types";
+
+export class FhirValidationError extends Error {
+  constructor(public issues: string[]) {
+    super(`Invalid FHIR bundle: ${issues.join("; ")}`);
+    this.name = "FhirValidationError";
+  }
+}
+
+// FHIR logical ids: up to 64 letters, digits, "-" and "."
+export const FHIR_ID_PATTERN = /^[A-Za-z0-9\-.]{1,64}$/;
+
+const LITERAL_REFERENCE =
+  /^(Patient|Encounter|Practitioner)\/[A-Za-z0-9\-.]{1,64}$/;
+const UUID_URL =
+  /^urn:uuid:[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+const DATE_TIME =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+
+// Check the rules a FHIR server would reject the transaction for, before
+// sending it. Throws with every problem found.
+export function validateBundle(bundle: Bundle) {
+  if (typeof bundle !== "object" || bundle === null) {
+    throw new FhirValidationError(["body must be a Bundle resource"]);
+  }
+
+  const issues: string[] = [];
+  const fullUrls = new Set<string>();
+  const entries = Array.isArray(bundle.entry)
+    ? bundle.entry.filter((entry) => typeof entry === "object" && entry)
+    : [];
+
+  if (bundle.resourceType !== "Bundle")
+    issues.push("resourceType must be Bundle");
+  if (bundle.type !== "transaction")
+    issues.push("Bundle.type must be transaction");
+  if (entries.length === 0) issues.push("Bundle has no entries");
+
+  entries.forEach((entry, index) => {
+    const path = `entry[${index}]`;
+    if (!UUID_URL.test(entry.fullUrl)) {
+      issues.push(`${path}.fullUrl must be a urn:uuid`);
+    } else if (fullUrls.has(entry.fullUrl)) {
+      issues.push(`${path}.fullUrl is not unique`);
+    }
+    fullUrls.add(entry.fullUrl);
+
+    if (entry.request?.url !== entry.resource?.resourceType) {
+      issues.push(`${path}.request.url must match the resource type`);
+    }
+  });
+
+  entries.forEach((entry, index) => {
+    const path = `entry[${index}].resource`;
+    if (entry.resource?.resourceType === "Binary") {
+      validateBinary(entry.resource, path, issues);
+    } else if (entry.resource?.resourceType === "DocumentReference") {
+      validateDocumentReference(entry.resource, path, fullUrls, issues);
+    } else {
+      issues.push(`${path} has an unsupported resource type`);
+    }
+  });
+
+  if (issues.length > 0) throw new FhirValidationError(issues);
+}
+
+function validateBinary(binary: Binary, path: string, issues: string[]) {
+  if (!binary.contentType) issues.push(`${path}.contentType is required`);
+  if (!binary.data || !BASE64.test(binary.data)) {
+    issues.push(`${path}.data must be base64`);
+  }
+}
+
+function validateDocumentReference(
+  document: DocumentReference,
+  path: string,
+  fullUrls: Set<string>,
+  issues: string[]
+) {
+  if (
+    !["current", "superseded", "entered-in-error"].includes(document.status)
+  ) {
+    issues.push(`${path}.status is not a DocumentReference status`);
+  }
+  if (!document.type?.coding?.length) issues.push(`${path}.type is required`);
+  if (!DATE_TIME.test(document.date)) {
+    issues.push(`${path}.date must be a FHIR instant`);
+  }
+
+  checkReference(document.subject, "Patient", `${path}.subject`, issues);
+  if (!document.author?.length) issues.push(`${path}.author is required`);
+  document.author?.forEach((author, index) =>
+    checkReference(author, "Practitioner", `${path}.author[${index}]`, issues)
+  );
+  document.context?.encounter?.forEach((encounter, index) =>
+    checkReference(
+      encounter,
+      "Encounter",
+      `${path}.context.encounter[${index}]`,
+      issues
+    )
+  );
+
+  if (!document.content?.length) issues.push(`${path}.content is required`);
+  document.content?.forEach((content, index) => {
+    const attachment = content?.attachment;
+    const attachmentPath = `${path}.content[${index}].attachment`;
+    if (!attachment?.contentType) {
+      issues.push(`${attachmentPath}.contentType is required`);
+    }
+    if (!attachment?.url && !attachment?.data) {
+      issues.push(`${attachmentPath} needs a url or data`);
+    }
+    if (
+      attachment?.url?.startsWith("urn:uuid:") &&
+      !fullUrls.has(attachment.url)
+    ) {
+      issues.push(`${attachmentPath}.url does not resolve within the bundle`);
+    }
+  });
+
+  document.relatesTo?.forEach((relation, index) => {
+    if (!fullUrls.has(relation.target.reference)) {
+      issues.push(`${path}.relatesTo[${index}].target does not resolve`);
+    }
+  });
+}
+
+function checkReference(
+  reference: Reference | undefined,
+  type: string,
+  path: string,
+  issues: string[]
+) {
+  if (
+    !reference?.reference ||
+    !LITERAL_REFERENCE.test(reference.reference) ||
+    !reference.reference.startsWith(`${type}/`)
+  ) {
+    issues.push(`${path} must reference a ${type} by id`);
+  }
+}
@@ -0,0 +1,17 @@
+const STORAGE_KEY = "dictamed:history-retention-days";
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export function getRetentionDays() {
+  if (typeof localStorage === "undefined") return DEFAULT_RETENTION_DAYS;
+
+  const stored = Number(localStorage.getItem(STORAGE_KEY));
+  return localStorage.getItem(STORAGE_KEY) !== null &&
+    Number.isInteger(stored) &&
+    stored >= 0
+    ? stored
+    : DEFAULT_RETENTION_DAYS;
+}
+
+export function setRetentionDays(days: number) {
+  localStorage.setItem(STORAGE_KEY, String(days));
+}
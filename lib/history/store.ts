@@ -0,0 +1,178 @@
+import { openDatabase, requestResult, transactionDone } from "@/lib/idb";
+import type {
+  DictationRecord,
+  DictationUpdate,
+  NewDictation,
+} from "@/lib/history/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+const DB_NAME = "dictamed-history";
+const DB_VERSION = 1;
+const DICTATIONS = "dictations";
+const AUDIO = "audio";
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TITLE_WORDS = 8;
+
+function database() {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(DICTATIONS)) {
+      db.createObjectStore(DICTATIONS, { keyPath: "id" }).createIndex(
+        "createdAt",
+        "createdAt"
+      );
+    }
+    if (!db.objectStoreNames.contains(AUDIO)) {
+      db.createObjectStore(AUDIO);
+    }
+  });
+}
+
+// The user's dictations, newest first
+export async function listDictations(
+  ownerId: string
+): Promise<DictationRecord[]> {
+  const db = await database();
+  const records = await requestResult<DictationRecord[]>(
+    db.transaction(DICTATIONS).objectStore(DICTATIONS).getAll()
+  );
+  return records
+    .filter((record) => record.ownerId === ownerId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+// How many dictations were saved on this browser before sign-in existed.
+// They have no owner, so nobody's history shows them.
+export async function countUnownedDictations(): Promise<number> {
+  const db = await database();
+  const records = await requestResult<DictationRecord[]>(
+    db.transaction(DICTATIONS).objectStore(DICTATIONS).getAll()
+  );
+  return records.filter((record) => !record.ownerId).length;
+}
+
+// Give the dictations saved before sign-in to a user who said they are
+// theirs. Returns how many.
+export async function claimDictations(ownerId: string): Promise<number> {
+  const db = await database();
+  const transaction = db.transaction(DICTATIONS, "readwrite");
+  const store = transaction.objectStore(DICTATIONS);
+  const records = await requestResult<DictationRecord[]>(store.getAll());
+
+  const unowned = records.filter((record) => !record.ownerId);
+  for (const record of unowned) store.put({ ...record, ownerId });
+  await transactionDone(transaction);
+  return unowned.length;
+}
+
+export async function getDictationAudio(id: string): Promise<Blob | undefined> {
+  const db = await database();
+  return requestResult<Blob | undefined>(
+    db.transaction(AUDIO).objectStore(AUDIO).get(id)
+  );
+}
+
+export async function saveDictation({
+  ownerId,
+  result,
+  audio,
+  title,
+}: NewDictation): Promise<DictationRecord> {
+  const now = new Date().toISOString();
+  const record: DictationRecord = {
+    id: crypto.randomUUID(),
+    ownerId,
+    title: title?.trim() || defaultTitle(result),
+    createdAt: now,
+    updatedAt: now,
+    result: storable(result),
+    originalWords: result.words,
+    audioType: audio?.type,
+    hasAudio: !!audio,
+  };
+
+  const db = await database();
+  const transaction = db.transaction([DICTATIONS, AUDIO], "readwrite");
+  transaction.objectStore(DICTATIONS).put(record);
+  if (audio) transaction.objectStore(AUDIO).put(audio, record.id);
+  await transactionDone(transaction);
+  return record;
+}
+
+export async function updateDictation(
+  id: string,
+  update: DictationUpdate
+): Promise<DictationRecord> {
+  const db = await database();
+  const transaction = db.transaction(DICTATIONS, "readwrite");
+  const store = transaction.objectStore(DICTATIONS);
+  const existing = await requestResult<DictationRecord | undefined>(
+    store.get(id)
+  );
+  if (!existing) throw new Error("Dictation not found");
+
+  const record: DictationRecord = {
+    ...existing,
+    title: update.title?.trim() || existing.title,
+    result: update.result ? storable(update.result) : existing.result,
+    updatedAt: new Date().toISOString(),
+  };
+  store.put(record);
+  await transactionDone(transaction);
+  return record;
+}
+
+export async function deleteDictation(id: string) {
+  const db = await database();
+  const transaction = db.transaction([DICTATIONS, AUDIO], "readwrite");
+  transaction.objectStore(DICTATIONS).delete(id);
+  transaction.objectStore(AUDIO).delete(id);
+  await transactionDone(transaction);
+}
+
+// Delete dictations older than the retention window. Returns how many.
+export async function purgeExpiredDictations(
+  retentionDays: number,
+  now = Date.now()
+): Promise<number> {
+  if (retentionDays <= 0) return 0;
+
+  const cutoff = new Date(now - retentionDays * DAY_MS).toISOString();
+  const db = await database();
+  const transaction = db.transaction([DICTATIONS, AUDIO], "readwrite");
+  const ids = await requestResult(
+    transaction
+      .objectStore(DICTATIONS)
+      .index("createdAt")
+      .getAllKeys(IDBKeyRange.upperBound(cutoff, true))
+  );
+
+  for (const id of ids) {
+    transaction.objectStore(DICTATIONS).delete(id);
+    transaction.objectStore(AUDIO).delete(id);
+  }
+  await transactionDone(transaction);
+  return ids.length;
+}
+
+export function matchesDictation(record: DictationRecord, query: string) {
+  const needle = query.trim().toLowerCase();
+  return (
+    !needle ||
+    record.title.toLowerCase().includes(needle) ||
+    record.result.text.toLowerCase().includes(needle) ||
+    !!record.result.audioFileName?.toLowerCase().includes(needle)
+  );
+}
+
+function defaultTitle(result: TranscriptionResult) {
+  const words = result.text.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return result.audioFileName ?? "Untitled dictation";
+
+  const title = words.slice(0, TITLE_WORDS).join(" ");
+  return words.length > TITLE_WORDS ? `${title}...` : title;
+}
+
+// Object URLs only live as long as the page, so never persist them
+function storable(result: TranscriptionResult): TranscriptionResult {
+  return { ...result, audioUrl: undefined };
+}
@@ -0,0 +1,40 @@
+import type {
+  TranscriptionResult,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+// A saved dictation. The audio blob is stored separately under the same id.
+// Browsers can be shared between users, so each record has an owner.
+export interface DictationRecord {
+  id: string;
+  ownerId?: string; // Unset on records saved before sign-in existed
+  title: string;
+  createdAt: string;
+  updatedAt: string;
+  result: TranscriptionResult; // Without the (session-only) audioUrl
+  originalWords?: WordTimestamp[]; // Machine output before manual edits
+  audioType?: string;
+  hasAudio: boolean;
+}
+
+export interface NewDictation {
+  ownerId: string;
+  result: TranscriptionResult;
+  audio?: Blob;
+  title?: string;
+}
+
+export interface DictationUpdate {
+  title?: string;
+  result?: TranscriptionResult;
+}
+
+// Days a dictation is kept before it is purged; 0 keeps it forever
+export const RETENTION_OPTIONS = [
+  { days: 1, label: "1 day" },
+  { days: 7, label: "7 days" },
+  { days: 30, label: "30 days" },
+  { days: 90, label: "90 days" },
+  { days: 365, label: "1 year" },
+  { days: 0, label: "Forever" },
+] as const;
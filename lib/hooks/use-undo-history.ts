@@ -0,0 +1,43 @@
+"use client";
+
+import { useState } from "react";
+
+// Keep at most this many steps in each direction
+const MAX_HISTORY = 100;
+
+// Undo/redo for a value owned by the caller. `apply` records the current
+// value before handing the new one to `onChange`.
+export function useUndoHistory<T>(value: T, onChange: (value: T) => void) {
+  const [past, setPast] = useState<T[]>([]);
+  const [future, setFuture] = useState<T[]>([]);
+
+  const apply = (next: T) => {
+    setPast((previous) => [...previous, value].slice(-MAX_HISTORY));
+    setFuture([]);
+    onChange(next);
+  };
+
+  const undo = () => {
+    const previous = past[past.length - 1];
+    if (previous === undefined) return;
+    setPast(past.slice(0, -1));
+    setFuture([value, ...future].slice(0, MAX_HISTORY));
+    onChange(previous);
+  };
+
+  const redo = () => {
+    const next = future[0];
+    if (next === undefined) return;
+    setFuture(future.slice(1));
+    setPast([...past, value].slice(-MAX_HISTORY));
+    onChange(next);
+  };
+
+  return {
+    apply,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import {
+  preprocessAudio,
+  preprocessedFile,
+  type PreprocessedAudio,
+} from "@/lib/audio/preprocess";
+import {
+  transcribe,
+  type TranscribeRequestOptions,
+} from "@/lib/transcription/client";
+import { TranscriptionError } from "@/lib/transcription/errors";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import { useEffect, useRef, useState } from "react";
+
+// Files transcribed at the same time; the rest wait their turn
+const MAX_CONCURRENT_UPLOADS = 2;
+
+export type UploadStatus =
+  | "queued"
+  | "preparing"
+  | "uploading"
+  | "transcribing"
+  | "done"
+  | "failed";
+
+export interface UploadItem {
+  id: string;
+  file: File;
+  // Settings at the time the file was added
+  options: Omit<TranscribeRequestOptions, "signal" | "onUploadProgress">;
+  template?: string;
+  preprocess: boolean;
+  prepared?: PreprocessedAudio; // Audio sent and kept for playback
+  status: UploadStatus;
+  progress: number; // Share of the file uploaded, 0 to 1
+  result?: TranscriptionResult;
+  historyId?: string; // Where the result was saved
+  error?: string;
+  retryable?: boolean;
+}
+
+// Transcribe many files with bounded concurrency. `onComplete` is called
+// with each result and the audio it was transcribed from, and may resolve
+// to the id it was saved under.
+export function useUploadQueue(
+  onComplete?: (
+    result: TranscriptionResult,
+    audio: Blob
+  ) => Promise<string | undefined> | void
+) {
+  const [items, setItems] = useState<UploadItem[]>([]);
+  const controllers = useRef(new Map<string, AbortController>());
+  const onCompleteRef = useRef(onComplete);
+
+  useEffect(() => {
+    onCompleteRef.current = onComplete;
+  }, [onComplete]);
+
+  const update = (id: string, changes: Partial<UploadItem>) =>
+    setItems((previous) =>
+      previous.map((item) => (item.id === id ? { ...item, ...changes } : item))
+    );
+
+  // Start waiting files whenever a slot is free
+  useEffect(() => {
+    const start = async (item: UploadItem) => {
+      const controller = new AbortController();
+      controllers.current.set(item.id, controller);
+      update(item.id, { status: "preparing", progress: 0, error: undefined });
+
+      try {
+        // Kept from an earlier attempt when retrying
+        let prepared = item.prepared;
+        if (!prepared && item.preprocess) {
+          prepared = await preprocessAudio(item.file);
+          if (controller.signal.aborted) return;
+        }
+        const audio = prepared
+          ? preprocessedFile(item.file, prepared)
+          : item.file;
+        update(item.id, { status: "uploading", prepared });
+
+        const transcribed = await transcribe(audio, {
+          ...item.options,
+          signal: controller.signal,
+          onUploadProgress: (progress) =>
+            update(
+              item.id,
+              progress < 1 ? { progress } : { progress, status: "transcribing" }
+            ),
+        });
+        const result = {
+          ...transcribed,
+          audioFileName: item.file.name,
+          template: item.template,
+        };
+        const historyId = await onCompleteRef.current?.(result, audio);
+        update(item.id, {
+          status: "done",
+          result,
+          historyId: historyId ?? undefined,
+        });
+      } catch (error) {
+        // Removed from the queue while in flight
+        if (controller.signal.aborted) return;
+
+        console.error("Transcription error:", error);
+        update(item.id, {
+          status: "failed",
+          error:
+            error instanceof Error ? error.message : "Transcription failed",
+          retryable:
+            error instanceof TranscriptionError ? error.retryable : true,
+        });
+      } finally {
+        controllers.current.delete(item.id);
+      }
+    };
+
+    // Started files hold a controller until they settle
+    const running = controllers.current.size;
+    items
+      .filter(
+        (item) => item.status === "queued" && !controllers.current.has(item.id)
+      )
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - running))
+      .forEach(start);
+  }, [items]);
+
+  // Abandon uploads still running when the queue goes away
+  useEffect(() => {
+    const inFlight = controllers.current;
+    return () => inFlight.forEach((controller) => controller.abort());
+  }, []);
+
+  return {
+    items,
+    add(
+      files: File[],
+      options: UploadItem["options"],
+      { template, preprocess }: { template?: string; preprocess: boolean }
+    ) {
+      setItems((previous) => [
+        ...previous,
+        ...files.map((file) => ({
+          id: crypto.randomUUID(),
+          file,
+          options,
+          template,
+          preprocess,
+          status: "queued" as const,
+          progress: 0,
+        })),
+      ]);
+    },
+    retry(id: string) {
+      update(id, { status: "queued", progress: 0, error: undefined });
+    },
+    remove(id: string) {
+      // Free the slot now so the next file starts with this render
+      controllers.current.get(id)?.abort();
+      controllers.current.delete(id);
+      setItems((previous) => previous.filter((item) => item.id !== id));
+    },
+    clearFinished() {
+      setItems((previous) => previous.filter((item) => item.status !== "done"));
+    },
+  };
+}
+
+export type UploadQueue = ReturnType<typeof useUploadQueue>;
@@ -0,0 +1,61 @@
+// Minimal promise wrappers around IndexedDB
+
+export type UpgradeHandler = (
+  db: IDBDatabase,
+  oldVersion: number,
+  transaction: IDBTransaction
+) => void;
+
+const connections = new Map<string, Promise<IDBDatabase>>();
+
+// Open (and cache) a database, running `upgrade` when the version changes
+export function openDatabase(
+  name: string,
+  version: number,
+  upgrade: UpgradeHandler
+): Promise<IDBDatabase> {
+  const cached = connections.get(name);
+  if (cached) return cached;
+
+  const opening = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this browser"));
+      return;
+    }
+
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) =>
+      upgrade(request.result, event.oldVersion, request.transaction!);
+    request.onsuccess = () => {
+      // Let other tabs upgrade the schema
+      request.result.onversionchange = () => {
+        request.result.close();
+        connections.delete(name);
+      };
+      resolve(request.result);
+    };
+    request.onerror = () => reject(request.error);
+    request.onblocked = () =>
+      reject(new Error(`Database "${name}" is open in another tab`));
+  });
+
+  connections.set(name, opening);
+  opening.catch(() => connections.delete(name));
+  return opening;
+}
+
+export function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () =>
+      reject(transaction.error ?? new Error("Transaction aborted"));
+  });
+}
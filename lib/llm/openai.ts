@@ -0,0 +1,38 @@
+import OpenAI from "openai";
+import type { ChatMessage, LLMClient } from "@/lib/llm/types";
+
+interface OpenAIClientConfig {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  name?: string;
+}
+
+// Chat completions against OpenAI or any server exposing the same API
+export function createOpenAIClient({
+  apiKey,
+  baseURL,
+  model = "gpt-4o-mini",
+  name = "openai",
+}: OpenAIClientConfig = {}): LLMClient {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    model,
+    async completeJson(messages: ChatMessage[]) {
+      const completion = await client.chat.completions.create({
+        model,
+        messages,
+        temperature: 0, // Notes should not vary between runs
+        response_format: { type: "json_object" },
+      });
+
+      const content = completion.choices[0]?.message.content;
+      if (!content) {
+        throw new Error("The language model returned an empty response");
+      }
+      return JSON.parse(content);
+    },
+  };
+}
@@ -0,0 +1,11 @@
+export interface ChatMessage {
+  role: "system" | "user";
+  content: string;
+}
+
+export interface LLMClient {
+  name: string;
+  model: string;
+  // Returns the model's reply parsed as JSON
+  completeJson(messages: ChatMessage[]): Promise<unknown>;
+}
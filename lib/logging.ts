@@ -0,0 +1,31 @@
+import { detectPhi } from "@/lib/phi/detect";
+
+// Server logs end up in places PHI must not: log what went wrong, never
+// the request, and scrub anything identifying from the message itself
+export function logError(context: string, error: unknown) {
+  console.error(`${context}: ${describeError(error)}`);
+}
+
+export function describeError(error: unknown) {
+  if (!(error instanceof Error)) return typeof error;
+
+  const { status, code } = error as { status?: unknown; code?: unknown };
+  const details = [
+    typeof status === "number" ? `status ${status}` : undefined,
+    typeof code === "string" ? `code ${code}` : undefined,
+  ].filter(Boolean);
+
+  return `${error.name}${
+    details.length ? ` (${details.join(", ")})` : ""
+  }: ${scrub(error.message)}`;
+}
+
+function scrub(message: string) {
+  let scrubbed = message;
+  for (const match of detectPhi(message).reverse()) {
+    scrubbed = `${scrubbed.slice(0, match.start)}[${
+      match.category
+    }]${scrubbed.slice(match.end)}`;
+  }
+  return scrubbed;
+}
@@ -0,0 +1,270 @@
+import { normalizeTerm, similarity } from "@/lib/medical/fuzzy";
+import { MEDICAL_LEXICON, type LexiconEntry } from "@/lib/medical/lexicon";
+import type { TermCorrection } from "@/lib/medical/types";
+import {
+  findSegmentIndex,
+  joinSegmentText,
+  replacePhrase,
+} from "@/lib/transcription/text";
+import type {
+  TranscriptContent,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+// Longest run of transcribed words merged into one term ("meta pro lol"),
+// and of single letters when an abbreviation is spelled out ("n s t e m i")
+const MAX_NGRAM = 3;
+const MAX_SPELLED_LETTERS = 6;
+
+// Shorter terms are too easy to confuse with ordinary words
+const MIN_FUZZY_LENGTH = 6;
+const MIN_SIMILARITY = 0.8;
+
+interface IndexedEntry extends LexiconEntry {
+  normalized: string;
+}
+
+interface CorrectionOptions {
+  // Clinic-specific terms, e.g. from the selected custom term list
+  extraTerms?: string[];
+}
+
+// Rewrite misheard medical terms in text, segments and words consistently.
+// Deterministic: the same transcript and terms always yield the same output.
+export function correctTranscript<T extends TranscriptContent>(
+  transcript: T,
+  { extraTerms = [] }: CorrectionOptions = {}
+): { transcript: T; corrections: TermCorrection[] } {
+  if (!transcript.words?.length) {
+    return { transcript, corrections: [] };
+  }
+
+  const lexicon = indexLexicon([
+    ...MEDICAL_LEXICON,
+    ...extraTerms.map((term) => ({ term, category: "custom" as const })),
+  ]);
+  const words = transcript.words;
+  const correctedWords: WordTimestamp[] = [];
+  const corrections: TermCorrection[] = [];
+
+  for (let i = 0; i < words.length; ) {
+    const match = findBestMatch(words, i, lexicon);
+
+    if (!match) {
+      correctedWords.push(words[i]);
+      i++;
+      continue;
+    }
+
+    const originalWords = words.slice(i, i + match.length);
+    correctedWords.push(...retime(originalWords, match.entry.term));
+    corrections.push({
+      original: originalWords.map((word) => word.word).join(" "),
+      replacement: match.entry.term,
+      score: Math.round(match.score * 100) / 100,
+      category: match.entry.category,
+      start: originalWords[0].start,
+      end: originalWords[originalWords.length - 1].end,
+      originalWords,
+    });
+    i += match.length;
+  }
+
+  if (corrections.length === 0) {
+    return { transcript, corrections };
+  }
+
+  return {
+    transcript: rewriteText(
+      { ...transcript, words: correctedWords },
+      corrections.map((correction) => ({
+        time: correction.start,
+        from: correction.originalWords.map((word) => word.word),
+        to: correction.replacement,
+      }))
+    ),
+    corrections,
+  };
+}
+
+// Put the transcribed words of a correction back
+export function revertCorrection<T extends TranscriptContent>(
+  transcript: T,
+  correction: TermCorrection
+): T {
+  const words = transcript.words ?? [];
+  const replacementWords = correction.replacement.split(" ");
+  const index = words.findIndex(
+    (word) =>
+      word.start === correction.start && word.word === replacementWords[0]
+  );
+  if (index === -1) return transcript;
+
+  return rewriteText(
+    {
+      ...transcript,
+      words: [
+        ...words.slice(0, index),
+        ...correction.originalWords,
+        ...words.slice(index + replacementWords.length),
+      ],
+    },
+    [
+      {
+        time: correction.start,
+        from: replacementWords,
+        to: correction.original,
+      },
+    ]
+  );
+}
+
+function findBestMatch(
+  words: WordTimestamp[],
+  index: number,
+  lexicon: Map<string, IndexedEntry[]>
+) {
+  // A word that already is a known term starts no correction
+  const first = normalizeTerm(words[index].word);
+  if (lexicon.get(first[0])?.some((entry) => entry.normalized === first)) {
+    return null;
+  }
+
+  let best: { entry: IndexedEntry; score: number; length: number } | null =
+    null;
+
+  for (let length = 1; length <= MAX_SPELLED_LETTERS; length++) {
+    if (index + length > words.length) break;
+
+    const tokens = words.slice(index, index + length).map((word) => word.word);
+    if (length > MAX_NGRAM && tokens.some((token) => token.length > 1)) break;
+
+    const candidate = normalizeTerm(tokens.join(""));
+    if (!candidate) continue;
+
+    for (const entry of lexicon.get(candidate[0]) ?? []) {
+      const score = scoreCandidate(tokens, candidate, entry);
+      if (score !== null && (!best || score > best.score)) {
+        best = { entry, score, length };
+      }
+    }
+  }
+
+  return best;
+}
+
+// Similarity of a run of words to a lexicon term, or null if the run
+// should be left alone
+function scoreCandidate(
+  tokens: string[],
+  candidate: string,
+  entry: IndexedEntry
+): number | null {
+  if (candidate === entry.normalized) {
+    const surface = tokens.join(" ");
+    // Already correct, or only differs in case for a non-abbreviation
+    if (surface === entry.term) return null;
+    if (tokens.length === 1 && entry.category !== "abbreviation") return null;
+    return 1;
+  }
+
+  if (
+    entry.category === "abbreviation" ||
+    entry.normalized.length < MIN_FUZZY_LENGTH ||
+    candidate.length < MIN_FUZZY_LENGTH ||
+    Math.abs(candidate.length - entry.normalized.length) > 2
+  ) {
+    return null;
+  }
+
+  const score = similarity(candidate, entry.normalized);
+  return score >= MIN_SIMILARITY ? score : null;
+}
+
+// Spread the replacement's words over the time the original words took
+function retime(
+  originalWords: WordTimestamp[],
+  replacement: string
+): WordTimestamp[] {
+  const replacementWords = replacement.split(" ");
+  const start = originalWords[0].start;
+  const end = originalWords[originalWords.length - 1].end;
+
+  if (replacementWords.length === originalWords.length) {
+    return originalWords.map((word, i) => ({
+      ...word,
+      word: replacementWords[i],
+    }));
+  }
+
+  const step = (end - start) / replacementWords.length;
+  return replacementWords.map((word, i) => ({
+    word,
+    start: round(start + step * i),
+    end:
+      i === replacementWords.length - 1 ? end : round(start + step * (i + 1)),
+  }));
+}
+
+// Apply phrase substitutions to segment text, then derive the full text
+function rewriteText<T extends TranscriptContent>(
+  transcript: T,
+  substitutions: { time: number; from: string[]; to: string }[]
+): T {
+  if (transcript.segments?.length) {
+    const segments = transcript.segments.map((segment) => ({ ...segment }));
+    const cursors = new Map<number, number>();
+
+    for (const { time, from, to } of substitutions) {
+      const found = findSegmentIndex(segments, time);
+      if (found === -1) continue;
+
+      // Word and segment timestamps disagree slightly at segment edges
+      for (const index of [found, found + 1, found - 1]) {
+        if (!segments[index]) continue;
+
+        const replaced = replacePhrase(
+          segments[index].text,
+          from,
+          to,
+          cursors.get(index)
+        );
+        if (replaced) {
+          segments[index].text = replaced.text;
+          cursors.set(index, replaced.index);
+          break;
+        }
+      }
+    }
+
+    return { ...transcript, segments, text: joinSegmentText(segments) };
+  }
+
+  let text = transcript.text;
+  let cursor = 0;
+  for (const { from, to } of substitutions) {
+    const replaced = replacePhrase(text, from, to, cursor);
+    if (replaced) {
+      text = replaced.text;
+      cursor = replaced.index;
+    }
+  }
+  return { ...transcript, text };
+}
+
+// Bucket terms by first letter to keep the fuzzy search cheap
+function indexLexicon(entries: LexiconEntry[]) {
+  const index = new Map<string, IndexedEntry[]>();
+
+  for (const entry of entries) {
+    const normalized = normalizeTerm(entry.term);
+    if (!normalized) continue;
+
+    const bucket = index.get(normalized[0]) ?? [];
+    bucket.push({ ...entry, normalized });
+    index.set(normalized[0], bucket);
+  }
+  return index;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
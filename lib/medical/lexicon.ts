@@ -0,0 +1,213 @@
+export type LexiconCategory = "drug" | "anatomy" | "abbreviation" | "custom";
+
+export interface LexiconEntry {
+  term: string;
+  category: LexiconCategory;
+}
+
+const DRUGS = [
+  "acetaminophen",
+  "albuterol",
+  "alendronate",
+  "allopurinol",
+  "alprazolam",
+  "amiodarone",
+  "amlodipine",
+  "amoxicillin",
+  "apixaban",
+  "aripiprazole",
+  "atenolol",
+  "atorvastatin",
+  "azithromycin",
+  "baclofen",
+  "bisoprolol",
+  "budesonide",
+  "bumetanide",
+  "bupropion",
+  "buspirone",
+  "carvedilol",
+  "cefalexin",
+  "ceftriaxone",
+  "cetirizine",
+  "ciprofloxacin",
+  "citalopram",
+  "clonazepam",
+  "clonidine",
+  "clopidogrel",
+  "cyclobenzaprine",
+  "dapagliflozin",
+  "dexamethasone",
+  "diclofenac",
+  "digoxin",
+  "diltiazem",
+  "donepezil",
+  "doxycycline",
+  "duloxetine",
+  "empagliflozin",
+  "enalapril",
+  "enoxaparin",
+  "escitalopram",
+  "esomeprazole",
+  "famotidine",
+  "fluconazole",
+  "fluoxetine",
+  "fluticasone",
+  "furosemide",
+  "gabapentin",
+  "glimepiride",
+  "glipizide",
+  "heparin",
+  "hydralazine",
+  "hydrochlorothiazide",
+  "hydrocodone",
+  "ibuprofen",
+  "insulin",
+  "isosorbide",
+  "lamotrigine",
+  "lansoprazole",
+  "levetiracetam",
+  "levofloxacin",
+  "levothyroxine",
+  "lisinopril",
+  "lorazepam",
+  "losartan",
+  "meloxicam",
+  "metformin",
+  "methotrexate",
+  "methylprednisolone",
+  "metoclopramide",
+  "metoprolol",
+  "metronidazole",
+  "mirtazapine",
+  "montelukast",
+  "morphine",
+  "naproxen",
+  "nitrofurantoin",
+  "nitroglycerin",
+  "olanzapine",
+  "omeprazole",
+  "ondansetron",
+  "oxycodone",
+  "pantoprazole",
+  "paroxetine",
+  "pravastatin",
+  "prednisolone",
+  "prednisone",
+  "pregabalin",
+  "propranolol",
+  "quetiapine",
+  "ramipril",
+  "ranolazine",
+  "risperidone",
+  "rivaroxaban",
+  "rosuvastatin",
+  "semaglutide",
+  "sertraline",
+  "simvastatin",
+  "sitagliptin",
+  "spironolactone",
+  "sumatriptan",
+  "tamsulosin",
+  "ticagrelor",
+  "topiramate",
+  "tramadol",
+  "trazodone",
+  "valsartan",
+  "vancomycin",
+  "venlafaxine",
+  "verapamil",
+  "warfarin",
+  "zolpidem",
+];
+
+const ANATOMY = [
+  "abdomen",
+  "acetabulum",
+  "aorta",
+  "appendix",
+  "bronchus",
+  "calcaneus",
+  "carotid",
+  "cerebellum",
+  "cervical",
+  "clavicle",
+  "coccyx",
+  "cornea",
+  "duodenum",
+  "epiglottis",
+  "esophagus",
+  "femur",
+  "fibula",
+  "gallbladder",
+  "humerus",
+  "hypothalamus",
+  "ileum",
+  "jejunum",
+  "larynx",
+  "lumbar",
+  "mandible",
+  "maxilla",
+  "mediastinum",
+  "meniscus",
+  "metacarpal",
+  "metatarsal",
+  "myocardium",
+  "occipital",
+  "pancreas",
+  "patella",
+  "pericardium",
+  "peritoneum",
+  "pharynx",
+  "pleura",
+  "prostate",
+  "radius",
+  "retina",
+  "sacrum",
+  "scapula",
+  "sternum",
+  "thoracic",
+  "thyroid",
+  "tibia",
+  "trachea",
+  "ulna",
+  "ureter",
+  "urethra",
+  "vertebra",
+];
+
+// Matched exactly, e.g. when Whisper spells out "c o p d"
+const ABBREVIATIONS = [
+  "ACE",
+  "BMI",
+  "BNP",
+  "CABG",
+  "CBC",
+  "CHF",
+  "CKD",
+  "COPD",
+  "CPAP",
+  "CT",
+  "DVT",
+  "ECG",
+  "EKG",
+  "GERD",
+  "HbA1c",
+  "INR",
+  "MRI",
+  "NSAID",
+  "NSTEMI",
+  "PRN",
+  "STEMI",
+  "TIA",
+  "TSH",
+  "UTI",
+];
+
+export const MEDICAL_LEXICON: LexiconEntry[] = [
+  ...DRUGS.map((term) => ({ term, category: "drug" as const })),
+  ...ANATOMY.map((term) => ({ term, category: "anatomy" as const })),
+  ...ABBREVIATIONS.map((term) => ({
+    term,
+    category: "abbreviation" as const,
+  })),
+];
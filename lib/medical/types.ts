@@ -0,0 +1,14 @@
+import type { LexiconCategory } from "@/lib/medical/lexicon";
+import type { WordTimestamp } from "@/lib/transcription/types";
+
+// A word (or run of words) rewritten by the term correction pass
+export interface TermCorrection {
+  original: string;
+  replacement: string;
+  score: number; // Similarity between 0 and 1
+  category: LexiconCategory;
+  start: number;
+  end: number;
+  // Words as transcribed, so the correction can be undone exactly
+  originalWords: WordTimestamp[];
+}
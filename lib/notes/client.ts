@@ -0,0 +1,29 @@
+import type { SoapNote } from "@/lib/notes/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// Ask POST /api/notes for a SOAP note of a finished transcript
+export async function generateSoapNote(
+  result: TranscriptionResult
+): Promise<SoapNote> {
+  // Playback fields are client-only and mean nothing to the server
+  const { text, duration, language, segments, words, metadata } = result;
+
+  const response = await fetch("/api/notes", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      text,
+      duration,
+      language,
+      segments,
+      words,
+      metadata,
+    }),
+  });
+
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Failed to generate the note");
+  }
+  return body;
+}
@@ -0,0 +1,11 @@
+import { SOAP_SECTIONS, type SoapNote } from "@/lib/notes/types";
+
+// Plain-text rendering with one titled paragraph per section
+export function formatSoapNote(note: SoapNote) {
+  return SOAP_SECTIONS.map(
+    ({ id, title }) =>
+      `${title}\n${
+        note.sections[id].map((sentence) => sentence.text).join(" ") || "-"
+      }`
+  ).join("\n\n");
+}
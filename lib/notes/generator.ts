@@ -0,0 +1,192 @@
+import { createOpenAIClient } from "@/lib/llm/openai";
+import type { LLMClient } from "@/lib/llm/types";
+import type { SourceSegment } from "@/lib/notes/segments";
+import {
+  SOAP_SECTIONS,
+  type NoteSentence,
+  type SoapNote,
+  type SoapSectionId,
+} from "@/lib/notes/types";
+
+export interface SoapNoteGenerator {
+  model: string;
+  generate(segments: SourceSegment[]): Promise<SoapNote>;
+}
+
+// The selected note provider is missing settings or does not exist
+export class NoteConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "NoteConfigurationError";
+  }
+}
+
+const SYSTEM_PROMPT = `You are a medical scribe. Turn the numbered transcript segments of a clinical encounter into a concise SOAP note.
+Reply with a JSON object with the keys "subjective", "objective", "assessment" and "plan". Each key holds an array of {"text": string, "segments": number[]} where "text" is one note sentence and "segments" lists the ids of the transcript segments it is based on.
+Only state what the transcript supports. Leave a section empty rather than guessing.`;
+
+export function createLLMNoteGenerator(client: LLMClient): SoapNoteGenerator {
+  return {
+    model: client.model,
+    async generate(segments) {
+      const transcript = segments
+        .map(
+          (segment) =>
+            `[${segment.id}] (${segment.start.toFixed(
+              1
+            )}s-${segment.end.toFixed(1)}s) ${segment.text}`
+        )
+        .join("\n");
+
+      const reply = await client.completeJson([
+        { role: "system", content: SYSTEM_PROMPT },
+        { role: "user", content: transcript },
+      ]);
+
+      return {
+        sections: parseSections(reply, segments),
+        generatedAt: new Date().toISOString(),
+        model: client.model,
+      };
+    },
+  };
+}
+
+// Keyword cues for the rule-based generator, checked in this order
+const SECTION_CUES: [SoapSectionId, RegExp][] = [
+  [
+    "plan",
+    /\b(plan|will|follow[- ]up|start|continue|prescrib\w*|refer\w*|order\w*|obtain|schedule\w*|return|increase|decrease|stop)\b/i,
+  ],
+  [
+    "assessment",
+    /\b(assessment|impression|diagnos\w*|likely|consistent with|suspect\w*|differential|rule out)\b/i,
+  ],
+  [
+    "objective",
+    /\b(blood pressure|heart rate|pulse|temperature|saturation|respiratory rate|exam\w*|auscultation|palpation|tender\w*|lab\w*|ecg|ekg|x-ray|weight|bmi)\b|\d+ over \d+/i,
+  ],
+];
+
+// Deterministic stand-in for the LLM: sorts transcript sentences into
+// sections by keyword. Used offline and in tests.
+export function createRuleBasedNoteGenerator(): SoapNoteGenerator {
+  return {
+    model: "rule-based",
+    async generate(segments) {
+      const sections = emptySections();
+
+      for (const segment of segments) {
+        for (const sentence of splitSentences(segment.text)) {
+          const section =
+            SECTION_CUES.find(([, cue]) => cue.test(sentence))?.[0] ??
+            "subjective";
+          sections[section].push({
+            text: sentence,
+            segmentIds: [segment.id],
+            start: segment.start,
+            end: segment.end,
+          });
+        }
+      }
+
+      return {
+        sections,
+        generatedAt: new Date().toISOString(),
+        model: "rule-based",
+      };
+    },
+  };
+}
+
+let cachedGenerator: SoapNoteGenerator | null = null;
+
+// Build the generator selected by NOTES_PROVIDER (defaults to OpenAI)
+export function createNoteGenerator(
+  env: NodeJS.ProcessEnv = process.env
+): SoapNoteGenerator {
+  const name = env.NOTES_PROVIDER || "openai";
+  const model = env.NOTES_MODEL || undefined;
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new NoteConfigurationError("OPENAI_API_KEY is not set");
+      }
+      return createLLMNoteGenerator(
+        createOpenAIClient({ apiKey: env.OPENAI_API_KEY, model })
+      );
+    case "openai-compatible":
+      if (!env.NOTES_BASE_URL) {
+        throw new NoteConfigurationError(
+          "NOTES_BASE_URL is required for the openai-compatible provider"
+        );
+      }
+      return createLLMNoteGenerator(
+        createOpenAIClient({
+          apiKey: env.NOTES_API_KEY || "not-needed",
+          baseURL: env.NOTES_BASE_URL,
+          model,
+          name: "openai-compatible",
+        })
+      );
+    case "mock":
+      return createRuleBasedNoteGenerator();
+    default:
+      throw new NoteConfigurationError(`Unknown notes provider: ${name}`);
+  }
+}
+
+export function getNoteGenerator(): SoapNoteGenerator {
+  if (!cachedGenerator) {
+    cachedGenerator = createNoteGenerator();
+  }
+  return cachedGenerator;
+}
+
+// Validate the model's reply, keeping only sentences that point at real
+// segments so every line stays click-to-seek
+function parseSections(
+  reply: unknown,
+  segments: SourceSegment[]
+): Record<SoapSectionId, NoteSentence[]> {
+  const sections = emptySections();
+  if (typeof reply !== "object" || reply === null) {
+    throw new Error("The language model did not return a JSON object");
+  }
+
+  const byId = new Map(segments.map((segment) => [segment.id, segment]));
+
+  for (const { id } of SOAP_SECTIONS) {
+    const items = (reply as Record<string, unknown>)[id];
+    if (!Array.isArray(items)) continue;
+
+    for (const item of items) {
+      const text = typeof item?.text === "string" ? item.text.trim() : "";
+      const sources = (Array.isArray(item?.segments) ? item.segments : [])
+        .map((segmentId: unknown) => byId.get(Number(segmentId)))
+        .filter(Boolean) as SourceSegment[];
+      if (!text || sources.length === 0) continue;
+
+      sections[id].push({
+        text,
+        segmentIds: sources.map((segment) => segment.id),
+        start: Math.min(...sources.map((segment) => segment.start)),
+        end: Math.max(...sources.map((segment) => segment.end)),
+      });
+    }
+  }
+
+  return sections;
+}
+
+function emptySections(): Record<SoapSectionId, NoteSentence[]> {
+  return { subjective: [], objective: [], assessment: [], plan: [] };
+}
+
+function splitSentences(text: string) {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
@@ -0,0 +1,36 @@
+import type { TranscriptContent } from "@/lib/transcription/types";
+
+// Transcript span a note sentence can point back to
+export interface SourceSegment {
+  id: number;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Words per pseudo-segment when a transcript only has word timestamps
+const WORDS_PER_SEGMENT = 20;
+
+export function sourceSegments(transcript: TranscriptContent): SourceSegment[] {
+  if (transcript.segments?.length) {
+    return transcript.segments.map(({ id, start, end, text }) => ({
+      id,
+      start,
+      end,
+      text: text.trim(),
+    }));
+  }
+
+  const words = transcript.words ?? [];
+  const segments: SourceSegment[] = [];
+  for (let i = 0; i < words.length; i += WORDS_PER_SEGMENT) {
+    const group = words.slice(i, i + WORDS_PER_SEGMENT);
+    segments.push({
+      id: segments.length,
+      start: group[0].start,
+      end: group[group.length - 1].end,
+      text: group.map((word) => word.word).join(" "),
+    });
+  }
+  return segments;
+}
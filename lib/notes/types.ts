@@ -0,0 +1,22 @@
+export type SoapSectionId = "subjective" | "objective" | "assessment" | "plan";
+
+export const SOAP_SECTIONS: { id: SoapSectionId; title: string }[] = [
+  { id: "subjective", title: "Subjective" },
+  { id: "objective", title: "Objective" },
+  { id: "assessment", title: "Assessment" },
+  { id: "plan", title: "Plan" },
+];
+
+// A note sentence and the transcript segments it was written from
+export interface NoteSentence {
+  text: string;
+  segmentIds: number[];
+  start: number;
+  end: number;
+}
+
+export interface SoapNote {
+  sections: Record<SoapSectionId, NoteSentence[]>;
+  generatedAt: string;
+  model: string;
+}
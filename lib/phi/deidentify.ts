@@ -0,0 +1,213 @@
+import { collectNameTokens, detectPhi } from "@/lib/phi/detect";
+import {
+  PHI_LABELS,
+  type DeidentifyMode,
+  type PhiCategory,
+  type PhiSpan,
+} from "@/lib/phi/types";
+import { spreadWords } from "@/lib/transcription/editing";
+import { findSegmentIndex, joinSegmentText } from "@/lib/transcription/text";
+import type {
+  TranscriptContent,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+// Stand-in names for pseudonymized transcripts
+const SURROGATE_NAMES = `Avery Blake Carter Dana Ellis Finley Gray Harper
+  Jordan Kendall Logan Morgan Parker Quinn Reese Rowan Sawyer Taylor Emerson
+  Hayden`.split(/\s+/);
+
+interface Unit {
+  text: string;
+  start: number;
+  end: number;
+  wordIndexes: number[];
+}
+
+interface WordReplacement {
+  from: number;
+  to: number; // Inclusive
+  tokens: string[];
+}
+
+// Replace identifiers in text, segments and words. Redaction leaves a
+// category label ("[NAME]"); pseudonymization swaps in consistent
+// surrogates so the same person or date reads the same throughout.
+export function deidentifyTranscript<T extends TranscriptContent>(
+  transcript: T,
+  mode: DeidentifyMode
+): { transcript: T; spans: PhiSpan[] } {
+  const words = transcript.words ?? [];
+  const knownNames = collectNameTokens(transcript.text);
+  const surrogate = createSurrogates(mode);
+  const spans: PhiSpan[] = [];
+  const wordReplacements: WordReplacement[] = [];
+
+  const units = textUnits(transcript);
+  const texts = units.map((unit) => {
+    const matches = detectPhi(unit.text, knownNames);
+    const offsets = alignWords(unit.text, unit.wordIndexes, words);
+    let text = unit.text;
+
+    // Surrogates are numbered in reading order, then applied right to
+    // left so earlier offsets stay valid
+    const replacements = matches.map((match) =>
+      surrogate(match.category, match.text)
+    );
+    for (let i = matches.length - 1; i >= 0; i--) {
+      const match = matches[i];
+      const replacement = replacements[i];
+      text = text.slice(0, match.start) + replacement + text.slice(match.end);
+
+      const covered = unit.wordIndexes.filter((wordIndex) => {
+        const offset = offsets.get(wordIndex);
+        return offset && offset.start < match.end && offset.end > match.start;
+      });
+
+      if (covered.length > 0) {
+        const from = covered[0];
+        const to = covered[covered.length - 1];
+        // Keep what the first and last words have outside the match, like
+        // the full stop in "Street."
+        const tokens = replacement.split(" ");
+        const before = unit.text.slice(offsets.get(from)!.start, match.start);
+        const after = unit.text.slice(match.end, offsets.get(to)!.end);
+        tokens[0] = before + tokens[0];
+        tokens[tokens.length - 1] += after;
+        wordReplacements.push({ from, to, tokens });
+        spans.push({
+          category: match.category,
+          replacement,
+          start: words[from].start,
+          end: words[to].end,
+        });
+      } else {
+        // Without word timings silence the whole phrase to be safe
+        spans.push({
+          category: match.category,
+          replacement,
+          start: unit.start,
+          end: unit.end,
+        });
+      }
+    }
+    return text;
+  });
+
+  const result: T = { ...transcript };
+
+  if (words.length > 0) {
+    const replaced = [...words];
+    for (const { from, to, tokens } of wordReplacements.sort(
+      (a, b) => b.from - a.from
+    )) {
+      replaced.splice(
+        from,
+        to - from + 1,
+        ...spreadWords(tokens, words[from].start, words[to].end)
+      );
+    }
+    result.words = replaced;
+  }
+
+  if (transcript.segments?.length) {
+    result.segments = transcript.segments.map((segment, index) =>
+      texts[index] === units[index].text
+        ? segment
+        : // Token ids would spell out the original words
+          { ...segment, text: ` ${texts[index]}`, tokens: [] }
+    );
+    result.text = joinSegmentText(result.segments);
+  } else {
+    result.text = texts[0] ?? transcript.text;
+  }
+
+  return { transcript: result, spans: spans.sort((a, b) => a.start - b.start) };
+}
+
+// Detection runs per segment so matches map onto one time range
+function textUnits(transcript: TranscriptContent): Unit[] {
+  const words = transcript.words ?? [];
+  const segments = transcript.segments;
+
+  if (!segments?.length) {
+    return [
+      {
+        text: transcript.text,
+        start: words[0]?.start ?? 0,
+        end: words[words.length - 1]?.end ?? Number.MAX_SAFE_INTEGER,
+        wordIndexes: words.map((_, index) => index),
+      },
+    ];
+  }
+
+  const units: Unit[] = segments.map((segment) => ({
+    text: segment.text.trim(),
+    start: segment.start,
+    end: segment.end,
+    wordIndexes: [],
+  }));
+  words.forEach((word, index) =>
+    units[Math.max(0, findSegmentIndex(segments, word.start))].wordIndexes.push(
+      index
+    )
+  );
+  return units;
+}
+
+// Character range of each word within the unit text, found in order
+function alignWords(
+  text: string,
+  wordIndexes: number[],
+  words: WordTimestamp[]
+) {
+  const lower = text.toLowerCase();
+  const offsets = new Map<number, { start: number; end: number }>();
+  let cursor = 0;
+
+  for (const wordIndex of wordIndexes) {
+    const token = words[wordIndex].word.trim().toLowerCase();
+    const start = token ? lower.indexOf(token, cursor) : -1;
+    if (start === -1) continue;
+
+    offsets.set(wordIndex, { start, end: start + token.length });
+    cursor = start + token.length;
+  }
+  return offsets;
+}
+
+function createSurrogates(mode: DeidentifyMode) {
+  const assigned = new Map<string, string>();
+  const counts = new Map<PhiCategory, number>();
+
+  const next = (category: PhiCategory) => {
+    const count = (counts.get(category) ?? 0) + 1;
+    counts.set(category, count);
+    return count;
+  };
+
+  return (category: PhiCategory, original: string) => {
+    if (mode === "redact") return `[${PHI_LABELS[category]}]`;
+
+    // Names map token by token so "John Smith" and "Smith" stay linked
+    if (category === "name") {
+      return original
+        .split(/\s+/)
+        .map((token) => {
+          const key = `name:${token.toLowerCase()}`;
+          if (!assigned.has(key)) {
+            const index = next("name") - 1;
+            assigned.set(key, SURROGATE_NAMES[index] ?? `Person${index + 1}`);
+          }
+          return assigned.get(key)!;
+        })
+        .join(" ");
+    }
+
+    const key = `${category}:${original.toLowerCase().replace(/\W+/g, "")}`;
+    if (!assigned.has(key)) {
+      assigned.set(key, `${PHI_LABELS[category]}-${next(category)}`);
+    }
+    return assigned.get(key)!;
+  };
+}
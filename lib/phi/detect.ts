@@ -0,0 +1,153 @@
+import type { PhiCategory, PhiMatch } from "@/lib/phi/types";
+
+// Capitalized only, so "may" the verb is left alone
+const MONTHS =
+  "(?:Jan(?:uary)?|Feb(?:ruary)?|Mar(?:ch)?|Apr(?:il)?|May|June?|July?|Aug(?:ust)?|Sep(?:t(?:ember)?)?|Oct(?:ober)?|Nov(?:ember)?|Dec(?:ember)?)";
+const DAY = "\\d{1,2}(?:st|nd|rd|th)?";
+const STREET =
+  "(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Circle|Highway|Hwy|Parkway)";
+const UNIT = "(?:Apartment|Apt|Suite|Unit)";
+const TITLES = "(?:Mr|Mrs|Ms|Miss|Mx|Dr|Doctor|Prof|Professor|Nurse)\\.?";
+const NAME = "[A-Z][a-z]+(?:[-'][A-Z][a-z]+)?";
+
+// Each pattern matches an identifier; when it has a capture group, only
+// the group is the identifier (e.g. the number after "MRN")
+const PATTERNS: [PhiCategory, RegExp][] = [
+  ["email", /\b[\w.+-]+@[\w-]+(?:\.[\w-]+)+\b/gi],
+  ["url", /\b(?:https?:\/\/|www\.)[^\s,]+/gi],
+  ["ssn", /\b\d{3}[- ]\d{2}[- ]\d{4}\b/g],
+  [
+    "phone",
+    /(?:\+?1[\s.-]?)?(?:\(\d{3}\)\s?|\b\d{3}[\s.-])\d{3}[\s.-]\d{4}\b/g,
+  ],
+  [
+    "mrn",
+    /\b(?:MRN|medical record(?: number)?|record number|chart number|account number|patient ID)(?:\s+(?:is|number|no\.?))?[\s:#]*([A-Z]{0,3}-?\d[\dA-Z-]{3,})/gi,
+  ],
+  ["date", new RegExp(`\\b${MONTHS}\\.?\\s+${DAY}(?:,?\\s+\\d{4})?\\b`, "g")],
+  [
+    "date",
+    new RegExp(
+      `\\b${DAY}\\s+(?:of\\s+)?${MONTHS}\\.?(?:,?\\s+\\d{4})?\\b`,
+      "g"
+    ),
+  ],
+  ["date", new RegExp(`\\b${MONTHS}\\.?\\s+\\d{4}\\b`, "g")],
+  ["date", /\b\d{1,2}[/-]\d{1,2}[/-](?:\d{4}|\d{2})\b/g],
+  ["date", /\b\d{4}-\d{2}-\d{2}\b/g],
+  // Safe Harbor only treats ages over 89 as identifying
+  ["age", /\b(?:9\d|1[0-2]\d)[\s-]+(?:years?|yrs?)[\s-]+old\b/gi],
+  // The period after "St" or "Ave" is only taken when the address goes on,
+  // since it is as likely to end the sentence
+  [
+    "address",
+    new RegExp(
+      `\\b\\d{1,5}\\s+(?:${NAME}\\s+){1,3}${STREET}\\b(?:\\.(?=,|\\s+${UNIT}))?(?:,?\\s+${UNIT}\\.?\\s*#?\\w+)?(?:,\\s*${NAME}(?:\\s${NAME})*)?(?:,?\\s*[A-Z]{2})?(?:\\s+\\d{5}(?:-\\d{4})?)?`,
+      "g"
+    ),
+  ],
+  ["zip", /\b(?:zip(?: code)?|postal code)[\s:]*(\d{5}(?:-\d{4})?)\b/gi],
+  ["name", new RegExp(`\\b${TITLES}\\s+(${NAME}(?:\\s+${NAME}){0,2})`, "g")],
+  [
+    "name",
+    new RegExp(
+      `\\b(?:[Nn]ame is|[Nn]amed|[Cc]alled|[Tt]his is|[Pp]atient|[Ss]on|[Dd]aughter|[Ww]ife|[Hh]usband|[Mm]other|[Ff]ather)\\s+(${NAME}(?:\\s+${NAME}){0,2})`,
+      "g"
+    ),
+  ],
+];
+
+// Capitalized words that follow name cues without being names
+const NOT_NAMES = new Set(
+  `the a an he she they his her their is was has had and but with without who
+  which reports denies states presents presented returns today yesterday
+  tomorrow monday tuesday wednesday thursday friday saturday sunday january
+  february march april may june july august september october november
+  december doctor patient nurse clinic hospital emergency department room ward
+  unit service team history exam examination plan assessment subjective
+  objective dictating speaking here there also again`.split(/\s+/)
+);
+
+// Name tokens found through cues, so later bare mentions can be caught
+export function collectNameTokens(text: string) {
+  const tokens = new Set<string>();
+  for (const match of detectPhi(text)) {
+    if (match.category !== "name") continue;
+    for (const token of match.text.split(/\s+/)) {
+      if (token.length >= 3) tokens.add(token);
+    }
+  }
+  return tokens;
+}
+
+// Find identifiers in text. `knownNames` are name tokens seen elsewhere in
+// the same transcript (e.g. "Smith" after "Mr. John Smith").
+export function detectPhi(
+  text: string,
+  knownNames: Set<string> = new Set()
+): PhiMatch[] {
+  const matches: PhiMatch[] = [];
+
+  for (const [category, pattern] of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const value = match[1] ?? match[0];
+      const start = match.index! + match[0].lastIndexOf(value);
+      const found = { category, start, end: start + value.length, text: value };
+      matches.push(category === "name" ? trimName(found) : found);
+    }
+  }
+
+  for (const token of knownNames) {
+    const pattern = new RegExp(`\\b${escapeRegExp(token)}\\b`, "g");
+    for (const match of text.matchAll(pattern)) {
+      matches.push({
+        category: "name",
+        start: match.index!,
+        end: match.index! + token.length,
+        text: token,
+      });
+    }
+  }
+
+  return removeOverlaps(
+    text,
+    matches.filter((match) => match.text.length > 0)
+  );
+}
+
+// Stop a name at the first word that is not part of one
+function trimName(match: PhiMatch): PhiMatch {
+  const tokens = match.text.split(/\s+/);
+  const kept: string[] = [];
+  for (const token of tokens) {
+    if (NOT_NAMES.has(token.toLowerCase())) break;
+    kept.push(token);
+  }
+
+  const text = kept.join(" ");
+  return { ...match, text, end: match.start + text.length };
+}
+
+// Earliest first; of two overlapping matches keep the longer one
+function removeOverlaps(text: string, matches: PhiMatch[]) {
+  const sorted = [...matches].sort(
+    (a, b) => a.start - b.start || b.end - b.start - (a.end - a.start)
+  );
+  const kept: PhiMatch[] = [];
+
+  for (const match of sorted) {
+    const last = kept[kept.length - 1];
+    if (!last || match.start >= last.end) {
+      kept.push(match);
+    } else if (match.end > last.end && match.category === last.category) {
+      // Same kind of identifier running on: widen the previous match
+      last.end = match.end;
+      last.text = text.slice(last.start, last.end);
+    }
+  }
+  return kept;
+}
+
+function escapeRegExp(value: string) {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
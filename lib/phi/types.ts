@@ -0,0 +1,48 @@
+export type PhiCategory =
+  | "name"
+  | "date"
+  | "age"
+  | "phone"
+  | "email"
+  | "url"
+  | "ssn"
+  | "mrn"
+  | "address"
+  | "zip";
+
+export type DeidentifyMode = "redact" | "pseudonymize";
+
+export const DEIDENTIFY_MODES: readonly DeidentifyMode[] = [
+  "redact",
+  "pseudonymize",
+];
+
+// An identifier found in a piece of text, by character offsets
+export interface PhiMatch {
+  category: PhiCategory;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// What was replaced and when it was spoken. The original value is
+// deliberately not kept.
+export interface PhiSpan {
+  category: PhiCategory;
+  replacement: string;
+  start: number; // Seconds
+  end: number;
+}
+
+export const PHI_LABELS: Record<PhiCategory, string> = {
+  name: "NAME",
+  date: "DATE",
+  age: "AGE",
+  phone: "PHONE",
+  email: "EMAIL",
+  url: "URL",
+  ssn: "SSN",
+  mrn: "MRN",
+  address: "ADDRESS",
+  zip: "ZIP",
+};
@@ -0,0 +1,63 @@
+// Input level as drawn by the meter (0 to 1) and the largest sample
+export interface InputLevel {
+  level: number;
+  peak: number;
+}
+
+export type LevelAssessment = "ok" | "clipping" | "quiet" | "silent";
+
+// Samples at or above this are taken as clipped
+const CLIP_PEAK = 0.99;
+// Share of frames that may clip before it is worth a warning
+const CLIP_SHARE = 0.01;
+// Meter level the loudest tenth of a test should reach
+const QUIET_LEVEL = 0.15;
+const SILENT_LEVEL = 0.02;
+
+// Analyser tuned for a responsive level meter
+export function createLevelAnalyser(
+  context: AudioContext,
+  stream: MediaStream
+): AnalyserNode {
+  const analyser = context.createAnalyser();
+  context.createMediaStreamSource(stream).connect(analyser);
+
+  // Configure analyser for better sensitivity
+  analyser.fftSize = 512; // Increased for better resolution
+  analyser.smoothingTimeConstant = 0.3; // Reduce smoothing for more responsive visualization
+  analyser.minDecibels = -90;
+  analyser.maxDecibels = -10;
+  return analyser;
+}
+
+export function readInputLevel(analyser: AnalyserNode): InputLevel {
+  const dataArray = new Uint8Array(analyser.frequencyBinCount);
+  analyser.getByteTimeDomainData(dataArray);
+
+  // Calculate RMS (Root Mean Square) for better audio level detection
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < dataArray.length; i++) {
+    const sample = (dataArray[i] - 128) / 128; // Convert to -1 to 1 range
+    sum += sample * sample;
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  const rms = Math.sqrt(sum / dataArray.length);
+
+  // Apply amplification for better visualization
+  return { level: Math.min(1, rms * 8), peak };
+}
+
+// Judge a few seconds of speech: clipping first, as it cannot be undone
+export function assessInputLevels(levels: InputLevel[]): LevelAssessment {
+  if (levels.length === 0) return "silent";
+
+  const clipped = levels.filter(({ peak }) => peak >= CLIP_PEAK).length;
+  if (clipped / levels.length > CLIP_SHARE) return "clipping";
+
+  const sorted = levels.map(({ level }) => level).sort((a, b) => b - a);
+  const loud = sorted[Math.ceil(sorted.length / 10) - 1];
+  if (loud < SILENT_LEVEL) return "silent";
+  if (loud < QUIET_LEVEL) return "quiet";
+  return "ok";
+}
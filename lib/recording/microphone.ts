@@ -0,0 +1,40 @@
+export interface MicrophoneSettings {
+  deviceId?: string; // Unset for the system default
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+}
+
+export const DEFAULT_MICROPHONE_SETTINGS: MicrophoneSettings = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+// Open the chosen microphone, or the default one if it is not plugged in
+export async function openMicrophone({
+  deviceId,
+  ...processing
+}: MicrophoneSettings = DEFAULT_MICROPHONE_SETTINGS): Promise<MediaStream> {
+  if (deviceId) {
+    try {
+      return await navigator.mediaDevices.getUserMedia({
+        audio: { ...processing, deviceId: { exact: deviceId } },
+      });
+    } catch (error) {
+      if (
+        !(error instanceof DOMException) ||
+        (error.name !== "OverconstrainedError" &&
+          error.name !== "NotFoundError")
+      ) {
+        throw error;
+      }
+    }
+  }
+  return navigator.mediaDevices.getUserMedia({ audio: processing });
+}
+
+export async function listMicrophones(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "audioinput");
+}
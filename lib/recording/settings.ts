@@ -0,0 +1,83 @@
+import {
+  DEFAULT_MICROPHONE_SETTINGS,
+  type MicrophoneSettings,
+} from "@/lib/recording/microphone";
+import {
+  DEFAULT_VOICE_ACTIVITY_SETTINGS,
+  type Sensitivity,
+  type VoiceActivitySettings,
+} from "@/lib/recording/voice-activity";
+
+const VOICE_ACTIVITY_STORAGE_KEY = "dictamed:voice-activity";
+
+const SENSITIVITIES: Sensitivity[] = ["low", "normal", "high"];
+
+const isSeconds = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+export function getVoiceActivitySettings(): VoiceActivitySettings {
+  const defaults = DEFAULT_VOICE_ACTIVITY_SETTINGS;
+  if (typeof localStorage === "undefined") return defaults;
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(VOICE_ACTIVITY_STORAGE_KEY) ?? "null"
+    );
+    if (!stored || typeof stored !== "object") return defaults;
+
+    return {
+      enabled: stored.enabled === true,
+      pauseAfterSeconds: isSeconds(stored.pauseAfterSeconds)
+        ? stored.pauseAfterSeconds
+        : defaults.pauseAfterSeconds,
+      stopAfterSeconds: isSeconds(stored.stopAfterSeconds)
+        ? stored.stopAfterSeconds
+        : defaults.stopAfterSeconds,
+      sensitivity: SENSITIVITIES.includes(stored.sensitivity)
+        ? stored.sensitivity
+        : defaults.sensitivity,
+      pushToTalkKey:
+        typeof stored.pushToTalkKey === "string" && stored.pushToTalkKey
+          ? stored.pushToTalkKey
+          : undefined,
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function setVoiceActivitySettings(settings: VoiceActivitySettings) {
+  localStorage.setItem(VOICE_ACTIVITY_STORAGE_KEY, JSON.stringify(settings));
+}
+
+const MICROPHONE_STORAGE_KEY = "dictamed:microphone";
+
+export function getMicrophoneSettings(): MicrophoneSettings {
+  const defaults = DEFAULT_MICROPHONE_SETTINGS;
+  if (typeof localStorage === "undefined") return defaults;
+
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem(MICROPHONE_STORAGE_KEY) ?? "null"
+    );
+    if (!stored || typeof stored !== "object") return defaults;
+
+    const flag = (key: keyof Omit<MicrophoneSettings, "deviceId">) =>
+      typeof stored[key] === "boolean" ? stored[key] : defaults[key];
+    return {
+      deviceId:
+        typeof stored.deviceId === "string" && stored.deviceId
+          ? stored.deviceId
+          : undefined,
+      echoCancellation: flag("echoCancellation"),
+      noiseSuppression: flag("noiseSuppression"),
+      autoGainControl: flag("autoGainControl"),
+    };
+  } catch {
+    return defaults;
+  }
+}
+
+export function setMicrophoneSettings(settings: MicrophoneSettings) {
+  localStorage.setItem(MICROPHONE_STORAGE_KEY, JSON.stringify(settings));
+}
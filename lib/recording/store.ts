@@ -0,0 +1,147 @@
+import { concatenateAudio } from "@/lib/audio/concat";
+import { openDatabase, requestResult, transactionDone } from "@/lib/idb";
+import type { RecordingPart, RecordingSession } from "@/lib/recording/types";
+
+const DB_NAME = "dictamed-recordings";
+const DB_VERSION = 1;
+const SESSIONS = "sessions";
+const CHUNKS = "chunks";
+
+interface StoredChunk extends RecordingPart {
+  data: Blob;
+}
+
+function database() {
+  return openDatabase(DB_NAME, DB_VERSION, (db) => {
+    if (!db.objectStoreNames.contains(SESSIONS)) {
+      db.createObjectStore(SESSIONS, { keyPath: "id" });
+    }
+    if (!db.objectStoreNames.contains(CHUNKS)) {
+      // Keys increase as chunks are added, which keeps them in order
+      db.createObjectStore(CHUNKS, { autoIncrement: true }).createIndex(
+        "sessionId",
+        "sessionId"
+      );
+    }
+  });
+}
+
+export async function createRecordingSession(
+  mimeType: string,
+  ownerId: string
+): Promise<RecordingPart> {
+  const now = new Date().toISOString();
+  const session: RecordingSession = {
+    id: crypto.randomUUID(),
+    ownerId,
+    mimeType,
+    startedAt: now,
+    updatedAt: now,
+    parts: 1,
+    seconds: 0,
+    bytes: 0,
+  };
+
+  const db = await database();
+  const transaction = db.transaction(SESSIONS, "readwrite");
+  transaction.objectStore(SESSIONS).put(session);
+  await transactionDone(transaction);
+  return { sessionId: session.id, part: 0 };
+}
+
+// Start the next part of an interrupted recording
+export async function resumeRecordingSession(
+  id: string
+): Promise<RecordingPart> {
+  const session = await updateSession(id, (existing) => ({
+    ...existing,
+    parts: existing.parts + 1,
+  }));
+  return { sessionId: id, part: session.parts - 1 };
+}
+
+// Append audio recorded since the last call. Called without data it only
+// marks the session as still being recorded.
+export async function saveRecordingProgress(
+  { sessionId, part }: RecordingPart,
+  seconds: number,
+  data?: Blob
+) {
+  await updateSession(
+    sessionId,
+    (existing) => ({
+      ...existing,
+      seconds: Math.max(existing.seconds, seconds),
+      bytes: existing.bytes + (data?.size ?? 0),
+    }),
+    data && { sessionId, part, data }
+  );
+}
+
+// The user's own recordings, newest first. On a shared workstation the
+// next person to sign in must not be offered someone else's audio.
+export async function listRecordingSessions(
+  ownerId: string
+): Promise<RecordingSession[]> {
+  const db = await database();
+  const sessions = await requestResult<RecordingSession[]>(
+    db.transaction(SESSIONS).objectStore(SESSIONS).getAll()
+  );
+  return sessions
+    .filter((session) => session.ownerId === ownerId)
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt));
+}
+
+// The recording as one file: the original format when it was made in one
+// go, otherwise its parts joined as WAV
+export async function loadRecording(id: string): Promise<Blob> {
+  const db = await database();
+  const transaction = db.transaction([SESSIONS, CHUNKS]);
+  const session = await requestResult<RecordingSession | undefined>(
+    transaction.objectStore(SESSIONS).get(id)
+  );
+  if (!session) throw new Error("Recording not found");
+  const chunks = await requestResult<StoredChunk[]>(
+    transaction.objectStore(CHUNKS).index("sessionId").getAll(id)
+  );
+
+  const parts: Blob[][] = [];
+  for (const chunk of chunks) (parts[chunk.part] ??= []).push(chunk.data);
+  const files = parts
+    .filter(Boolean)
+    .map((part) => new Blob(part, { type: session.mimeType }));
+  if (files.length === 0) throw new Error("The recording is empty");
+
+  return files.length === 1 ? files[0] : concatenateAudio(files);
+}
+
+export async function deleteRecordingSession(id: string) {
+  const db = await database();
+  const transaction = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  const keys = await requestResult(
+    transaction.objectStore(CHUNKS).index("sessionId").getAllKeys(id)
+  );
+  transaction.objectStore(SESSIONS).delete(id);
+  for (const key of keys) transaction.objectStore(CHUNKS).delete(key);
+  await transactionDone(transaction);
+}
+
+async function updateSession(
+  id: string,
+  change: (session: RecordingSession) => RecordingSession,
+  chunk?: StoredChunk
+) {
+  const db = await database();
+  const transaction = db.transaction([SESSIONS, CHUNKS], "readwrite");
+  const store = transaction.objectStore(SESSIONS);
+  const existing = await requestResult<RecordingSession | undefined>(
+    store.get(id)
+  );
+  if (!existing) throw new Error("Recording not found");
+
+  const session = { ...change(existing), updatedAt: new Date().toISOString() };
+  store.put(session);
+  if (chunk) transaction.objectStore(CHUNKS).add(chunk);
+  await transactionDone(transaction);
+  return session;
+}
@@ -0,0 +1,19 @@
+// A recording backed up to IndexedDB while it is made, so it survives a
+// crash or closed tab. Each time it is resumed a new part starts; every
+// part is a complete file of its own.
+export interface RecordingSession {
+  id: string;
+  ownerId?: string; // The user who recorded it; unset on older backups
+  mimeType: string;
+  startedAt: string;
+  updatedAt: string; // Touched every second while recording
+  parts: number;
+  seconds: number; // Recorded so far, across parts
+  bytes: number;
+}
+
+// What a recorder is writing to
+export interface RecordingPart {
+  sessionId: string;
+  part: number;
+}
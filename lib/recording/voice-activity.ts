@@ -0,0 +1,105 @@
+export type Sensitivity = "low" | "normal" | "high";
+
+export interface VoiceActivitySettings {
+  enabled: boolean;
+  pauseAfterSeconds: number; // Silence before recording pauses; 0 = never
+  stopAfterSeconds: number; // Silence before recording stops; 0 = never
+  sensitivity: Sensitivity;
+  pushToTalkKey?: string; // KeyboardEvent.code of a key or foot pedal
+}
+
+export const DEFAULT_VOICE_ACTIVITY_SETTINGS: VoiceActivitySettings = {
+  enabled: false,
+  pauseAfterSeconds: 2,
+  stopAfterSeconds: 60,
+  sensitivity: "normal",
+};
+
+// Input level (0 to 1, as drawn by the meter) that counts as speech
+const SPEECH_LEVELS: Record<Sensitivity, number> = {
+  low: 0.1,
+  normal: 0.05,
+  high: 0.025,
+};
+
+// How far the recorded audio lags the detector, so that a recording
+// resumed on speech still has the first syllable
+export const PRE_ROLL_SECONDS = 0.3;
+
+export interface VoiceActivityDetector {
+  update(level: number): void; // Current input level, once per frame
+  reset(): void; // Start over, e.g. after a pause the detector did not see
+}
+
+// Tell speech from silence by input level. `onSilence` fires once the
+// input has been quiet for the pause time and `onSpeech` when it picks up
+// again; `onTimeout` fires once after the stop time. Only levels heard
+// while recording, or paused for silence, should be passed in.
+export function createVoiceActivityDetector(
+  { pauseAfterSeconds, stopAfterSeconds, sensitivity }: VoiceActivitySettings,
+  handlers: {
+    onSilence(): void;
+    onSpeech(): void;
+    onTimeout(): void;
+  }
+): VoiceActivityDetector {
+  let speaking = true;
+  let quietSince: number | null = null;
+  let timedOut = false;
+
+  return {
+    update(level) {
+      const now = performance.now();
+
+      if (level >= SPEECH_LEVELS[sensitivity]) {
+        quietSince = null;
+        if (!speaking) {
+          speaking = true;
+          handlers.onSpeech();
+        }
+        return;
+      }
+
+      quietSince ??= now;
+      const quietSeconds = (now - quietSince) / 1000;
+      if (
+        speaking &&
+        pauseAfterSeconds > 0 &&
+        quietSeconds >= pauseAfterSeconds
+      ) {
+        speaking = false;
+        handlers.onSilence();
+      }
+      if (
+        !timedOut &&
+        stopAfterSeconds > 0 &&
+        quietSeconds >= stopAfterSeconds
+      ) {
+        timedOut = true;
+        handlers.onTimeout();
+      }
+    },
+    reset() {
+      speaking = true;
+      quietSince = null;
+    },
+  };
+}
+
+// The microphone PRE_ROLL_SECONDS late, for the recorders to record while
+// the detector listens to the live input
+export function createPreRollStream(
+  context: AudioContext,
+  stream: MediaStream
+): MediaStream {
+  const delay = context.createDelay(1);
+  delay.delayTime.value = PRE_ROLL_SECONDS;
+  const destination = context.createMediaStreamDestination();
+  context.createMediaStreamSource(stream).connect(delay).connect(destination);
+  return destination.stream;
+}
+
+// "KeyP" -> "P", "Digit1" -> "1", "F9" -> "F9"
+export function keyLabel(code: string) {
+  return code.replace(/^(Key|Digit)/, "");
+}
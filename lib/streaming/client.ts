@@ -0,0 +1,149 @@
+import type {
+  AudioWindow,
+  LiveSegment,
+  StreamEvent,
+  StreamSessionResponse,
+} from "@/lib/streaming/types";
+import type { TranscribeRequestOptions } from "@/lib/transcription/client";
+import { TranscriptionError } from "@/lib/transcription/errors";
+import { parseTranscriptionResult } from "@/lib/transcription/schema";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+export interface TranscriptionStreamOptions
+  extends Omit<TranscribeRequestOptions, "signal"> {
+  onUpdate: (segments: LiveSegment[]) => void;
+}
+
+export interface TranscriptionStream {
+  send(window: AudioWindow): void;
+  finish(recording: File): Promise<TranscriptionResult>;
+  cancel(): void;
+}
+
+// Start a live transcription: windows are posted one at a time as the
+// recording grows, and the transcript so far arrives as server-sent events
+export async function openTranscriptionStream({
+  specialty,
+  termListId,
+  deidentify,
+  diarize,
+  commands,
+  onUpdate,
+}: TranscriptionStreamOptions): Promise<TranscriptionStream> {
+  const formData = new FormData();
+  if (specialty) formData.append("specialty", specialty);
+  if (termListId) formData.append("termListId", termListId);
+  if (deidentify) formData.append("deidentify", deidentify);
+  if (diarize) formData.append("diarize", "true");
+  if (commands) formData.append("commands", JSON.stringify(commands));
+
+  const { id } = await request<StreamSessionResponse>(
+    "/api/transcribe/stream",
+    {
+      method: "POST",
+      body: formData,
+    }
+  );
+  const url = `/api/transcribe/stream/${id}`;
+
+  const events = new EventSource(url);
+  events.onmessage = (message) => {
+    const event = JSON.parse(message.data) as StreamEvent;
+    if (event.type === "update") onUpdate(event.segments);
+  };
+
+  let queue: AudioWindow[] = [];
+  let sending: Promise<void> | null = null;
+  // A final window the server never got leaves a hole in the result
+  let lostWindow = false;
+
+  const post = async (window: AudioWindow) => {
+    const body = new FormData();
+    body.append("audio", window.audio, `window-${window.index}`);
+    body.append("index", window.index.toString());
+    body.append("offset", window.offset.toString());
+    body.append("final", window.final.toString());
+
+    try {
+      await request(url, { method: "POST", body });
+    } catch (error) {
+      if (window.final) lostWindow = true;
+      console.error("Live transcription error:", error);
+    }
+  };
+
+  const drain = async () => {
+    while (queue.length > 0) {
+      await post(queue.shift()!);
+    }
+    sending = null;
+  };
+
+  return {
+    send(window) {
+      // Only the latest audio of a growing window is worth transcribing
+      if (!window.final) queue = queue.filter((queued) => queued.final);
+      queue.push(window);
+      sending ??= drain();
+    },
+
+    async finish(recording) {
+      await sending;
+      events.close();
+
+      if (lostWindow) {
+        throw new TranscriptionError(
+          "network",
+          "Part of the recording did not reach the server."
+        );
+      }
+
+      // Speakers are told apart on the whole recording, not window by window
+      const finishData = new FormData();
+      if (diarize) finishData.append("audio", recording);
+
+      const body = await request<unknown>(`${url}/finish`, {
+        method: "POST",
+        body: finishData,
+      });
+      try {
+        return parseTranscriptionResult(body);
+      } catch (error) {
+        console.error("Transcription response error:", error);
+        throw new TranscriptionError(
+          "invalid_response",
+          "The transcription service returned an unexpected response."
+        );
+      }
+    },
+
+    cancel() {
+      queue = [];
+      events.close();
+      fetch(url, { method: "DELETE", keepalive: true }).catch(() => {});
+    },
+  };
+}
+
+async function request<T>(url: string, init: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch {
+    throw new TranscriptionError(
+      "network",
+      "Could not reach the transcription service. Check your connection."
+    );
+  }
+
+  const body = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new TranscriptionError(
+      body?.code ?? "unknown",
+      body?.error || "Live transcription failed",
+      response.status,
+      body?.retryAfter
+    );
+  }
+  return body as T;
+}
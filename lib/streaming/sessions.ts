@@ -0,0 +1,216 @@
+import { randomUUID } from "crypto";
+import { diarize } from "@/lib/diarization/provider";
+import type { LiveSegment, StreamEvent } from "@/lib/streaming/types";
+import {
+  buildTranscriptionResult,
+  type PipelineContext,
+} from "@/lib/transcription/pipeline";
+import { stitchTranscriptions } from "@/lib/transcription/stitching";
+import type {
+  ProviderTranscription,
+  TranscriptionProvider,
+  TranscriptionResult,
+} from "@/lib/transcription/types";
+
+// Sessions nobody has sent audio to for this long are dropped
+const SESSION_TTL_MS = 10 * 60 * 1000;
+
+// Characters of the previous window passed as prompt to keep context
+const PROMPT_CONTEXT_CHARS = 200;
+
+interface SessionWindow {
+  offset: number;
+  audio: File;
+  final: boolean;
+  transcription?: ProviderTranscription;
+  live?: LiveSegment[]; // Post-processed text shown while recording
+}
+
+type StreamListener = (event: StreamEvent) => void;
+
+export interface StreamSession {
+  id: string;
+  ownerId: string; // The user who started it
+  context: PipelineContext;
+  windows: Map<number, SessionWindow>;
+  listeners: Set<StreamListener>;
+  touchedAt: number;
+}
+
+// Route modules are bundled separately in development, so the registry
+// lives on globalThis to be shared between them
+const registry = globalThis as typeof globalThis & {
+  streamSessions?: Map<string, StreamSession>;
+};
+const sessions = (registry.streamSessions ??= new Map());
+
+export function createStreamSession(
+  context: PipelineContext,
+  ownerId: string
+): StreamSession {
+  const now = Date.now();
+  for (const [id, session] of sessions) {
+    if (now - session.touchedAt > SESSION_TTL_MS) sessions.delete(id);
+  }
+
+  const session: StreamSession = {
+    id: randomUUID(),
+    ownerId,
+    context,
+    windows: new Map(),
+    listeners: new Set(),
+    touchedAt: now,
+  };
+  sessions.set(session.id, session);
+  return session;
+}
+
+// Sessions are only visible to the user who started them
+export function getStreamSession(
+  id: string,
+  ownerId: string
+): StreamSession | undefined {
+  const session = sessions.get(id);
+  return session?.ownerId === ownerId ? session : undefined;
+}
+
+export const isStreamSessionOpen = (session: StreamSession) =>
+  sessions.get(session.id) === session;
+
+export function deleteStreamSession(id: string, ownerId: string) {
+  if (sessions.get(id)?.ownerId === ownerId) sessions.delete(id);
+}
+
+// Listen for updates; the listener first receives the current transcript
+export function subscribe(session: StreamSession, listener: StreamListener) {
+  listener(updateEvent(session));
+  session.listeners.add(listener);
+  return () => {
+    session.listeners.delete(listener);
+  };
+}
+
+// Transcribe the latest audio of a window and send the updated transcript
+// to listeners. A window that has been cut ignores late tentative audio.
+// Returns what the provider transcribed, to be charged even when a newer
+// version of the window has replaced it.
+export async function addWindow(
+  session: StreamSession,
+  provider: TranscriptionProvider,
+  index: number,
+  { offset, audio, final }: Omit<SessionWindow, "transcription" | "live">
+): Promise<ProviderTranscription | undefined> {
+  const previous = session.windows.get(index);
+  if (previous?.final) return undefined;
+
+  // Keep showing the previous text until the new audio is transcribed
+  const window: SessionWindow = { offset, audio, final, live: previous?.live };
+  session.windows.set(index, window);
+  session.touchedAt = Date.now();
+
+  // Failures are retried when the session finishes
+  const transcription = await transcribeWindow(session, provider, index);
+  // A newer version of the window arrived while this one was transcribed
+  if (session.windows.get(index) !== window) return transcription;
+
+  window.transcription = transcription;
+  window.live = liveSegments(session, window);
+  emit(session, updateEvent(session));
+  return transcription;
+}
+
+// Size of the audio finishing will have to transcribe again, for the
+// quota check before it
+export const untranscribedBytes = (session: StreamSession) =>
+  [...session.windows.values()]
+    .filter((window) => !window.transcription)
+    .reduce((sum, window) => sum + window.audio.size, 0);
+
+// Build the complete result from every window once recording stopped.
+// Windows whose transcription failed earlier are retried here, and the
+// seconds of those retries are returned to be charged. Speakers are told
+// apart on the whole recording, which the client sends along.
+export async function finishStreamSession(
+  session: StreamSession,
+  provider: TranscriptionProvider,
+  recording?: File
+): Promise<{ result: TranscriptionResult; retriedSeconds: number }> {
+  const indexes = [...session.windows.keys()].sort((a, b) => a - b);
+  const chunks = [];
+  let retriedSeconds = 0;
+
+  for (const index of indexes) {
+    const window = session.windows.get(index)!;
+    if (!window.transcription) {
+      window.transcription = await transcribeWindow(session, provider, index);
+      retriedSeconds += window.transcription.duration ?? 0;
+    }
+    chunks.push({ offset: window.offset, transcription: window.transcription });
+  }
+
+  // Windows are cut back to back, so there is no overlap to trim
+  const transcription = stitchTranscriptions(chunks, 0);
+  const diarization =
+    session.context.diarize && recording
+      ? await diarize(recording, transcription)
+      : undefined;
+
+  const result = buildTranscriptionResult(
+    transcription,
+    session.context,
+    diarization
+  );
+  sessions.delete(session.id);
+  return { result, retriedSeconds };
+}
+
+async function transcribeWindow(
+  session: StreamSession,
+  provider: TranscriptionProvider,
+  index: number
+) {
+  const previousText = session.windows.get(index - 1)?.transcription?.text;
+  const prompt = [
+    session.context.vocabulary.prompt,
+    previousText?.slice(-PROMPT_CONTEXT_CHARS),
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return provider.transcribe(session.windows.get(index)!.audio, {
+    temperature: 0.2,
+    prompt: prompt || undefined,
+  });
+}
+
+// Run the same post-processing as the final result, so live text already
+// has corrected terms and no identifiers
+function liveSegments(
+  session: StreamSession,
+  { offset, final, transcription }: SessionWindow
+): LiveSegment[] {
+  const result = buildTranscriptionResult(transcription!, session.context);
+  const segments = result.segments ?? [
+    { text: result.text, start: 0, end: result.duration ?? 0 },
+  ];
+
+  return segments
+    .filter((segment) => segment.text.trim())
+    .map((segment) => ({
+      text: segment.text.trim(),
+      start: segment.start + offset,
+      end: segment.end + offset,
+      final,
+    }));
+}
+
+function updateEvent(session: StreamSession): StreamEvent {
+  const segments = [...session.windows.entries()]
+    .sort(([a], [b]) => a - b)
+    .flatMap(([, window]) => window.live ?? []);
+  return { type: "update", segments };
+}
+
+function emit(session: StreamSession, event: StreamEvent) {
+  session.listeners.forEach((listener) => listener(event));
+}
@@ -0,0 +1,28 @@
+// A self-contained piece of a recording sent while dictating. Windows are
+// re-sent as they grow and marked final once the recorder cuts them.
+export interface AudioWindow {
+  index: number;
+  offset: number; // Start within the recording, in seconds
+  audio: Blob;
+  final: boolean;
+}
+
+// A transcribed phrase shown while recording. Tentative phrases belong to
+// a window that is still growing and may change on the next update.
+export interface LiveSegment {
+  text: string;
+  start: number;
+  end: number;
+  final: boolean;
+}
+
+// Events sent on GET /api/transcribe/stream/[id]
+export interface StreamEvent {
+  type: "update";
+  segments: LiveSegment[];
+}
+
+// Response body of POST /api/transcribe/stream
+export interface StreamSessionResponse {
+  id: string;
+}
@@ -0,0 +1,123 @@
+import type { AudioWindow } from "@/lib/streaming/types";
+
+// A window is cut at the first pause after this many seconds...
+const MIN_WINDOW_SECONDS = 5;
+// ...or regardless of pauses once it is this long
+const MAX_WINDOW_SECONDS = 20;
+
+// How often a growing window is sent for a tentative transcript
+const UPDATE_INTERVAL_MS = 2000;
+
+// Input level (0 to 1, as drawn by the meter) and duration of a pause
+const PAUSE_LEVEL = 0.05;
+const PAUSE_MS = 400;
+
+export interface WindowRecorder {
+  update(level: number): void; // Current input level, once per frame
+  pause(): void;
+  resume(): void;
+  stop(): Promise<void>; // Resolves once the last window was handed over
+}
+
+// Record a stream a second time in short windows, each a complete file the
+// provider can transcribe on its own. Cutting at pauses in speech keeps
+// words from being split between two windows.
+export function createWindowRecorder(
+  stream: MediaStream,
+  mimeType: string,
+  onWindow: (window: AudioWindow) => void
+): WindowRecorder {
+  let recorder: MediaRecorder;
+  let index = 0;
+  let windowStart = 0;
+  let recordedMs = 0; // Before the last resume
+  let resumedAt: number | null = performance.now();
+  let quietSince: number | null = null;
+  let stopped = false;
+  let onStopped = () => {};
+
+  const elapsed = () =>
+    (recordedMs + (resumedAt === null ? 0 : performance.now() - resumedAt)) /
+    1000;
+
+  const startWindow = () => {
+    const current = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    const window = { index, offset: windowStart };
+
+    current.ondataavailable = (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+      // The last chunk arrives while stopping and goes out as final below
+      if (current.state === "recording" && chunks.length > 0) {
+        onWindow({
+          ...window,
+          audio: new Blob(chunks, { type: mimeType }),
+          final: false,
+        });
+      }
+    };
+
+    current.onstop = () => {
+      if (chunks.length > 0) {
+        onWindow({
+          ...window,
+          audio: new Blob(chunks, { type: mimeType }),
+          final: true,
+        });
+        index++;
+      }
+
+      if (stopped) {
+        onStopped();
+      } else {
+        windowStart = elapsed();
+        startWindow();
+      }
+    };
+
+    current.start(UPDATE_INTERVAL_MS);
+    if (resumedAt === null) current.pause();
+    recorder = current;
+  };
+
+  startWindow();
+
+  return {
+    update(level) {
+      if (stopped || recorder.state !== "recording") return;
+
+      const now = performance.now();
+      quietSince = level < PAUSE_LEVEL ? quietSince ?? now : null;
+
+      const length = elapsed() - windowStart;
+      const isPause = quietSince !== null && now - quietSince >= PAUSE_MS;
+      if (
+        length >= MAX_WINDOW_SECONDS ||
+        (length >= MIN_WINDOW_SECONDS && isPause)
+      ) {
+        quietSince = null;
+        recorder.stop();
+      }
+    },
+
+    pause() {
+      if (resumedAt !== null) recordedMs += performance.now() - resumedAt;
+      resumedAt = null;
+      if (recorder.state === "recording") recorder.pause();
+    },
+
+    resume() {
+      resumedAt ??= performance.now();
+      if (recorder.state === "paused") recorder.resume();
+    },
+
+    stop() {
+      return new Promise<void>((resolve) => {
+        stopped = true;
+        onStopped = resolve;
+        // A window being cut right now resolves from its onstop instead
+        if (recorder.state !== "inactive") recorder.stop();
+      });
+    },
+  };
+}
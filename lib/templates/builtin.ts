@@ -0,0 +1,137 @@
+import type { DictationTemplate } from "@/lib/templates/types";
+
+// Section titles double as spoken headings ("next section plan"), so keep
+// them to words a clinician would say
+export const TEMPLATES: DictationTemplate[] = [
+  {
+    id: "history-and-physical",
+    name: "History and physical",
+    sections: [
+      {
+        id: "chief-complaint",
+        title: "Chief complaint",
+        aliases: ["Reason for visit"],
+      },
+      {
+        id: "hpi",
+        title: "History of present illness",
+        aliases: ["Present illness", "HPI"],
+      },
+      {
+        id: "pmh",
+        title: "Past medical history",
+        aliases: ["Medical history", "PMH"],
+      },
+      { id: "medications", title: "Medications" },
+      { id: "allergies", title: "Allergies" },
+      { id: "social-history", title: "Social history" },
+      { id: "family-history", title: "Family history" },
+      { id: "ros", title: "Review of systems", aliases: ["ROS"] },
+      {
+        id: "exam",
+        title: "Physical examination",
+        aliases: ["Examination", "Exam"],
+      },
+      { id: "assessment", title: "Assessment", aliases: ["Impression"] },
+      { id: "plan", title: "Plan" },
+    ],
+  },
+  {
+    id: "discharge-summary",
+    name: "Discharge summary",
+    sections: [
+      {
+        id: "admission-reason",
+        title: "Reason for admission",
+        aliases: ["Admission diagnosis"],
+      },
+      { id: "hospital-course", title: "Hospital course", aliases: ["Course"] },
+      { id: "procedures", title: "Procedures" },
+      {
+        id: "discharge-diagnoses",
+        title: "Discharge diagnoses",
+        aliases: ["Diagnoses"],
+      },
+      {
+        id: "discharge-medications",
+        title: "Discharge medications",
+        aliases: ["Medications"],
+      },
+      { id: "follow-up", title: "Follow-up", aliases: ["Follow up"] },
+      {
+        id: "instructions",
+        title: "Discharge instructions",
+        aliases: ["Instructions"],
+        boilerplate:
+          "Return to the emergency department for worsening symptoms, fever, chest pain or shortness of breath.",
+      },
+    ],
+  },
+  {
+    id: "operative-note",
+    name: "Operative note",
+    sections: [
+      {
+        id: "preoperative-diagnosis",
+        title: "Preoperative diagnosis",
+        aliases: ["Pre-op diagnosis"],
+      },
+      {
+        id: "postoperative-diagnosis",
+        title: "Postoperative diagnosis",
+        aliases: ["Post-op diagnosis"],
+      },
+      { id: "procedure", title: "Procedure", aliases: ["Operation"] },
+      { id: "surgeon", title: "Surgeon", aliases: ["Surgeons"] },
+      { id: "anesthesia", title: "Anesthesia" },
+      { id: "findings", title: "Findings" },
+      {
+        id: "description",
+        title: "Description of procedure",
+        aliases: ["Description", "Technique"],
+        boilerplate:
+          "The patient was identified in the preoperative area and informed consent was confirmed. A time-out was performed before incision.",
+      },
+      {
+        id: "blood-loss",
+        title: "Estimated blood loss",
+        aliases: ["Blood loss", "EBL"],
+      },
+      { id: "specimens", title: "Specimens", aliases: ["Specimen"] },
+      { id: "complications", title: "Complications" },
+      { id: "disposition", title: "Disposition" },
+    ],
+  },
+  {
+    id: "referral-letter",
+    name: "Referral letter",
+    sections: [
+      {
+        id: "reason",
+        title: "Reason for referral",
+        aliases: ["Reason"],
+        boilerplate:
+          "Dear colleague,\n\nThank you for seeing this patient, whom I am referring for the following reason.",
+      },
+      { id: "history", title: "History", aliases: ["Background"] },
+      {
+        id: "medications",
+        title: "Current medications",
+        aliases: ["Medications"],
+      },
+      { id: "exam", title: "Examination", aliases: ["Findings"] },
+      { id: "investigations", title: "Investigations", aliases: ["Results"] },
+      { id: "request", title: "Request", aliases: ["Question"] },
+      {
+        id: "closing",
+        title: "Closing",
+        boilerplate:
+          "I would be grateful for your assessment and advice.\n\nKind regards,",
+      },
+    ],
+  },
+];
+
+export function findTemplate(id: string): DictationTemplate | undefined {
+  return TEMPLATES.find((template) => template.id === id);
+}
@@ -0,0 +1,121 @@
+import { DEFAULT_COMMAND_GRAMMAR, commandTokens } from "@/lib/commands/grammar";
+import { markersBefore } from "@/lib/commands/markers";
+import type { CommandGrammar, TranscriptMarker } from "@/lib/commands/types";
+import { buildCues } from "@/lib/export/cues";
+import type {
+  DictationTemplate,
+  FilledDocument,
+  FilledSection,
+  TemplatePhrase,
+} from "@/lib/templates/types";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+
+// Voice command grammar that recognizes the template's headings. Without
+// voice commands turned on, only the section command is listened for.
+export function templateGrammar(
+  template: DictationTemplate,
+  base?: CommandGrammar
+): CommandGrammar {
+  const commands =
+    base?.commands ??
+    (Object.fromEntries(
+      Object.keys(DEFAULT_COMMAND_GRAMMAR.commands).map((action) => [
+        action,
+        action === "section" ? DEFAULT_COMMAND_GRAMMAR.commands.section : [],
+      ])
+    ) as CommandGrammar["commands"]);
+
+  return {
+    commands,
+    sections: template.sections.flatMap((section) => [
+      section.title,
+      ...(section.aliases ?? []),
+    ]),
+  };
+}
+
+// Route each phrase to the section whose heading was dictated last, or
+// assigned by hand. Phrases before the first heading go to the first
+// section; a heading the template does not have gets a section at the end.
+export function fillTemplate(
+  result: TranscriptionResult,
+  template: DictationTemplate
+): FilledDocument {
+  const sections: FilledSection[] = template.sections.map((section) => ({
+    ...section,
+    phrases: [],
+  }));
+  const addSection = (title: string) => {
+    const section: FilledSection = { id: `extra:${title}`, title, phrases: [] };
+    sections.push(section);
+    return section;
+  };
+
+  const phrases = buildCues(result);
+  const markers = markersBefore(phrases, result.markers);
+  let current = sections[0];
+
+  phrases.forEach((phrase, index) => {
+    const placed = markers.get(index) ?? [];
+    for (const marker of placed) {
+      if (marker.type !== "section") continue;
+      current = findSection(sections, marker.title) ?? addSection(marker.title);
+    }
+    current.phrases.push({
+      text: phrase.text,
+      start: phrase.start,
+      end: phrase.end,
+      newParagraph: placed.some((marker) => marker.type !== "section"),
+    });
+  });
+
+  return { template, sections };
+}
+
+// Move a phrase to another section by rewriting the headings around it:
+// the phrase starts the section, and the phrase after it goes back to
+// where it was
+export function assignPhrase(
+  result: TranscriptionResult,
+  template: DictationTemplate,
+  phrase: TemplatePhrase,
+  sectionId: string
+): TranscriptMarker[] {
+  const document = fillTemplate(result, template);
+  const target = document.sections.find((section) => section.id === sectionId);
+  if (!target) return result.markers ?? [];
+
+  const ordered = document.sections
+    .flatMap((section) => section.phrases.map((item) => ({ item, section })))
+    .sort((a, b) => a.item.start - b.item.start);
+  const index = ordered.findIndex(({ item }) => item.start === phrase.start);
+  const previousStart = ordered[index - 1]?.item.start ?? -Infinity;
+  const next = ordered[index + 1];
+
+  // Headings placed before this phrase or the next one are replaced
+  const markers = (result.markers ?? []).filter(
+    (marker) =>
+      marker.type !== "section" ||
+      marker.time <= previousStart ||
+      marker.time > (next?.item.start ?? Infinity)
+  );
+  markers.push({ type: "section", time: phrase.start, title: target.title });
+  if (next && next.section.id !== target.id) {
+    markers.push({
+      type: "section",
+      time: next.item.start,
+      title: next.section.title,
+    });
+  }
+  return markers.sort((a, b) => a.time - b.time);
+}
+
+// Sections match their title or any alias, however it was transcribed
+function findSection(sections: FilledSection[], heading: string) {
+  const spoken = commandTokens(heading).join(" ");
+  return sections.find((section) =>
+    [section.title, ...(section.aliases ?? [])].some(
+      (name) => commandTokens(name).join(" ") === spoken
+    )
+  );
+}
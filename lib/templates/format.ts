@@ -0,0 +1,36 @@
+import type {
+  FilledDocument,
+  FilledSection,
+  TemplatePhrase,
+} from "@/lib/templates/types";
+
+// Dictated phrases grouped where a line break or paragraph was dictated
+export function dictatedParagraphs(section: FilledSection) {
+  const paragraphs: TemplatePhrase[][] = [];
+  section.phrases.forEach((phrase, index) => {
+    if (index === 0 || phrase.newParagraph) paragraphs.push([phrase]);
+    else paragraphs[paragraphs.length - 1].push(phrase);
+  });
+  return paragraphs;
+}
+
+// Boilerplate paragraphs, then the dictated ones
+export function sectionParagraphs(section: FilledSection): string[] {
+  return [
+    ...(section.boilerplate?.split(/\n{2,}/) ?? []),
+    ...dictatedParagraphs(section).map((paragraph) =>
+      paragraph.map((phrase) => phrase.text).join(" ")
+    ),
+  ];
+}
+
+// Plain-text rendering with one titled block per section
+export function formatTemplateDocument(document: FilledDocument) {
+  return [
+    document.template.name.toUpperCase(),
+    ...document.sections.map(
+      (section) =>
+        `${section.title}\n${sectionParagraphs(section).join("\n\n") || "-"}`
+    ),
+  ].join("\n\n");
+}
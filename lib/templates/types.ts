@@ -0,0 +1,31 @@
+export interface TemplateSection {
+  id: string;
+  title: string;
+  aliases?: string[]; // Other spoken headings for the section
+  boilerplate?: string; // Standard wording placed before the dictation
+}
+
+// A fixed document structure to dictate into
+export interface DictationTemplate {
+  id: string;
+  name: string;
+  sections: TemplateSection[];
+}
+
+// A transcript phrase routed into a section of the template
+export interface TemplatePhrase {
+  text: string;
+  start: number;
+  end: number;
+  newParagraph: boolean; // A line break or paragraph was dictated before it
+}
+
+export interface FilledSection extends TemplateSection {
+  phrases: TemplatePhrase[];
+}
+
+export interface FilledDocument {
+  template: DictationTemplate;
+  // The template's sections in order, then any headings it does not have
+  sections: FilledSection[];
+}
@@ -0,0 +1,229 @@
+import { spawn } from "child_process";
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import path from "path";
+import { stitchTranscriptions } from "@/lib/transcription/stitching";
+import type {
+  ProviderTranscription,
+  TranscribeOptions,
+  TranscriptionProvider,
+} from "@/lib/transcription/types";
+
+// Largest file the Whisper API accepts in a single request
+export const MAX_PROVIDER_FILE_SIZE = 25 * 1024 * 1024; // 25MB
+
+// 10 minutes of 16kHz mono 16-bit PCM is ~19MB, safely under the limit
+const CHUNK_SECONDS = 600;
+const OVERLAP_SECONDS = 5;
+
+// Characters of the previous chunk passed as prompt to keep context
+const PROMPT_CONTEXT_CHARS = 200;
+
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+// ffmpeg could not read or convert the uploaded audio
+export class AudioProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AudioProcessingError";
+  }
+}
+
+interface AudioChunk {
+  file: File;
+  offset: number;
+}
+
+interface ChunkingOptions {
+  chunkSeconds?: number;
+  overlapSeconds?: number;
+}
+
+// Transcribe audio of any length by splitting it into overlapping chunks
+// and stitching the results back together
+export async function transcribeInChunks(
+  provider: TranscriptionProvider,
+  audio: File,
+  options: TranscribeOptions = {},
+  {
+    chunkSeconds = CHUNK_SECONDS,
+    overlapSeconds = OVERLAP_SECONDS,
+  }: ChunkingOptions = {}
+): Promise<ProviderTranscription> {
+  const chunks = await splitAudio(audio, chunkSeconds, overlapSeconds);
+  const results = [];
+  let previousText = "";
+
+  // Sequential on purpose: each chunk is prompted with the tail of the
+  // previous one, and it keeps us clear of provider rate limits
+  for (const chunk of chunks) {
+    const prompt = [options.prompt, previousText.slice(-PROMPT_CONTEXT_CHARS)]
+      .filter(Boolean)
+      .join(" ");
+    const transcription = await provider.transcribe(chunk.file, {
+      ...options,
+      prompt: prompt || undefined,
+    });
+    results.push({ offset: chunk.offset, transcription });
+    previousText = transcription.text;
+  }
+
+  return stitchTranscriptions(results, overlapSeconds);
+}
+
+async function splitAudio(
+  audio: File,
+  chunkSeconds: number,
+  overlapSeconds: number
+): Promise<AudioChunk[]> {
+  const directory = await mkdtemp(path.join(tmpdir(), "dictamed-"));
+
+  try {
+    const inputPath = path.join(directory, "input");
+    await writeFile(inputPath, Buffer.from(await audio.arrayBuffer()));
+
+    const duration = await probeDuration(inputPath);
+    const chunks: AudioChunk[] = [];
+
+    for (let offset = 0; offset < duration; offset += chunkSeconds) {
+      const outputPath = path.join(directory, `chunk-${chunks.length}.wav`);
+      await run(FFMPEG_PATH, [
+        "-v",
+        "error",
+        "-ss",
+        offset.toString(),
+        "-t",
+        (chunkSeconds + overlapSeconds).toString(),
+        "-i",
+        inputPath,
+        "-ac",
+        "1",
+        "-ar",
+        "16000",
+        "-c:a",
+        "pcm_s16le",
+        outputPath,
+      ]);
+
+      const data = await readFile(outputPath);
+      chunks.push({
+        file: new File([data], `${baseName(audio.name)}-${chunks.length}.wav`, {
+          type: "audio/wav",
+        }),
+        offset,
+      });
+
+      // Nothing left after this chunk besides what the overlap already covers
+      if (offset + chunkSeconds + overlapSeconds >= duration) break;
+    }
+
+    return chunks;
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+// Decode audio to mono 16-bit PCM samples, e.g. for speaker diarization
+export async function decodePcm(
+  audio: File,
+  sampleRate: number
+): Promise<Int16Array> {
+  const directory = await mkdtemp(path.join(tmpdir(), "dictamed-"));
+
+  try {
+    const inputPath = path.join(directory, "input");
+    const outputPath = path.join(directory, "output.pcm");
+    await writeFile(inputPath, Buffer.from(await audio.arrayBuffer()));
+
+    await run(FFMPEG_PATH, [
+      "-v",
+      "error",
+      "-i",
+      inputPath,
+      "-ac",
+      "1",
+      "-ar",
+      sampleRate.toString(),
+      "-f",
+      "s16le",
+      outputPath,
+    ]);
+
+    const data = await readFile(outputPath);
+    const length = Math.floor(data.byteLength / 2);
+    // Copy so the samples start on an aligned offset
+    return new Int16Array(
+      data.buffer.slice(data.byteOffset, data.byteOffset + length * 2)
+    );
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+async function probeDuration(inputPath: string): Promise<number> {
+  const { stdout: output } = await run(FFPROBE_PATH, [
+    "-v",
+    "error",
+    "-show_entries",
+    "format=duration",
+    "-of",
+    "default=noprint_wrappers=1:nokey=1",
+    inputPath,
+  ]);
+  const duration = parseFloat(output);
+  if (Number.isFinite(duration)) return duration;
+
+  // MediaRecorder WebM files carry no duration header, so decode the whole
+  // file and read the last timestamp ffmpeg reports
+  const { stderr } = await run(FFMPEG_PATH, [
+    "-i",
+    inputPath,
+    "-f",
+    "null",
+    "-",
+  ]);
+  const times = [...stderr.matchAll(/time=(\d+):(\d+):(\d+(?:\.\d+)?)/g)];
+  const last = times[times.length - 1];
+
+  if (!last) {
+    throw new AudioProcessingError("Could not determine audio duration");
+  }
+  return (
+    parseInt(last[1], 10) * 3600 +
+    parseInt(last[2], 10) * 60 +
+    parseFloat(last[3])
+  );
+}
+
+function run(
+  command: string,
+  args: string[]
+): Promise<{ stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args);
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (data) => (stdout += data));
+    child.stderr.on("data", (data) => (stderr += data));
+    child.on("error", (error) =>
+      reject(
+        new AudioProcessingError(`Failed to run ${command}: ${error.message}`)
+      )
+    );
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve({ stdout, stderr });
+      } else {
+        reject(
+          new AudioProcessingError(
+            `${command} exited with code ${code}: ${stderr}`
+          )
+        );
+      }
+    });
+  });
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, "");
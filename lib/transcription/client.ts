@@ -0,0 +1,173 @@
+import type { CommandGrammar } from "@/lib/commands/types";
+import type { DeidentifyMode } from "@/lib/phi/types";
+import {
+  TranscriptionError,
+  type TranscriptionErrorCode,
+  type TranscriptionErrorResponse,
+} from "@/lib/transcription/errors";
+import { MAX_UPLOAD_SIZE } from "@/lib/transcription/limits";
+import { parseTranscriptionResult } from "@/lib/transcription/schema";
+import type { TranscriptionResult } from "@/lib/transcription/types";
+import type { SpecialtyId } from "@/lib/vocabulary/types";
+
+export interface TranscribeRequestOptions {
+  specialty?: SpecialtyId;
+  termListId?: string;
+  deidentify?: DeidentifyMode;
+  diarize?: boolean; // Label speakers in a consult recording
+  commands?: CommandGrammar; // Apply spoken dictation commands
+  signal?: AbortSignal;
+  onUploadProgress?: (fraction: number) => void; // 0 to 1
+}
+
+// Upload an audio file to POST /api/transcribe and return the validated
+// result. Failures are thrown as TranscriptionError with a stable code.
+export async function transcribe(
+  file: File,
+  {
+    specialty,
+    termListId,
+    deidentify,
+    diarize,
+    commands,
+    signal,
+    onUploadProgress,
+  }: TranscribeRequestOptions = {}
+): Promise<TranscriptionResult> {
+  if (!file.type.startsWith("audio/")) {
+    throw new TranscriptionError(
+      "invalid_type",
+      "Invalid file type. Please upload an audio file."
+    );
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    throw new TranscriptionError(
+      "file_too_large",
+      "File too large. Maximum size is 200MB."
+    );
+  }
+
+  const formData = new FormData();
+  formData.append("audio", file);
+  if (specialty) formData.append("specialty", specialty);
+  if (termListId) formData.append("termListId", termListId);
+  if (deidentify) formData.append("deidentify", deidentify);
+  if (diarize) formData.append("diarize", "true");
+  if (commands) formData.append("commands", JSON.stringify(commands));
+
+  let response: UploadResponse;
+  try {
+    response = await upload("/api/transcribe", formData, {
+      signal,
+      onUploadProgress,
+    });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === "AbortError") {
+      throw error;
+    }
+    throw new TranscriptionError(
+      "network",
+      "Could not reach the transcription service. Check your connection."
+    );
+  }
+
+  const body = response.body as Partial<TranscriptionErrorResponse> | null;
+
+  if (!response.ok) {
+    throw new TranscriptionError(
+      body?.code ?? codeForStatus(response.status),
+      body?.error || "Transcription failed",
+      response.status,
+      body?.retryAfter ?? retryAfterFromResponse(response)
+    );
+  }
+
+  try {
+    return parseTranscriptionResult(body);
+  } catch (error) {
+    console.error("Transcription response error:", error);
+    throw new TranscriptionError(
+      "invalid_response",
+      "The transcription service returned an unexpected response.",
+      response.status
+    );
+  }
+}
+
+interface UploadResponse {
+  ok: boolean;
+  status: number;
+  body: unknown;
+  retryAfter: string | null; // Retry-After header
+}
+
+// POST a form with XMLHttpRequest, which unlike fetch reports how much of
+// the body has been sent
+function upload(
+  url: string,
+  body: FormData,
+  {
+    signal,
+    onUploadProgress,
+  }: Pick<TranscribeRequestOptions, "signal" | "onUploadProgress">
+): Promise<UploadResponse> {
+  return new Promise((resolve, reject) => {
+    const request = new XMLHttpRequest();
+    const abort = () => request.abort();
+
+    request.open("POST", url);
+    request.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onUploadProgress?.(event.loaded / event.total);
+      }
+    };
+    request.upload.onload = () => onUploadProgress?.(1);
+    request.onload = () => {
+      signal?.removeEventListener("abort", abort);
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(request.responseText);
+      } catch {
+        // Not JSON, e.g. an error page from a proxy
+      }
+      resolve({
+        ok: request.status >= 200 && request.status < 300,
+        status: request.status,
+        body: parsed,
+        retryAfter: request.getResponseHeader("Retry-After"),
+      });
+    };
+    request.onerror = () => {
+      signal?.removeEventListener("abort", abort);
+      reject(new TypeError("Network request failed"));
+    };
+    request.onabort = () =>
+      reject(new DOMException("The upload was aborted", "AbortError"));
+
+    if (signal?.aborted) {
+      reject(new DOMException("The upload was aborted", "AbortError"));
+      return;
+    }
+    signal?.addEventListener("abort", abort);
+    request.send(body);
+  });
+}
+
+function retryAfterFromResponse(response: UploadResponse) {
+  const seconds = Number(response.retryAfter);
+  return response.retryAfter !== null && Number.isFinite(seconds)
+    ? seconds
+    : undefined;
+}
+
+function codeForStatus(status: number): TranscriptionErrorCode {
+  if (status === 401) return "unauthenticated";
+  if (status === 403) return "forbidden";
+  if (status === 413) return "file_too_large";
+  if (status === 415) return "invalid_type";
+  if (status === 429) return "rate_limited";
+  if (status === 503) return "provider_unavailable";
+  if (status === 504) return "timeout";
+  return "unknown";
+}
@@ -0,0 +1,92 @@
+import type {
+  ConfidenceLevel,
+  SegmentConfidence,
+  TranscriptionSegment,
+} from "@/lib/transcription/types";
+
+// Whisper's own fallback thresholds: below this average log probability or
+// above this compression ratio, decoding is considered to have failed
+const LOGPROB_THRESHOLD = -1;
+const COMPRESSION_RATIO_THRESHOLD = 2.4;
+
+// Probability above which Whisper treats a segment as silence
+const NO_SPEECH_THRESHOLD = 0.6;
+
+const HIGH_CONFIDENCE = 0.7;
+const MEDIUM_CONFIDENCE = 0.45;
+
+export function levelForScore(score: number): ConfidenceLevel {
+  if (score >= HIGH_CONFIDENCE) return "high";
+  if (score >= MEDIUM_CONFIDENCE) return "medium";
+  return "low";
+}
+
+// Score a segment between 0 and 1 from Whisper's decoding statistics
+export function scoreSegment(
+  segment: Pick<
+    TranscriptionSegment,
+    "avg_logprob" | "no_speech_prob" | "compression_ratio"
+  >
+): SegmentConfidence {
+  // Geometric mean token probability
+  let score = Math.exp(Math.min(0, segment.avg_logprob));
+
+  // Text over audio that is probably silence is likely hallucinated
+  if (segment.no_speech_prob > NO_SPEECH_THRESHOLD) {
+    score *= 1 - segment.no_speech_prob;
+  }
+
+  // Highly compressible text means repeated phrases, a classic failure mode
+  if (segment.compression_ratio > COMPRESSION_RATIO_THRESHOLD) {
+    score *= 0.5;
+  }
+
+  if (segment.avg_logprob < LOGPROB_THRESHOLD) {
+    score = Math.min(score, MEDIUM_CONFIDENCE - 0.01);
+  }
+
+  const rounded = Math.round(score * 100) / 100;
+  return { score: rounded, level: levelForScore(rounded) };
+}
+
+export interface ConfidenceSummary {
+  segments: TranscriptionSegment[];
+  score?: number;
+  level: ConfidenceLevel | "unknown";
+  lowConfidenceSegments: number;
+}
+
+// Attach a confidence to every segment and compute a duration-weighted
+// overall score
+export function scoreTranscription(
+  segments: TranscriptionSegment[] = []
+): ConfidenceSummary {
+  const scored = segments.map((segment) => ({
+    ...segment,
+    confidence: scoreSegment(segment),
+  }));
+
+  if (scored.length === 0) {
+    return { segments: scored, level: "unknown", lowConfidenceSegments: 0 };
+  }
+
+  let weightedScore = 0;
+  let totalWeight = 0;
+  for (const segment of scored) {
+    // Zero-length segments still count a little
+    const weight = Math.max(0.1, segment.end - segment.start);
+    weightedScore += segment.confidence.score * weight;
+    totalWeight += weight;
+  }
+
+  const score = Math.round((weightedScore / totalWeight) * 100) / 100;
+
+  return {
+    segments: scored,
+    score,
+    level: levelForScore(score),
+    lowConfidenceSegments: scored.filter(
+      (segment) => segment.confidence.level === "low"
+    ).length,
+  };
+}
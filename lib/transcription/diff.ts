@@ -0,0 +1,97 @@
+export type DiffType = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+  type: DiffType;
+  words: string[];
+}
+
+// Word-level diff (Myers) between the machine transcript and an edited one
+export function diffWords(before: string[], after: string[]): DiffPart[] {
+  // Edits are usually local, so only diff the part that changed
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffType, word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) last.words.push(word);
+    else parts.push({ type, words: [word] });
+  };
+
+  before.slice(0, prefix).forEach((word) => push("equal", word));
+  for (const [type, word] of middle(
+    before.slice(prefix, before.length - suffix),
+    after.slice(prefix, after.length - suffix)
+  )) {
+    push(type, word);
+  }
+  before.slice(before.length - suffix).forEach((word) => push("equal", word));
+
+  return parts;
+}
+
+function middle(a: string[], b: string[]): [DiffType, string][] {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  search: for (let d = 0; d <= max; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let x =
+        k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) break search;
+    }
+  }
+
+  // Walk the trace backwards to recover the edit script
+  const ops: [DiffType, string][] = [];
+  let x = n;
+  let y = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const k = x - y;
+    const vd = trace[d];
+    const previousK =
+      k === -d || (k !== d && vd[offset + k - 1] < vd[offset + k + 1])
+        ? k + 1
+        : k - 1;
+    const previousX = vd[offset + previousK];
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      ops.push(["equal", a[--x]]);
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) ops.push(["insert", b[--y]]);
+      else ops.push(["delete", a[--x]]);
+    }
+  }
+
+  return ops.reverse();
+}
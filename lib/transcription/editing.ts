@@ -0,0 +1,181 @@
+import {
+  findSegmentIndex,
+  joinSegmentText,
+  trailingPunctuation,
+} from "@/lib/transcription/text";
+import type {
+  TranscriptContent,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+// Gap between words wide enough to hold an inserted word on its own
+const MIN_INSERT_GAP = 0.05;
+
+// Replace a word's text. Several space-separated words split its time span.
+export function editWord<T extends TranscriptContent>(
+  transcript: T,
+  index: number,
+  text: string
+): T {
+  const words = transcript.words ?? [];
+  const target = words[index];
+  if (!target) return transcript;
+
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return deleteWord(transcript, index);
+
+  return withWords(
+    transcript,
+    [
+      ...words.slice(0, index),
+      // Replacements keep the word's other labels, such as its speaker
+      ...spreadWords(tokens, target.start, target.end).map((word) => ({
+        ...target,
+        ...word,
+      })),
+      ...words.slice(index + 1),
+    ],
+    target.start,
+    target.end
+  );
+}
+
+// Insert a word after `index` (or at the start for -1), taking the silence
+// between its neighbors or, if they touch, half of the neighboring word
+export function insertWord<T extends TranscriptContent>(
+  transcript: T,
+  index: number,
+  text: string
+): T {
+  const words = [...(transcript.words ?? [])];
+  const tokens = text.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return transcript;
+
+  const previous = words[index];
+  const next = words[index + 1];
+  const gapStart = previous?.end ?? 0;
+  const gapEnd = next?.start ?? gapStart + MIN_INSERT_GAP * tokens.length;
+  let start = gapStart;
+  let end = gapEnd;
+
+  if (gapEnd - gapStart < MIN_INSERT_GAP && previous) {
+    start = round((previous.start + previous.end) / 2);
+    end = previous.end;
+    words[index] = { ...previous, end: start };
+  } else if (gapEnd - gapStart < MIN_INSERT_GAP && next) {
+    start = next.start;
+    end = round((next.start + next.end) / 2);
+    words[index + 1] = { ...next, start: end };
+  }
+
+  // Inserted words belong to the speaker of the word they follow
+  const speaker = (previous ?? next)?.speaker;
+  words.splice(
+    index + 1,
+    0,
+    ...spreadWords(tokens, start, end).map((word) =>
+      speaker ? { ...word, speaker } : word
+    )
+  );
+  return withWords(transcript, words, start, end);
+}
+
+// Remove a word; its neighbors keep their timestamps and the gap stays
+export function deleteWord<T extends TranscriptContent>(
+  transcript: T,
+  index: number
+): T {
+  const words = transcript.words ?? [];
+  const target = words[index];
+  if (!target) return transcript;
+
+  return withWords(
+    transcript,
+    [...words.slice(0, index), ...words.slice(index + 1)],
+    target.start,
+    target.end
+  );
+}
+
+// Join a word with the one after it ("meta" + "prolol" -> "metaprolol")
+export function mergeWords<T extends TranscriptContent>(
+  transcript: T,
+  index: number,
+  separator = ""
+): T {
+  const words = transcript.words ?? [];
+  const first = words[index];
+  const second = words[index + 1];
+  if (!first || !second) return transcript;
+
+  const merged: WordTimestamp = {
+    ...first,
+    word: `${first.word}${separator}${second.word}`,
+    end: second.end,
+  };
+
+  return withWords(
+    transcript,
+    [...words.slice(0, index), merged, ...words.slice(index + 2)],
+    first.start,
+    second.end
+  );
+}
+
+// Store new words and regenerate the text of segments touching the edit.
+// Untouched segments keep Whisper's punctuation.
+function withWords<T extends TranscriptContent>(
+  transcript: T,
+  words: WordTimestamp[],
+  editStart: number,
+  editEnd: number
+): T {
+  const segments = transcript.segments;
+  if (!segments?.length) {
+    return {
+      ...transcript,
+      words,
+      text: words.map((word) => word.word).join(" "),
+    };
+  }
+
+  // Same word-to-segment assignment the transcript view uses
+  const owners = words.map((word) =>
+    Math.max(0, findSegmentIndex(segments, word.start))
+  );
+  const touched = new Set([Math.max(0, findSegmentIndex(segments, editStart))]);
+  segments.forEach((segment, index) => {
+    if (segment.start < editEnd && segment.end > editStart) touched.add(index);
+  });
+
+  const updated = segments.map((segment, index) =>
+    touched.has(index)
+      ? {
+          ...segment,
+          text: ` ${words
+            .filter((_, wordIndex) => owners[wordIndex] === index)
+            .map((word) => word.word)
+            .join(" ")}${trailingPunctuation(segment.text)}`,
+        }
+      : segment
+  );
+
+  return {
+    ...transcript,
+    words,
+    segments: updated,
+    text: joinSegmentText(updated),
+  };
+}
+
+// Share a time span evenly between replacement words
+export function spreadWords(tokens: string[], start: number, end: number) {
+  const step = (end - start) / tokens.length;
+  return tokens.map((word, i) => ({
+    word,
+    start: round(start + step * i),
+    end: i === tokens.length - 1 ? end : round(start + step * (i + 1)),
+  }));
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
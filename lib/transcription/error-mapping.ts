@@ -0,0 +1,176 @@
+import {
+  APIConnectionError,
+  APIConnectionTimeoutError,
+  APIError,
+  AuthenticationError,
+  BadRequestError,
+  InternalServerError,
+  NotFoundError,
+  PermissionDeniedError,
+  RateLimitError,
+  UnprocessableEntityError,
+} from "openai";
+import { AudioProcessingError } from "@/lib/transcription/chunking";
+import {
+  isRetryableCode,
+  type TranscriptionErrorCode,
+  type TranscriptionErrorResponse,
+} from "@/lib/transcription/errors";
+import { InvalidOptionsError } from "@/lib/transcription/options";
+import { ProviderConfigurationError } from "@/lib/transcription/provider";
+
+export interface MappedTranscriptionError {
+  status: number;
+  body: TranscriptionErrorResponse;
+}
+
+// Fallback Retry-After values when the provider does not send one
+const DEFAULT_RETRY_AFTER: Partial<Record<TranscriptionErrorCode, number>> = {
+  rate_limited: 20,
+  timeout: 5,
+  connection: 5,
+  provider_unavailable: 10,
+};
+
+// Translate provider and pipeline failures into a stable error code,
+// an HTTP status and a message the UI can show as-is
+export function mapTranscriptionError(
+  error: unknown
+): MappedTranscriptionError {
+  // Timeout extends the connection error, so it must be checked first
+  if (error instanceof APIConnectionTimeoutError) {
+    return build(
+      "timeout",
+      504,
+      "The transcription service timed out. Please try again."
+    );
+  }
+
+  if (error instanceof APIConnectionError) {
+    return build(
+      "connection",
+      503,
+      "Could not reach the transcription service. Please try again shortly."
+    );
+  }
+
+  if (
+    error instanceof AuthenticationError ||
+    error instanceof PermissionDeniedError
+  ) {
+    return build(
+      "auth",
+      502,
+      "The transcription service rejected our credentials. Contact your administrator."
+    );
+  }
+
+  if (error instanceof RateLimitError) {
+    if (error.code === "insufficient_quota") {
+      return build(
+        "quota_exceeded",
+        429,
+        "Transcription quota exceeded. Contact your administrator."
+      );
+    }
+    return build(
+      "rate_limited",
+      429,
+      "Too many transcription requests. Retrying shortly may help.",
+      retryAfterFromHeaders(error.headers)
+    );
+  }
+
+  if (
+    error instanceof BadRequestError ||
+    error instanceof UnprocessableEntityError
+  ) {
+    return build(
+      "bad_request",
+      422,
+      "The audio could not be transcribed. It may be corrupt or in an unsupported format."
+    );
+  }
+
+  if (error instanceof NotFoundError) {
+    return build(
+      "provider_not_configured",
+      500,
+      "The configured transcription model is not available."
+    );
+  }
+
+  if (error instanceof InternalServerError) {
+    return build(
+      "provider_unavailable",
+      503,
+      "The transcription service is temporarily unavailable. Please try again.",
+      retryAfterFromHeaders(error.headers)
+    );
+  }
+
+  if (error instanceof APIError) {
+    return build(
+      "unknown",
+      502,
+      "The transcription service returned an unexpected error."
+    );
+  }
+
+  if (error instanceof ProviderConfigurationError) {
+    return build(
+      "provider_not_configured",
+      500,
+      "Transcription is not configured on the server. Contact your administrator."
+    );
+  }
+
+  if (error instanceof InvalidOptionsError) {
+    return build("invalid_options", 400, error.message);
+  }
+
+  if (error instanceof AudioProcessingError) {
+    return build(
+      "audio_processing",
+      422,
+      "The recording could not be processed. Try converting it to MP3 or WAV."
+    );
+  }
+
+  return build("unknown", 500, "Failed to transcribe audio. Please try again.");
+}
+
+function build(
+  code: TranscriptionErrorCode,
+  status: number,
+  error: string,
+  retryAfter?: number
+): MappedTranscriptionError {
+  const retryable = isRetryableCode(code);
+
+  return {
+    status,
+    body: {
+      error,
+      code,
+      retryable,
+      retryAfter: retryable
+        ? retryAfter ?? DEFAULT_RETRY_AFTER[code]
+        : undefined,
+    },
+  };
+}
+
+function retryAfterFromHeaders(headers: Headers | undefined) {
+  const value = headers?.get("retry-after");
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+
+  // Retry-After may also be an HTTP date
+  const date = Date.parse(value);
+  return Number.isNaN(date)
+    ? undefined
+    : Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
@@ -0,0 +1,77 @@
+export type TranscriptionErrorCode =
+  | "no_file"
+  | "invalid_type"
+  | "file_too_large"
+  | "invalid_options"
+  | "provider_not_configured"
+  | "auth"
+  | "quota_exceeded"
+  | "rate_limited"
+  | "bad_request"
+  | "timeout"
+  | "connection"
+  | "provider_unavailable"
+  | "audio_processing"
+  | "network"
+  | "invalid_response"
+  | "stream_not_found"
+  | "unauthenticated" // No valid session: sign in again
+  | "forbidden" // Signed in, but the role does not allow it
+  | "unknown";
+
+// Error body returned by the transcription endpoints
+export interface TranscriptionErrorResponse {
+  error: string;
+  code: TranscriptionErrorCode;
+  retryable: boolean;
+  // Seconds to wait before retrying, mirrored in the Retry-After header
+  retryAfter?: number;
+}
+
+// What AudioInput hands to onTranscriptionError alongside the message
+export interface TranscriptionErrorDetails {
+  code: TranscriptionErrorCode;
+  retryable: boolean;
+  retryAfter?: number;
+}
+
+// Codes for transient failures where the same request may succeed later
+const RETRYABLE_CODES: TranscriptionErrorCode[] = [
+  "rate_limited",
+  "timeout",
+  "connection",
+  "provider_unavailable",
+  "network",
+];
+
+export const isRetryableCode = (code: TranscriptionErrorCode) =>
+  RETRYABLE_CODES.includes(code);
+
+export class TranscriptionError extends Error {
+  code: TranscriptionErrorCode;
+  status?: number;
+  retryable: boolean;
+  retryAfter?: number;
+
+  constructor(
+    code: TranscriptionErrorCode,
+    message: string,
+    status?: number,
+    retryAfter?: number
+  ) {
+    super(message);
+    this.name = "TranscriptionError";
+    this.code = code;
+    this.status = status;
+    this.retryable = isRetryableCode(code);
+    this.retryAfter = retryAfter;
+  }
+
+  get details(): TranscriptionErrorDetails {
+    return {
+      code: this.code,
+      retryable: this.retryable,
+      retryAfter: this.retryAfter,
+    };
+  }
+}
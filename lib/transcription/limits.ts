@@ -0,0 +1,3 @@
+// Long recordings are split into chunks on the server, so uploads may
+// exceed the 25MB Whisper limit up to this size
+export const MAX_UPLOAD_SIZE = 200 * 1024 * 1024; // 200MB
@@ -0,0 +1,74 @@
+import type { SessionUser } from "@/lib/auth/types";
+import { parseCommandGrammar } from "@/lib/commands/grammar";
+import { DEIDENTIFY_MODES, type DeidentifyMode } from "@/lib/phi/types";
+import type { PipelineContext } from "@/lib/transcription/pipeline";
+import { buildVocabularyPrompt } from "@/lib/vocabulary/prompt";
+import { isSpecialtyId } from "@/lib/vocabulary/specialties";
+import { getTermList, isTermListVisible } from "@/lib/vocabulary/store";
+
+// A transcription option in the request was not recognized
+export class InvalidOptionsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvalidOptionsError";
+  }
+}
+
+// Read the specialty, term list, de-identification, diarization and voice
+// command fields shared by the upload and streaming endpoints into the
+// pipeline context. Only term lists the user can see may be picked.
+export async function resolvePipelineContext(
+  formData: FormData,
+  user: SessionUser
+): Promise<PipelineContext> {
+  // Vocabulary biasing: a built-in specialty and/or a custom term list
+  const specialty = formData.get("specialty")?.toString() || "general";
+  const termListId = formData.get("termListId")?.toString();
+
+  if (!isSpecialtyId(specialty)) {
+    throw new InvalidOptionsError(`Unknown specialty: ${specialty}`);
+  }
+
+  const termList = termListId ? await getTermList(termListId) : undefined;
+  if (termListId && (!termList || !isTermListVisible(termList, user))) {
+    throw new InvalidOptionsError("The selected term list no longer exists.");
+  }
+
+  // Optional de-identification of the returned transcript
+  const deidentify = formData.get("deidentify")?.toString() || undefined;
+  if (deidentify && !DEIDENTIFY_MODES.includes(deidentify as DeidentifyMode)) {
+    throw new InvalidOptionsError(
+      `Unknown de-identification mode: ${deidentify}`
+    );
+  }
+
+  // Voice commands, with the grammar the user configured
+  const commandsField = formData.get("commands")?.toString();
+  const commands = commandsField
+    ? parseCommandGrammar(parseJson(commandsField))
+    : undefined;
+  if (commands === null) {
+    throw new InvalidOptionsError("The voice command grammar is not valid.");
+  }
+
+  return {
+    specialty,
+    termList,
+    vocabulary: buildVocabularyPrompt({
+      specialty,
+      customTerms: termList?.terms,
+    }),
+    deidentify: deidentify as DeidentifyMode | undefined,
+    // Consult recordings with more than one voice
+    diarize: formData.get("diarize") === "true",
+    commands,
+  };
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,96 @@
+import { applyVoiceCommands } from "@/lib/commands/interpret";
+import type { CommandGrammar } from "@/lib/commands/types";
+import { assignSpeakers } from "@/lib/diarization/assign";
+import type { Diarization } from "@/lib/diarization/types";
+import { correctTranscript } from "@/lib/medical/correction";
+import { deidentifyTranscript } from "@/lib/phi/deidentify";
+import type { DeidentifyMode } from "@/lib/phi/types";
+import { scoreTranscription } from "@/lib/transcription/confidence";
+import type {
+  ProviderTranscription,
+  TranscriptionResult,
+} from "@/lib/transcription/types";
+import type { VocabularyPrompt } from "@/lib/vocabulary/prompt";
+import type { CustomTermList, SpecialtyId } from "@/lib/vocabulary/types";
+
+export interface PipelineContext {
+  specialty: SpecialtyId;
+  termList?: CustomTermList;
+  vocabulary: VocabularyPrompt;
+  deidentify?: DeidentifyMode;
+  diarize?: boolean; // Label speakers; the caller runs the diarization
+  commands?: CommandGrammar; // Apply spoken dictation commands
+}
+
+// Post-process a raw provider transcription into the API response:
+// voice commands, medical term correction, confidence scoring, de-identification, then
+// speaker labels from the diarization, if any
+export function buildTranscriptionResult(
+  transcription: ProviderTranscription,
+  { specialty, termList, vocabulary, deidentify, commands }: PipelineContext,
+  diarization?: Diarization
+): TranscriptionResult {
+  // Commands go first so their words are never corrected or scored
+  const dictated = commands
+    ? applyVoiceCommands(transcription, commands)
+    : undefined;
+
+  const corrected = correctTranscript(dictated?.transcript ?? transcription, {
+    extraTerms: termList?.terms,
+  });
+  const confidence = scoreTranscription(corrected.transcript.segments);
+  const scored = {
+    ...corrected.transcript,
+    segments: corrected.transcript.segments ? confidence.segments : undefined,
+  };
+
+  const deidentified = deidentify
+    ? deidentifyTranscript(scored, deidentify)
+    : undefined;
+  const phi = deidentified?.spans;
+
+  const labelled = diarization
+    ? assignSpeakers(deidentified?.transcript ?? scored, diarization.turns)
+    : undefined;
+  const transcript = labelled?.transcript ?? deidentified?.transcript ?? scored;
+
+  // A correction's original words would put the identifier back
+  const corrections = phi
+    ? corrected.corrections.filter(
+        (correction) =>
+          !phi.some(
+            (span) => span.start < correction.end && span.end > correction.start
+          )
+      )
+    : corrected.corrections;
+
+  // Enhanced response with medical context
+  return {
+    text: transcript.text,
+    duration: transcript.duration,
+    language: transcript.language,
+    segments: transcript.segments,
+    // Add medical-specific processing hints
+    metadata: {
+      processedAt: new Date().toISOString(),
+      model: transcript.model,
+      medicalContext: true,
+      specialty,
+      termListId: termList?.id,
+      vocabularyTerms: vocabulary.termCount,
+      confidence: confidence.level,
+      confidenceScore: confidence.score,
+      lowConfidenceSegments: confidence.lowConfidenceSegments,
+      hasWordTimestamps:
+        transcript.words && transcript.words.length > 0 ? true : false, // Check if word timestamps are available
+      deidentification: deidentify,
+      diarization: diarization?.provider,
+    },
+    words: transcript.words,
+    corrections,
+    phi,
+    speakers: labelled?.speakers,
+    voiceCommands: dictated?.commands,
+    markers: dictated?.markers,
+  };
+}
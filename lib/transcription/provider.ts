@@ -0,0 +1,58 @@
+import { createMockProvider } from "@/lib/transcription/providers/mock";
+import { createOpenAIProvider } from "@/lib/transcription/providers/openai";
+import { createOpenAICompatibleProvider } from "@/lib/transcription/providers/openai-compatible";
+import type { TranscriptionProvider } from "@/lib/transcription/types";
+
+export type TranscriptionProviderName = "openai" | "openai-compatible" | "mock";
+
+// The selected provider is missing settings or does not exist
+export class ProviderConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProviderConfigurationError";
+  }
+}
+
+let cachedProvider: TranscriptionProvider | null = null;
+
+// Build the provider selected by TRANSCRIPTION_PROVIDER (defaults to OpenAI)
+export function createTranscriptionProvider(
+  env: NodeJS.ProcessEnv = process.env
+): TranscriptionProvider {
+  const name = (env.TRANSCRIPTION_PROVIDER || "openai") as
+    | TranscriptionProviderName
+    | string;
+  const model = env.TRANSCRIPTION_MODEL || undefined;
+
+  switch (name) {
+    case "openai":
+      if (!env.OPENAI_API_KEY) {
+        throw new ProviderConfigurationError("OPENAI_API_KEY is not set");
+      }
+      return createOpenAIProvider({ apiKey: env.OPENAI_API_KEY, model });
+    case "openai-compatible":
+      if (!env.TRANSCRIPTION_BASE_URL) {
+        throw new ProviderConfigurationError(
+          "TRANSCRIPTION_BASE_URL is required for the openai-compatible provider"
+        );
+      }
+      return createOpenAICompatibleProvider({
+        baseURL: env.TRANSCRIPTION_BASE_URL,
+        apiKey: env.TRANSCRIPTION_API_KEY,
+        model,
+      });
+    case "mock":
+      return createMockProvider();
+    default:
+      throw new ProviderConfigurationError(
+        `Unknown transcription provider: ${name}`
+      );
+  }
+}
+
+export function getTranscriptionProvider(): TranscriptionProvider {
+  if (!cachedProvider) {
+    cachedProvider = createTranscriptionProvider();
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,85 @@
+import type {
+  ProviderTranscription,
+  TranscriptionProvider,
+  TranscriptionSegment,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+const SCRIPT = [
+  "Patient is a 54 year old male presenting with chest pain for two days.",
+  "Pain is substernal, non radiating and worse on exertion.",
+  // Misheard on purpose so the term correction pass has work to do
+  "He takes meta prolol 25 milligrams twice daily and atorvastatin 40 milligrams at night.",
+  "Blood pressure is 142 over 88, heart rate 76, oxygen saturation 98 percent on room air.",
+  "Plan is to obtain an ECG and troponin and follow up in one week.",
+];
+
+// Index of the sentence reported with poor decoding statistics, so the
+// low-confidence review UI can be exercised offline
+const LOW_CONFIDENCE_SENTENCE = 2;
+
+// Seconds of speech per word, roughly a normal dictation pace
+const WORD_DURATION = 0.4;
+
+// Assumed compressed audio bitrate used to estimate duration from file size
+const BYTES_PER_SECOND = 16000;
+
+// Offline provider returning a fixed script sized to the uploaded audio.
+// Output depends only on the file size, so tests get stable results.
+export function createMockProvider(): TranscriptionProvider {
+  return {
+    name: "mock",
+    model: "mock-whisper",
+    async transcribe(audio: File): Promise<ProviderTranscription> {
+      const estimatedDuration = Math.max(1, audio.size / BYTES_PER_SECOND);
+
+      const segments: TranscriptionSegment[] = [];
+      const words: WordTimestamp[] = [];
+      let time = 0;
+
+      for (
+        let index = 0;
+        time < estimatedDuration || segments.length === 0;
+        index++
+      ) {
+        const sentence = SCRIPT[index % SCRIPT.length];
+        const segmentStart = time;
+
+        for (const token of sentence.split(" ")) {
+          const word = token.replace(/[.,]/g, "");
+          words.push({
+            word,
+            start: round(time),
+            end: round(time + WORD_DURATION),
+          });
+          time += WORD_DURATION;
+        }
+
+        segments.push({
+          id: index,
+          seek: 0,
+          start: round(segmentStart),
+          end: round(time),
+          text: ` ${sentence}`,
+          tokens: [],
+          temperature: 0,
+          avg_logprob:
+            index % SCRIPT.length === LOW_CONFIDENCE_SENTENCE ? -1.1 : -0.2,
+          compression_ratio: 1.4,
+          no_speech_prob: 0.01,
+        });
+      }
+
+      return {
+        text: segments.map((segment) => segment.text.trim()).join(" "),
+        duration: round(time),
+        language: "english",
+        segments,
+        words,
+        model: "mock-whisper",
+      };
+    },
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
@@ -0,0 +1,24 @@
+import { createOpenAIProvider } from "@/lib/transcription/providers/openai";
+import type { TranscriptionProvider } from "@/lib/transcription/types";
+
+interface OpenAICompatibleProviderConfig {
+  baseURL: string;
+  apiKey?: string;
+  model?: string;
+}
+
+// Self-hosted servers exposing the OpenAI audio API (faster-whisper-server,
+// whisper.cpp server, LocalAI, ...). Audio never leaves the configured host.
+export function createOpenAICompatibleProvider({
+  baseURL,
+  apiKey,
+  model = "whisper-1",
+}: OpenAICompatibleProviderConfig): TranscriptionProvider {
+  return createOpenAIProvider({
+    // The SDK refuses to start without a key; most local servers ignore it
+    apiKey: apiKey || "not-needed",
+    baseURL,
+    model,
+    name: "openai-compatible",
+  });
+}
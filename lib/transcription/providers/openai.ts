@@ -0,0 +1,47 @@
+import OpenAI from "openai";
+import type {
+  TranscribeOptions,
+  TranscriptionProvider,
+} from "@/lib/transcription/types";
+
+interface OpenAIProviderConfig {
+  apiKey?: string;
+  baseURL?: string;
+  model?: string;
+  name?: string;
+}
+
+export function createOpenAIProvider({
+  apiKey,
+  baseURL,
+  model = "whisper-1",
+  name = "openai",
+}: OpenAIProviderConfig = {}): TranscriptionProvider {
+  const client = new OpenAI({ apiKey, baseURL });
+
+  return {
+    name,
+    model,
+    async transcribe(audio: File, options: TranscribeOptions = {}) {
+      const transcription = await client.audio.transcriptions.create({
+        file: audio,
+        model,
+        response_format: "verbose_json",
+        temperature: options.temperature,
+        prompt: options.prompt,
+        language: options.language,
+        // Segments carry the decoding statistics used for confidence scoring
+        timestamp_granularities: ["word", "segment"],
+      });
+
+      return {
+        text: transcription.text,
+        duration: transcription.duration,
+        language: transcription.language,
+        segments: transcription.segments,
+        words: transcription.words,
+        model,
+      };
+    },
+  };
+}
@@ -0,0 +1,274 @@
+import { COMMAND_ACTIONS } from "@/lib/commands/grammar";
+import type { AppliedCommand, TranscriptMarker } from "@/lib/commands/types";
+import { SPEAKER_ROLES, type Speaker } from "@/lib/diarization/types";
+import type { TermCorrection } from "@/lib/medical/types";
+import { DEIDENTIFY_MODES, PHI_LABELS, type PhiSpan } from "@/lib/phi/types";
+import type {
+  SegmentConfidence,
+  TranscriptionMetadata,
+  TranscriptionResult,
+  TranscriptionSegment,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+import { isSpecialtyId } from "@/lib/vocabulary/specialties";
+
+export class SchemaError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Invalid transcription response: ${path} should be ${expected}`);
+    this.name = "SchemaError";
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+const CONFIDENCE_LEVELS = ["high", "medium", "low"] as const;
+const PHI_CATEGORIES = Object.keys(PHI_LABELS) as (keyof typeof PHI_LABELS)[];
+const ROLES = SPEAKER_ROLES.map(({ role }) => role);
+const LEXICON_CATEGORIES = [
+  "drug",
+  "anatomy",
+  "abbreviation",
+  "custom",
+] as const;
+
+// Validate a POST /api/transcribe response body at runtime
+export function parseTranscriptionResult(data: unknown): TranscriptionResult {
+  const value = record(data, "response");
+
+  return {
+    text: string(value.text, "text"),
+    duration: optional(value.duration, (v) => number(v, "duration")),
+    language: optional(value.language, (v) => string(v, "language")),
+    segments: optional(value.segments, (v) =>
+      array(v, "segments").map((segment, index) =>
+        parseSegment(segment, `segments[${index}]`)
+      )
+    ),
+    words: optional(value.words, (v) =>
+      array(v, "words").map((word, index) => parseWord(word, `words[${index}]`))
+    ),
+    metadata: optional(value.metadata, (v) => parseMetadata(v, "metadata")),
+    corrections: optional(value.corrections, (v) =>
+      array(v, "corrections").map((correction, index) =>
+        parseCorrection(correction, `corrections[${index}]`)
+      )
+    ),
+    phi: optional(value.phi, (v) =>
+      array(v, "phi").map((span, index) => parsePhiSpan(span, `phi[${index}]`))
+    ),
+    speakers: optional(value.speakers, (v) =>
+      array(v, "speakers").map((speaker, index) =>
+        parseSpeaker(speaker, `speakers[${index}]`)
+      )
+    ),
+    voiceCommands: optional(value.voiceCommands, (v) =>
+      array(v, "voiceCommands").map((command, index) =>
+        parseCommand(command, `voiceCommands[${index}]`)
+      )
+    ),
+    markers: optional(value.markers, (v) =>
+      array(v, "markers").map((marker, index) =>
+        parseMarker(marker, `markers[${index}]`)
+      )
+    ),
+  };
+}
+
+function parseSegment(data: unknown, path: string): TranscriptionSegment {
+  const value = record(data, path);
+
+  return {
+    id: number(value.id, `${path}.id`),
+    seek: number(value.seek, `${path}.seek`),
+    start: number(value.start, `${path}.start`),
+    end: number(value.end, `${path}.end`),
+    text: string(value.text, `${path}.text`),
+    tokens: array(value.tokens, `${path}.tokens`).map((token, index) =>
+      number(token, `${path}.tokens[${index}]`)
+    ),
+    temperature: number(value.temperature, `${path}.temperature`),
+    avg_logprob: number(value.avg_logprob, `${path}.avg_logprob`),
+    compression_ratio: number(
+      value.compression_ratio,
+      `${path}.compression_ratio`
+    ),
+    no_speech_prob: number(value.no_speech_prob, `${path}.no_speech_prob`),
+    confidence: optional(value.confidence, (v) =>
+      parseSegmentConfidence(v, `${path}.confidence`)
+    ),
+    speaker: optional(value.speaker, (v) => string(v, `${path}.speaker`)),
+  };
+}
+
+function parseSegmentConfidence(
+  data: unknown,
+  path: string
+): SegmentConfidence {
+  const value = record(data, path);
+
+  return {
+    score: number(value.score, `${path}.score`),
+    level: oneOf(value.level, CONFIDENCE_LEVELS, `${path}.level`),
+  };
+}
+
+function parseWord(data: unknown, path: string): WordTimestamp {
+  const value = record(data, path);
+
+  return {
+    word: string(value.word, `${path}.word`),
+    start: number(value.start, `${path}.start`),
+    end: number(value.end, `${path}.end`),
+    speaker: optional(value.speaker, (v) => string(v, `${path}.speaker`)),
+  };
+}
+
+function parseSpeaker(data: unknown, path: string): Speaker {
+  const value = record(data, path);
+
+  return {
+    id: string(value.id, `${path}.id`),
+    role: oneOf(value.role, ROLES, `${path}.role`),
+  };
+}
+
+function parseCommand(data: unknown, path: string): AppliedCommand {
+  const value = record(data, path);
+
+  return {
+    action: oneOf(value.action, COMMAND_ACTIONS, `${path}.action`),
+    phrase: string(value.phrase, `${path}.phrase`),
+    start: number(value.start, `${path}.start`),
+    end: number(value.end, `${path}.end`),
+    argument: optional(value.argument, (v) => string(v, `${path}.argument`)),
+  };
+}
+
+function parseMarker(data: unknown, path: string): TranscriptMarker {
+  const value = record(data, path);
+  const type = oneOf(
+    value.type,
+    ["line", "paragraph", "section"] as const,
+    `${path}.type`
+  );
+  const time = number(value.time, `${path}.time`);
+
+  return type === "section"
+    ? { type, time, title: string(value.title, `${path}.title`) }
+    : { type, time };
+}
+
+function parseCorrection(data: unknown, path: string): TermCorrection {
+  const value = record(data, path);
+
+  return {
+    original: string(value.original, `${path}.original`),
+    replacement: string(value.replacement, `${path}.replacement`),
+    score: number(value.score, `${path}.score`),
+    category: oneOf(value.category, LEXICON_CATEGORIES, `${path}.category`),
+    start: number(value.start, `${path}.start`),
+    end: number(value.end, `${path}.end`),
+    originalWords: array(value.originalWords, `${path}.originalWords`).map(
+      (word, index) => parseWord(word, `${path}.originalWords[${index}]`)
+    ),
+  };
+}
+
+function parsePhiSpan(data: unknown, path: string): PhiSpan {
+  const value = record(data, path);
+
+  return {
+    category: oneOf(value.category, PHI_CATEGORIES, `${path}.category`),
+    replacement: string(value.replacement, `${path}.replacement`),
+    start: number(value.start, `${path}.start`),
+    end: number(value.end, `${path}.end`),
+  };
+}
+
+function parseMetadata(data: unknown, path: string): TranscriptionMetadata {
+  const value = record(data, path);
+
+  return {
+    processedAt: string(value.processedAt, `${path}.processedAt`),
+    model: string(value.model, `${path}.model`),
+    medicalContext: boolean(value.medicalContext, `${path}.medicalContext`),
+    specialty: optional(value.specialty, (v) => {
+      const specialty = string(v, `${path}.specialty`);
+      if (!isSpecialtyId(specialty)) {
+        throw new SchemaError(`${path}.specialty`, "a known specialty");
+      }
+      return specialty;
+    }),
+    termListId: optional(value.termListId, (v) =>
+      string(v, `${path}.termListId`)
+    ),
+    vocabularyTerms: optional(value.vocabularyTerms, (v) =>
+      number(v, `${path}.vocabularyTerms`)
+    ),
+    confidence: oneOf(
+      value.confidence,
+      [...CONFIDENCE_LEVELS, "unknown"] as const,
+      `${path}.confidence`
+    ),
+    confidenceScore: optional(value.confidenceScore, (v) =>
+      number(v, `${path}.confidenceScore`)
+    ),
+    lowConfidenceSegments: optional(value.lowConfidenceSegments, (v) =>
+      number(v, `${path}.lowConfidenceSegments`)
+    ),
+    hasWordTimestamps: optional(value.hasWordTimestamps, (v) =>
+      boolean(v, `${path}.hasWordTimestamps`)
+    ),
+    deidentification: optional(value.deidentification, (v) =>
+      oneOf(v, DEIDENTIFY_MODES, `${path}.deidentification`)
+    ),
+    diarization: optional(value.diarization, (v) =>
+      string(v, `${path}.diarization`)
+    ),
+  };
+}
+
+function record(value: unknown, path: string): UnknownRecord {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new SchemaError(path, "an object");
+  }
+  return value as UnknownRecord;
+}
+
+function array(value: unknown, path: string): unknown[] {
+  if (!Array.isArray(value)) throw new SchemaError(path, "an array");
+  return value;
+}
+
+function string(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new SchemaError(path, "a string");
+  return value;
+}
+
+function oneOf<T extends string>(
+  value: unknown,
+  options: readonly T[],
+  path: string
+): T {
+  if (!options.includes(value as T)) {
+    throw new SchemaError(path, `one of ${options.join(", ")}`);
+  }
+  return value as T;
+}
+
+function number(value: unknown, path: string): number {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new SchemaError(path, "a number");
+  }
+  return value;
+}
+
+function boolean(value: unknown, path: string): boolean {
+  if (typeof value !== "boolean") throw new SchemaError(path, "a boolean");
+  return value;
+}
+
+// JSON drops undefined, and some providers send null for missing fields
+function optional<T>(value: unknown, parse: (value: unknown) => T) {
+  return value === undefined || value === null ? undefined : parse(value);
+}
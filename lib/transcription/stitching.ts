@@ -0,0 +1,95 @@
+import type {
+  ProviderTranscription,
+  TranscriptionSegment,
+  WordTimestamp,
+} from "@/lib/transcription/types";
+
+export interface ChunkTranscription {
+  // Start of the chunk within the full recording, in seconds
+  offset: number;
+  transcription: ProviderTranscription;
+}
+
+// Merge transcriptions of overlapping chunks into a single transcription.
+// Each overlap is cut at its midpoint: the earlier chunk owns everything
+// before the cut and the later chunk everything after it.
+export function stitchTranscriptions(
+  chunks: ChunkTranscription[],
+  overlapSeconds: number
+): ProviderTranscription {
+  if (chunks.length === 0) {
+    throw new Error("Cannot stitch an empty list of chunks");
+  }
+
+  const sorted = [...chunks].sort((a, b) => a.offset - b.offset);
+  const words: WordTimestamp[] = [];
+  const segments: TranscriptionSegment[] = [];
+  let hasWords = false;
+  let hasSegments = false;
+
+  sorted.forEach(({ offset, transcription }, index) => {
+    const lower = index === 0 ? -Infinity : offset + overlapSeconds / 2;
+    const upper =
+      index === sorted.length - 1
+        ? Infinity
+        : sorted[index + 1].offset + overlapSeconds / 2;
+
+    if (transcription.words) {
+      hasWords = true;
+      for (const word of transcription.words) {
+        const start = word.start + offset;
+        if (start < lower || start >= upper) continue;
+
+        const shifted = { ...word, start, end: word.end + offset };
+        const previous = words[words.length - 1];
+        // The same word heard by both chunks right at the cut
+        if (
+          previous &&
+          normalizeWord(previous.word) === normalizeWord(shifted.word) &&
+          shifted.start < previous.end
+        ) {
+          continue;
+        }
+        words.push(shifted);
+      }
+    }
+
+    if (transcription.segments) {
+      hasSegments = true;
+      for (const segment of transcription.segments) {
+        const midpoint = (segment.start + segment.end) / 2 + offset;
+        if (midpoint < lower || midpoint >= upper) continue;
+
+        segments.push({
+          ...segment,
+          id: segments.length,
+          start: segment.start + offset,
+          end: segment.end + offset,
+        });
+      }
+    }
+  });
+
+  const last = sorted[sorted.length - 1];
+  const text = hasSegments
+    ? segments.map((segment) => segment.text.trim()).join(" ")
+    : hasWords
+    ? words.map((word) => word.word).join(" ")
+    : sorted.map(({ transcription }) => transcription.text.trim()).join(" ");
+
+  return {
+    text,
+    duration:
+      last.transcription.duration !== undefined
+        ? last.offset + last.transcription.duration
+        : undefined,
+    language: sorted.find(({ transcription }) => transcription.language)
+      ?.transcription.language,
+    segments: hasSegments ? segments : undefined,
+    words: hasWords ? words : undefined,
+    model: sorted[0].transcription.model,
+  };
+}
+
+const normalizeWord = (word: string) =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
@@ -0,0 +1,57 @@
+import type { TranscriptionSegment } from "@/lib/transcription/types";
+
+// Transcript text as Whisper would produce it from the segments
+export function joinSegmentText(segments: TranscriptionSegment[]) {
+  return segments.map((segment) => segment.text.trim()).join(" ");
+}
+
+// Word timestamps carry no punctuation, so keep the segment's final stop
+export function trailingPunctuation(text: string) {
+  return text.trim().match(/[.!?,;:]+$/)?.[0] ?? "";
+}
+
+// Segment that was being spoken at the given time
+export function findSegmentIndex(
+  segments: TranscriptionSegment[],
+  time: number
+) {
+  const index = segments.findIndex(
+    (segment) => time >= segment.start && time < segment.end
+  );
+  if (index !== -1) return index;
+
+  // Word timestamps can fall in the gaps between segments
+  let closest = -1;
+  for (let i = 0; i < segments.length; i++) {
+    if (segments[i].start <= time) closest = i;
+  }
+  return closest;
+}
+
+// Replace the first occurrence of a sequence of words in free text.
+// Punctuation and spacing between the words is allowed to vary.
+export function replacePhrase(
+  text: string,
+  words: string[],
+  replacement: string,
+  fromIndex = 0
+): { text: string; index: number } | null {
+  const pattern = new RegExp(
+    `(?<![\\p{L}\\p{N}])${words
+      .map(escapeRegExp)
+      .join("[\\s,.-]*")}(?![\\p{L}\\p{N}])`,
+    "iu"
+  );
+  const match = pattern.exec(text.slice(fromIndex));
+  if (!match) return null;
+
+  const index = fromIndex + match.index;
+  return {
+    text:
+      text.slice(0, index) + replacement + text.slice(index + match[0].length),
+    index: index + replacement.length,
+  };
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
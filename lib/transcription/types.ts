@@ -0,0 +1,100 @@
+import type { AppliedCommand, TranscriptMarker } from "@/lib/commands/types";
+import type { Speaker } from "@/lib/diarization/types";
+import type { TermCorrection } from "@/lib/medical/types";
+import type { DeidentifyMode, PhiSpan } from "@/lib/phi/types";
+import type { SpecialtyId } from "@/lib/vocabulary/types";
+
+export interface WordTimestamp {
+  word: string;
+  start: number;
+  end: number;
+  speaker?: string; // Speaker id, when the recording was diarized
+}
+
+export type ConfidenceLevel = "high" | "medium" | "low";
+
+export interface SegmentConfidence {
+  score: number; // 0 to 1
+  level: ConfidenceLevel;
+}
+
+export interface TranscriptionSegment {
+  id: number;
+  seek: number;
+  start: number;
+  end: number;
+  text: string;
+  tokens: number[];
+  temperature: number;
+  avg_logprob: number;
+  compression_ratio: number;
+  no_speech_prob: number;
+  confidence?: SegmentConfidence; // Added by the server from the fields above
+  speaker?: string; // Speaker id, when the recording was diarized
+}
+
+// The parts of a transcript that post-processing stages rewrite together
+export interface TranscriptContent {
+  text: string;
+  segments?: TranscriptionSegment[];
+  words?: WordTimestamp[];
+}
+
+// Normalized output every transcription provider must return
+export interface ProviderTranscription {
+  text: string;
+  duration?: number;
+  language?: string;
+  segments?: TranscriptionSegment[];
+  words?: WordTimestamp[];
+  model: string;
+}
+
+export interface TranscribeOptions {
+  temperature?: number;
+  prompt?: string;
+  language?: string;
+}
+
+export interface TranscriptionProvider {
+  name: string;
+  model: string;
+  transcribe(
+    audio: File,
+    options?: TranscribeOptions
+  ): Promise<ProviderTranscription>;
+}
+
+export interface TranscriptionMetadata {
+  processedAt: string;
+  model: string;
+  medicalContext: boolean;
+  specialty?: SpecialtyId;
+  termListId?: string;
+  vocabularyTerms?: number; // Terms included in the Whisper prompt
+  confidence: ConfidenceLevel | "unknown";
+  confidenceScore?: number;
+  lowConfidenceSegments?: number;
+  hasWordTimestamps?: boolean;
+  deidentification?: DeidentifyMode; // Identifiers were replaced
+  diarization?: string; // Provider that labelled the speakers
+}
+
+// Response body of POST /api/transcribe, plus client-side playback fields
+export interface TranscriptionResult {
+  text: string;
+  duration?: number;
+  language?: string;
+  segments?: TranscriptionSegment[];
+  words?: WordTimestamp[]; // Word-level timestamps at top level
+  audioUrl?: string; // URL for audio playback
+  audioFileName?: string; // Original filename for display
+  metadata?: TranscriptionMetadata;
+  corrections?: TermCorrection[]; // Medical terms rewritten after transcription
+  editedAt?: string; // Set once the transcript has been edited by hand
+  phi?: PhiSpan[]; // Identifiers replaced by de-identification
+  speakers?: Speaker[]; // Voices in a diarized recording, with their roles
+  voiceCommands?: AppliedCommand[]; // Spoken commands removed from the text
+  markers?: TranscriptMarker[]; // Line breaks and headings they asked for
+  template?: string; // Id of the dictation template the transcript fills
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import type { SessionUser } from "@/lib/auth/types";
+import { logError } from "@/lib/logging";
+import type {
+  TranscriptionErrorCode,
+  TranscriptionErrorResponse,
+} from "@/lib/transcription/errors";
+import { getUsageConfig, type UsageConfig } from "@/lib/usage/config";
+import { takeToken } from "@/lib/usage/rate-limit";
+import {
+  currentMonth,
+  monthReset,
+  recordUsage,
+  releaseUsage,
+  reserveUsage,
+} from "@/lib/usage/store";
+
+// Audio length assumed for an upload until the provider reports it:
+// 128 kbit/s, about a typical MP3 and the page's 16kHz mu-law WAV. Opus
+// uploads are smaller for their length, so less is reserved for them and
+// the rest is charged once transcribed.
+const ESTIMATED_BYTES_PER_SECOND = 16_000;
+
+type Budget =
+  | { ok: true; headers: Headers; reservationId?: string }
+  | { ok: false; code: TranscriptionErrorCode; response: NextResponse };
+
+// Checked before audio reaches the provider: the monthly quota first, so
+// a refused request does not use up the rate limit. Within the quota, an
+// estimate from the upload size is reserved until the request is charged
+// or released. The headers describe what is left and go on the response
+// either way.
+export async function checkBudget(
+  user: SessionUser,
+  {
+    uploadBytes = 0,
+    rateLimit = true,
+  }: { uploadBytes?: number; rateLimit?: boolean } = {}
+): Promise<Budget> {
+  const config = getUsageConfig();
+  const headers = new Headers();
+  let reservationId: string | undefined;
+
+  if (config.quotaMinutes > 0) {
+    const month = currentMonth();
+    const reservation = await reserveUsage(
+      user.id,
+      uploadBytes / ESTIMATED_BYTES_PER_SECOND,
+      config.quotaMinutes * 60
+    );
+    setQuotaHeaders(headers, config, reservation.used, month);
+    reservationId = reservation.id;
+
+    if (!reservationId) {
+      return refuse(headers, {
+        error: `This would go past this month's ${
+          config.quotaMinutes
+        } transcription minutes. The quota starts over on ${monthReset(
+          month
+        ).slice(0, 10)}.`,
+        code: "quota_exceeded",
+        retryable: false,
+      });
+    }
+  }
+
+  if (rateLimit && config.requestsPerMinute > 0) {
+    const rate = takeToken(user.id, config);
+    headers.set("X-RateLimit-Limit", String(rate.limit));
+    headers.set("X-RateLimit-Remaining", String(rate.remaining));
+
+    if (!rate.allowed) {
+      releaseUsage(reservationId);
+      headers.set("Retry-After", String(rate.retryAfter));
+      return refuse(headers, {
+        error: "Too many transcription requests. Please wait a moment.",
+        code: "rate_limited",
+        retryable: true,
+        retryAfter: rate.retryAfter,
+      });
+    }
+  }
+
+  return { ok: true, headers, reservationId };
+}
+
+// Count transcribed audio against the user's month, by the duration the
+// provider reported, settle the reservation and update the quota headers
+export async function chargeUsage(
+  user: SessionUser,
+  seconds: number | undefined,
+  headers: Headers,
+  options: { reservationId?: string; requests?: number } = {}
+) {
+  try {
+    const entry = await recordUsage(user, seconds ?? 0, options);
+    const config = getUsageConfig();
+    if (config.quotaMinutes > 0) {
+      setQuotaHeaders(headers, config, entry.seconds, currentMonth());
+    }
+  } catch (error) {
+    logError("Usage accounting error", error);
+  }
+}
+
+function setQuotaHeaders(
+  headers: Headers,
+  config: UsageConfig,
+  usedSeconds: number,
+  month: string
+) {
+  const usedMinutes = usedSeconds / 60;
+  headers.set("X-Quota-Limit-Minutes", String(config.quotaMinutes));
+  headers.set("X-Quota-Used-Minutes", usedMinutes.toFixed(2));
+  headers.set(
+    "X-Quota-Remaining-Minutes",
+    Math.max(0, config.quotaMinutes - usedMinutes).toFixed(2)
+  );
+  headers.set("X-Quota-Reset", monthReset(month));
+}
+
+function refuse(headers: Headers, body: TranscriptionErrorResponse) {
+  return {
+    ok: false as const,
+    code: body.code,
+    response: NextResponse.json<TranscriptionErrorResponse>(body, {
+      status: 429,
+      headers,
+    }),
+  };
+}
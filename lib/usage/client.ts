@@ -0,0 +1,11 @@
+import type { UsageReport } from "@/lib/usage/types";
+
+export async function fetchUsage(month?: string): Promise<UsageReport> {
+  const params = new URLSearchParams(month ? { month } : {});
+  const response = await fetch(`/api/usage?${params}`);
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Could not load usage");
+  }
+  return body;
+}
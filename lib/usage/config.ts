@@ -0,0 +1,32 @@
+// Whisper's list price per minute of audio, in US dollars
+const DEFAULT_COST_PER_MINUTE = 0.006;
+const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+export interface UsageConfig {
+  requestsPerMinute: number; // 0 turns rate limiting off
+  burst: number; // Requests that may be made at once
+  quotaMinutes: number; // Monthly minutes per user or key; 0 is unlimited
+  costPerMinute: number;
+}
+
+export function getUsageConfig(
+  env: NodeJS.ProcessEnv = process.env
+): UsageConfig {
+  const requestsPerMinute = number(
+    env.RATE_LIMIT_PER_MINUTE,
+    DEFAULT_REQUESTS_PER_MINUTE
+  );
+  return {
+    requestsPerMinute,
+    burst: number(env.RATE_LIMIT_BURST, requestsPerMinute),
+    quotaMinutes: number(env.QUOTA_MINUTES_PER_MONTH, 0),
+    costPerMinute: number(env.COST_PER_MINUTE, DEFAULT_COST_PER_MINUTE),
+  };
+}
+
+function number(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value?.trim() && Number.isFinite(parsed) && parsed >= 0
+    ? parsed
+    : fallback;
+}
@@ -0,0 +1,59 @@
+// Token buckets, one per user or API key: each request takes a token and
+// tokens come back at a steady rate, so short bursts are allowed but not
+// a sustained flood
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number; // Whole tokens left after this request
+  retryAfter: number; // Seconds until the next token, when refused
+}
+
+// Kept in memory and shared between route modules, like the streaming
+// sessions
+const registry = globalThis as typeof globalThis & {
+  rateLimitBuckets?: Map<string, Bucket>;
+};
+const buckets = (registry.rateLimitBuckets ??= new Map());
+
+export function takeToken(
+  key: string,
+  { requestsPerMinute, burst }: { requestsPerMinute: number; burst: number },
+  now = Date.now()
+): RateLimitResult {
+  const capacity = Math.max(1, burst);
+  const perMs = requestsPerMinute / 60_000;
+  const bucket: Bucket = buckets.get(key) ?? {
+    tokens: capacity,
+    updatedAt: now,
+  };
+
+  bucket.tokens = Math.min(
+    capacity,
+    bucket.tokens + (now - bucket.updatedAt) * perMs
+  );
+  bucket.updatedAt = now;
+  buckets.set(key, bucket);
+
+  if (bucket.tokens < 1) {
+    return {
+      allowed: false,
+      limit: capacity,
+      remaining: 0,
+      retryAfter: Math.ceil((1 - bucket.tokens) / perMs / 1000),
+    };
+  }
+
+  bucket.tokens -= 1;
+  return {
+    allowed: true,
+    limit: capacity,
+    remaining: Math.floor(bucket.tokens),
+    retryAfter: 0,
+  };
+}
@@ -0,0 +1,120 @@
+import { randomUUID } from "crypto";
+import type { SessionUser } from "@/lib/auth/types";
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+import type { UsageEntry } from "@/lib/usage/types";
+
+const FILE_NAME = "usage.json";
+
+// Entries by month ("YYYY-MM"), then by user or API key id
+type UsageFile = Record<string, Record<string, UsageEntry>>;
+
+// Seconds held for a transcription that has been let through but not yet
+// charged, so that requests running at the same time cannot all spend
+// the last of a quota
+interface Reservation {
+  userId: string;
+  seconds: number;
+}
+
+// Read-modify-write of the file is serialized so that concurrent
+// transcriptions are all counted, and quota checks see every reservation
+// made before them. Reservations are kept in memory, like the rate limit.
+const registry = globalThis as typeof globalThis & {
+  usageQueue?: Promise<unknown>;
+  usageReservations?: Map<string, Reservation>;
+};
+const reservations = (registry.usageReservations ??= new Map());
+
+export const currentMonth = (now = new Date()) => now.toISOString().slice(0, 7);
+
+// When the month's quota starts over: midnight UTC on the 1st
+export function monthReset(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return new Date(Date.UTC(year, monthIndex, 1)).toISOString();
+}
+
+export async function getUsage(
+  userId: string,
+  month = currentMonth()
+): Promise<UsageEntry | undefined> {
+  const usage = await readJsonFile<UsageFile>(FILE_NAME, {});
+  return usage[month]?.[userId];
+}
+
+export async function listUsage(month = currentMonth()) {
+  const usage = await readJsonFile<UsageFile>(FILE_NAME, {});
+  return {
+    entries: Object.values(usage[month] ?? {}).sort(
+      (a, b) => b.seconds - a.seconds
+    ),
+    months: Object.keys(usage).sort().reverse(),
+  };
+}
+
+// Hold an estimate of a transcription's seconds against the user's
+// quota. Nothing is reserved, and no id returned, when it would take what
+// was used and what other requests reserved past the quota.
+export function reserveUsage(
+  userId: string,
+  seconds: number,
+  quotaSeconds: number,
+  now = new Date()
+): Promise<{ id?: string; used: number }> {
+  return enqueue(async () => {
+    const used = (await getUsage(userId, currentMonth(now)))?.seconds ?? 0;
+    let reserved = 0;
+    for (const reservation of reservations.values()) {
+      if (reservation.userId === userId) reserved += reservation.seconds;
+    }
+    const committed = used + reserved;
+    if (committed >= quotaSeconds || committed + seconds > quotaSeconds) {
+      return { used };
+    }
+
+    const id = randomUUID();
+    reservations.set(id, { userId, seconds: Math.max(0, seconds) });
+    return { id, used };
+  });
+}
+
+// Give back a reservation whose transcription failed. Settled or
+// released ones are ignored.
+export function releaseUsage(reservationId: string | undefined) {
+  if (reservationId) reservations.delete(reservationId);
+}
+
+// Add transcribed seconds to the user's month, settling the reservation
+// made for them. A live dictation is one request however many windows it
+// is transcribed in.
+export function recordUsage(
+  user: SessionUser,
+  seconds: number,
+  {
+    reservationId,
+    requests = 1,
+    now = new Date(),
+  }: { reservationId?: string; requests?: number; now?: Date } = {}
+): Promise<UsageEntry> {
+  return enqueue(async () => {
+    const usage = await readJsonFile<UsageFile>(FILE_NAME, {});
+    const month = (usage[currentMonth(now)] ??= {});
+    const previous = month[user.id];
+
+    const entry: UsageEntry = {
+      user,
+      seconds: (previous?.seconds ?? 0) + Math.max(0, seconds),
+      requests: (previous?.requests ?? 0) + requests,
+      updatedAt: now.toISOString(),
+    };
+    month[user.id] = entry;
+    await writeJsonFile(FILE_NAME, usage);
+    releaseUsage(reservationId);
+    return entry;
+  });
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = (registry.usageQueue ?? Promise.resolve()).then(task);
+  registry.usageQueue = result.catch(() => {});
+  return result;
+}
@@ -0,0 +1,18 @@
+import type { SessionUser } from "@/lib/auth/types";
+
+// Transcription used by one user or API key in a calendar month (UTC)
+export interface UsageEntry {
+  user: SessionUser; // As of the latest request
+  seconds: number; // Audio duration reported by the provider
+  requests: number;
+  updatedAt: string;
+}
+
+// Response body of GET /api/usage
+export interface UsageReport {
+  month: string; // "YYYY-MM"
+  months: string[]; // Months with usage, newest first
+  quotaMinutes: number; // Per user; 0 when unlimited
+  costPerMinute: number; // US dollars
+  entries: UsageEntry[];
+}
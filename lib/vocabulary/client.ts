@@ -0,0 +1,52 @@
+import type {
+  TermListSummary,
+  VocabularyOptions,
+} from "@/lib/vocabulary/types";
+
+export async function fetchVocabularyOptions(): Promise<VocabularyOptions> {
+  const response = await fetch("/api/vocabulary");
+  return parseResponse(response);
+}
+
+// Shared lists are seen by the whole clinic; only administrators may
+// create them
+export async function createTermList(
+  name: string,
+  terms: string[],
+  shared = false
+): Promise<TermListSummary> {
+  const response = await fetch("/api/vocabulary", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, terms, shared }),
+  });
+  return parseResponse(response);
+}
+
+export async function updateTermList(
+  id: string,
+  name: string,
+  terms: string[]
+): Promise<TermListSummary> {
+  const response = await fetch(`/api/vocabulary/${id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ name, terms }),
+  });
+  return parseResponse(response);
+}
+
+export async function deleteTermList(id: string): Promise<void> {
+  const response = await fetch(`/api/vocabulary/${id}`, { method: "DELETE" });
+  if (!response.ok) {
+    throw new Error((await response.json()).error || "Failed to delete list");
+  }
+}
+
+async function parseResponse<T>(response: Response): Promise<T> {
+  const body = await response.json();
+  if (!response.ok) {
+    throw new Error(body.error || "Vocabulary request failed");
+  }
+  return body;
+}
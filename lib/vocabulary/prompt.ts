@@ -0,0 +1,53 @@
+import { findSpecialty } from "@/lib/vocabulary/specialties";
+import type { SpecialtyId } from "@/lib/vocabulary/types";
+
+// Whisper only looks at the last 224 tokens of the prompt; ~3.5 characters
+// per token keeps us inside that window
+const MAX_PROMPT_CHARS = 780;
+
+interface VocabularyPromptOptions {
+  specialty?: SpecialtyId;
+  customTerms?: string[];
+}
+
+export interface VocabularyPrompt {
+  prompt: string;
+  termCount: number;
+}
+
+// Build the Whisper `prompt` parameter from a specialty and custom terms.
+// Custom terms come first since they are the ones Whisper cannot know.
+export function buildVocabularyPrompt({
+  specialty = "general",
+  customTerms = [],
+}: VocabularyPromptOptions): VocabularyPrompt {
+  const selected = findSpecialty(specialty);
+  const general = findSpecialty("general");
+  const candidates = [
+    ...customTerms,
+    ...(selected?.terms ?? []),
+    ...(specialty !== "general" ? general?.terms ?? [] : []),
+  ];
+
+  const intro = `Medical dictation${
+    selected && specialty !== "general" ? ` (${selected.label})` : ""
+  }. Terms: `;
+  const terms: string[] = [];
+  const seen = new Set<string>();
+
+  for (const candidate of candidates) {
+    const term = candidate.trim();
+    const key = term.toLowerCase();
+    if (!term || seen.has(key)) continue;
+
+    if (formatPrompt(intro, [...terms, term]).length > MAX_PROMPT_CHARS) break;
+
+    seen.add(key);
+    terms.push(term);
+  }
+
+  return { prompt: formatPrompt(intro, terms), termCount: terms.length };
+}
+
+const formatPrompt = (intro: string, terms: string[]) =>
+  `${intro}${terms.join(", ")}.`;
@@ -0,0 +1,224 @@
+import type { Specialty, SpecialtyId } from "@/lib/vocabulary/types";
+
+// Common terms Whisper tends to miss, most important first. The prompt
+// builder truncates from the end when the list is too long.
+export const SPECIALTIES: Specialty[] = [
+  {
+    id: "general",
+    label: "General practice",
+    terms: [
+      "metoprolol",
+      "lisinopril",
+      "amlodipine",
+      "atorvastatin",
+      "metformin",
+      "levothyroxine",
+      "omeprazole",
+      "hydrochlorothiazide",
+      "amoxicillin",
+      "azithromycin",
+      "ibuprofen",
+      "acetaminophen",
+      "prednisone",
+      "gabapentin",
+      "sertraline",
+      "hypertension",
+      "hyperlipidemia",
+      "dyspnea",
+      "tachycardia",
+      "auscultation",
+      "afebrile",
+      "p.r.n.",
+      "b.i.d.",
+      "t.i.d.",
+    ],
+  },
+  {
+    id: "cardiology",
+    label: "Cardiology",
+    terms: [
+      "atrial fibrillation",
+      "apixaban",
+      "rivaroxaban",
+      "warfarin",
+      "clopidogrel",
+      "ticagrelor",
+      "carvedilol",
+      "sacubitril",
+      "valsartan",
+      "spironolactone",
+      "furosemide",
+      "amiodarone",
+      "digoxin",
+      "echocardiogram",
+      "ejection fraction",
+      "troponin",
+      "NSTEMI",
+      "STEMI",
+      "cardiomyopathy",
+      "mitral regurgitation",
+      "aortic stenosis",
+      "percutaneous coronary intervention",
+      "CHA2DS2-VASc",
+    ],
+  },
+  {
+    id: "endocrinology",
+    label: "Endocrinology",
+    terms: [
+      "HbA1c",
+      "insulin glargine",
+      "insulin lispro",
+      "semaglutide",
+      "liraglutide",
+      "empagliflozin",
+      "dapagliflozin",
+      "sitagliptin",
+      "glipizide",
+      "methimazole",
+      "propylthiouracil",
+      "hypothyroidism",
+      "hyperthyroidism",
+      "Hashimoto's",
+      "Graves' disease",
+      "diabetic ketoacidosis",
+      "hypoglycemia",
+      "TSH",
+    ],
+  },
+  {
+    id: "neurology",
+    label: "Neurology",
+    terms: [
+      "levetiracetam",
+      "lamotrigine",
+      "valproate",
+      "carbamazepine",
+      "topiramate",
+      "sumatriptan",
+      "donepezil",
+      "carbidopa-levodopa",
+      "multiple sclerosis",
+      "transient ischemic attack",
+      "hemiparesis",
+      "aphasia",
+      "dysarthria",
+      "nystagmus",
+      "Babinski",
+      "electroencephalogram",
+      "NIH Stroke Scale",
+    ],
+  },
+  {
+    id: "orthopedics",
+    label: "Orthopedics",
+    terms: [
+      "meniscus",
+      "anterior cruciate ligament",
+      "rotator cuff",
+      "arthroplasty",
+      "arthroscopy",
+      "osteoarthritis",
+      "spondylolisthesis",
+      "radiculopathy",
+      "carpal tunnel",
+      "distal radius fracture",
+      "open reduction internal fixation",
+      "meloxicam",
+      "cyclobenzaprine",
+      "Lachman test",
+      "McMurray test",
+    ],
+  },
+  {
+    id: "pulmonology",
+    label: "Pulmonology",
+    terms: [
+      "albuterol",
+      "tiotropium",
+      "budesonide-formoterol",
+      "fluticasone-salmeterol",
+      "montelukast",
+      "COPD",
+      "bronchiectasis",
+      "pulmonary embolism",
+      "pleural effusion",
+      "spirometry",
+      "FEV1",
+      "rhonchi",
+      "wheezing",
+      "crackles",
+      "CPAP",
+    ],
+  },
+  {
+    id: "gastroenterology",
+    label: "Gastroenterology",
+    terms: [
+      "pantoprazole",
+      "esomeprazole",
+      "ondansetron",
+      "mesalamine",
+      "infliximab",
+      "adalimumab",
+      "colonoscopy",
+      "esophagogastroduodenoscopy",
+      "Crohn's disease",
+      "ulcerative colitis",
+      "cholecystitis",
+      "pancreatitis",
+      "cirrhosis",
+      "hematochezia",
+      "melena",
+    ],
+  },
+  {
+    id: "psychiatry",
+    label: "Psychiatry",
+    terms: [
+      "escitalopram",
+      "fluoxetine",
+      "bupropion",
+      "venlafaxine",
+      "duloxetine",
+      "mirtazapine",
+      "quetiapine",
+      "aripiprazole",
+      "risperidone",
+      "lithium",
+      "lorazepam",
+      "PHQ-9",
+      "GAD-7",
+      "anhedonia",
+      "suicidal ideation",
+    ],
+  },
+  {
+    id: "oncology",
+    label: "Oncology",
+    terms: [
+      "pembrolizumab",
+      "nivolumab",
+      "trastuzumab",
+      "bevacizumab",
+      "carboplatin",
+      "cisplatin",
+      "paclitaxel",
+      "docetaxel",
+      "capecitabine",
+      "tamoxifen",
+      "letrozole",
+      "metastasis",
+      "neutropenia",
+      "ECOG performance status",
+      "adjuvant chemotherapy",
+    ],
+  },
+];
+
+export function findSpecialty(id: string): Specialty | undefined {
+  return SPECIALTIES.find((specialty) => specialty.id === id);
+}
+
+export const isSpecialtyId = (id: string): id is SpecialtyId =>
+  SPECIALTIES.some((specialty) => specialty.id === id);
@@ -0,0 +1,111 @@
+import { randomUUID } from "crypto";
+import { can } from "@/lib/auth/roles";
+import type { SessionUser } from "@/lib/auth/types";
+import { readJsonFile, writeJsonFile } from "@/lib/data-store";
+import type { CustomTermList, TermListSummary } from "@/lib/vocabulary/types";
+
+const FILE_NAME = "vocabulary.json";
+
+// Keeps a single list from crowding everything else out of the prompt
+export const MAX_TERMS_PER_LIST = 200;
+
+// Read-modify-write of the file is serialized so that concurrent saves do
+// not lose each other's lists
+const registry = globalThis as typeof globalThis & {
+  vocabularyQueue?: Promise<unknown>;
+};
+
+export async function listTermLists(): Promise<CustomTermList[]> {
+  return readJsonFile<CustomTermList[]>(FILE_NAME, []);
+}
+
+export async function getTermList(
+  id: string
+): Promise<CustomTermList | undefined> {
+  const lists = await listTermLists();
+  return lists.find((list) => list.id === id);
+}
+
+export function saveTermList(
+  input: Pick<CustomTermList, "name" | "terms" | "ownerId"> & { id?: string }
+): Promise<CustomTermList> {
+  return enqueue(async () => {
+    const lists = await listTermLists();
+    const list: CustomTermList = {
+      id: input.id ?? randomUUID(),
+      name: input.name.trim(),
+      terms: normalizeTerms(input.terms),
+      ownerId: input.ownerId,
+      updatedAt: new Date().toISOString(),
+    };
+
+    const index = lists.findIndex((existing) => existing.id === list.id);
+    if (index === -1) {
+      lists.push(list);
+    } else {
+      lists[index] = list;
+    }
+
+    await writeJsonFile(FILE_NAME, lists);
+    return list;
+  });
+}
+
+export function deleteTermList(id: string): Promise<boolean> {
+  return enqueue(async () => {
+    const lists = await listTermLists();
+    const remaining = lists.filter((list) => list.id !== id);
+    if (remaining.length === lists.length) return false;
+
+    await writeJsonFile(FILE_NAME, remaining);
+    return true;
+  });
+}
+
+// Everyone sees the clinic-wide lists and their own
+export const isTermListVisible = (list: CustomTermList, user: SessionUser) =>
+  !list.ownerId || list.ownerId === user.id;
+
+export const isTermListEditable = (list: CustomTermList, user: SessionUser) =>
+  list.ownerId ? list.ownerId === user.id : can(user.role, "vocabulary:shared");
+
+export const toTermListSummary = (
+  list: CustomTermList,
+  user: SessionUser
+): TermListSummary => ({ ...list, editable: isTermListEditable(list, user) });
+
+// Validate a term list request body
+export function parseTermListInput(
+  body: unknown
+): { name: string; terms: string[]; shared: boolean } | null {
+  if (typeof body !== "object" || body === null) return null;
+
+  const { name, terms, shared } = body as {
+    name?: unknown;
+    terms?: unknown;
+    shared?: unknown;
+  };
+  if (typeof name !== "string" || !name.trim()) return null;
+  if (!Array.isArray(terms) || !terms.every((t) => typeof t === "string")) {
+    return null;
+  }
+
+  return { name, terms, shared: shared === true };
+}
+
+function normalizeTerms(terms: string[]) {
+  const unique = new Map<string, string>();
+  for (const term of terms) {
+    const trimmed = term.trim();
+    if (trimmed && !unique.has(trimmed.toLowerCase())) {
+      unique.set(trimmed.toLowerCase(), trimmed);
+    }
+  }
+  return [...unique.values()].slice(0, MAX_TERMS_PER_LIST);
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+  const result = (registry.vocabularyQueue ?? Promise.resolve()).then(task);
+  registry.vocabularyQueue = result.catch(() => {});
+  return result;
+}
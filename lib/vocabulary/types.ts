@@ -0,0 +1,38 @@
+export type SpecialtyId =
+  | "general"
+  | "cardiology"
+  | "endocrinology"
+  | "neurology"
+  | "orthopedics"
+  | "pulmonology"
+  | "gastroenterology"
+  | "psychiatry"
+  | "oncology";
+
+export interface Specialty {
+  id: SpecialtyId;
+  label: string;
+  terms: string[];
+}
+
+// List of terms to bias transcription towards. Personal lists belong to
+// the user who created them; clinic-wide ones are kept by administrators.
+export interface CustomTermList {
+  id: string;
+  name: string;
+  terms: string[];
+  ownerId?: string; // Unset for clinic-wide lists
+  updatedAt: string;
+}
+
+// A term list as the API returns it to the signed-in user
+export interface TermListSummary extends CustomTermList {
+  editable: boolean;
+}
+
+// Summary returned by GET /api/vocabulary
+export interface VocabularyOptions {
+  specialties: { id: SpecialtyId; label: string; termCount: number }[];
+  termLists: TermListSummary[];
+  canShare: boolean; // Whether the user may create clinic-wide lists
+}
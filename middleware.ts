@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  AuthConfigurationError,
+  readSessionToken,
+  SESSION_COOKIE,
+} from "@/lib/auth/session";
+
+// Reachable without signing in. The IdP stand-in is a development server
+// that does its own checks.
+const PUBLIC_PATHS = [
+  "/login",
+  "/api/auth/login",
+  "/api/auth/logout",
+  "/api/auth/oidc",
+  "/api/idp-standin",
+];
+
+// The FHIR stand-in is sent bundles by this server itself, without a
+// session; reading documents back needs one like any other route
+const isFhirStandInPost = ({ method, nextUrl }: NextRequest) =>
+  method === "POST" && nextUrl.pathname === "/api/fhir-standin";
+
+const isUnder = (pathname: string, path: string) =>
+  pathname === path || pathname.startsWith(`${path}/`);
+
+// Turn away requests without a valid session before they reach a page or
+// route. Route handlers check the session again, with the current role.
+export async function middleware(request: NextRequest) {
+  const { pathname, search } = request.nextUrl;
+  const isApi = isUnder(pathname, "/api");
+
+  let session;
+  try {
+    session = await readSessionToken(
+      request.cookies.get(SESSION_COOKIE)?.value
+    );
+  } catch (error) {
+    if (!(error instanceof AuthConfigurationError)) throw error;
+    return NextResponse.json(
+      { error: "Sign-in is not configured on the server" },
+      { status: 500 }
+    );
+  }
+
+  if (pathname === "/login" && session) {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+  if (
+    PUBLIC_PATHS.some((path) => isUnder(pathname, path)) ||
+    isFhirStandInPost(request)
+  ) {
+    return NextResponse.next();
+  }
+
+  // API keys are checked by the route handlers, in Node.js
+  const hasApiKey = /^Bearer\s/i.test(
+    request.headers.get("authorization") ?? ""
+  );
+
+  if (!session && !(isApi && hasApiKey)) {
+    if (isApi) {
+      return NextResponse.json(
+        {
+          error: "Your session has ended. Please sign in again.",
+          code: "unauthenticated",
+          retryable: false,
+        },
+        { status: 401 }
+      );
+    }
+
+    const login = new URL("/login", request.url);
+    login.searchParams.set("next", `${pathname}${search}`);
+    return NextResponse.redirect(login);
+  }
+
+  if (isUnder(pathname, "/admin") && session?.role !== "admin") {
+    return NextResponse.redirect(new URL("/", request.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};